@@ -0,0 +1,180 @@
+/**
+ * @fileOverview A mock OpenID Connect issuer for trying single sign-on in
+ * development. It serves discovery, JWKS, an authorization page where you type
+ * the claims to sign in with, and a token endpoint that checks PKCE and returns
+ * a signed ID token. Nothing is persisted; restart it to forget every code.
+ *
+ * Run it with `npm run oidc:mock` and start the app with:
+ *   OIDC_ISSUER=http://localhost:9400
+ *   OIDC_CLIENT_ID=examzen
+ *   OIDC_PROVIDER_NAME="Mock School"
+ * Any client id and secret are accepted. MOCK_OIDC_PORT changes the port.
+ */
+import { createHash, randomBytes } from 'crypto';
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { exportJWK, generateKeyPair, SignJWT, type JWK } from 'jose';
+
+const PORT = Number(process.env.MOCK_OIDC_PORT || 9400);
+const ISSUER = `http://localhost:${PORT}`;
+const KEY_ID = 'mock-oidc';
+const CODE_TTL_MS = 60 * 1000;
+const ID_TOKEN_TTL = '5m';
+
+type PendingCode = {
+  client_id: string;
+  redirect_uri: string;
+  nonce?: string;
+  code_challenge?: string;
+  claims: Record<string, unknown>;
+  expires_at: number;
+};
+
+// Codes are single use and kept in memory.
+const codes = new Map<string, PendingCode>();
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+async function readForm(req: IncomingMessage): Promise<URLSearchParams> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return new URLSearchParams(Buffer.concat(chunks).toString());
+}
+
+// The client id comes from the form field or, for confidential clients, Basic auth.
+function getClientId(req: IncomingMessage, form: URLSearchParams): string | null {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Basic ')) {
+    const [clientId] = Buffer.from(header.slice(6), 'base64').toString().split(':');
+    return decodeURIComponent(clientId);
+  }
+  return form.get('client_id');
+}
+
+function renderAuthorizePage(params: URLSearchParams): string {
+  const hidden = ['client_id', 'redirect_uri', 'state', 'nonce', 'code_challenge']
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name) ?? '')}">`)
+    .join('');
+  const field = (name: string, label: string, value: string) =>
+    `<p><label>${label}<br><input name="${name}" value="${escapeHtml(value)}" size="40"></label></p>`;
+  return `<!doctype html>
+<title>Mock OIDC sign-in</title>
+<h1>Mock OIDC sign-in</h1>
+<p>Signing in to <code>${escapeHtml(params.get('client_id') ?? '')}</code>. Enter the claims to send.</p>
+<form method="post" action="/authorize">
+  ${hidden}
+  ${field('email', 'Email', 'student@example.edu')}
+  ${field('name', 'Name', 'Sam Student')}
+  ${field('roles', 'Roles (comma-separated)', 'student')}
+  ${field('class', 'Class', '')}
+  ${field('section', 'Section', '')}
+  <p><label><input type="checkbox" name="email_verified" checked> Email verified</label></p>
+  <button>Sign in</button>
+</form>`;
+}
+
+async function main() {
+  const { publicKey, privateKey } = await generateKeyPair('RS256');
+  const jwk: JWK = { ...(await exportJWK(publicKey)), kid: KEY_ID, alg: 'RS256', use: 'sig' };
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', ISSUER);
+    try {
+      if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+        return sendJson(res, 200, {
+          issuer: ISSUER,
+          authorization_endpoint: `${ISSUER}/authorize`,
+          token_endpoint: `${ISSUER}/token`,
+          jwks_uri: `${ISSUER}/jwks`,
+          response_types_supported: ['code'],
+          subject_types_supported: ['public'],
+          id_token_signing_alg_values_supported: ['RS256'],
+          code_challenge_methods_supported: ['S256'],
+        });
+      }
+
+      if (req.method === 'GET' && url.pathname === '/jwks') {
+        return sendJson(res, 200, { keys: [jwk] });
+      }
+
+      if (req.method === 'GET' && url.pathname === '/authorize') {
+        if (url.searchParams.get('response_type') !== 'code' || !url.searchParams.get('redirect_uri')) {
+          return sendJson(res, 400, { error: 'invalid_request' });
+        }
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        return res.end(renderAuthorizePage(url.searchParams));
+      }
+
+      if (req.method === 'POST' && url.pathname === '/authorize') {
+        const form = await readForm(req);
+        const email = form.get('email')!.trim().toLowerCase();
+        const code = randomBytes(16).toString('base64url');
+        codes.set(code, {
+          client_id: form.get('client_id')!,
+          redirect_uri: form.get('redirect_uri')!,
+          nonce: form.get('nonce') || undefined,
+          code_challenge: form.get('code_challenge') || undefined,
+          claims: {
+            sub: createHash('sha256').update(email).digest('hex').slice(0, 24),
+            email,
+            email_verified: form.has('email_verified'),
+            name: form.get('name') || undefined,
+            roles: (form.get('roles') ?? '').split(',').map(role => role.trim()).filter(Boolean),
+            class: form.get('class') || undefined,
+            section: form.get('section') || undefined,
+          },
+          expires_at: Date.now() + CODE_TTL_MS,
+        });
+        const redirect = new URL(form.get('redirect_uri')!);
+        redirect.searchParams.set('code', code);
+        if (form.get('state')) redirect.searchParams.set('state', form.get('state')!);
+        res.writeHead(302, { Location: redirect.toString() });
+        return res.end();
+      }
+
+      if (req.method === 'POST' && url.pathname === '/token') {
+        const form = await readForm(req);
+        const pending = codes.get(form.get('code') ?? '');
+        codes.delete(form.get('code') ?? '');
+        const clientId = getClientId(req, form);
+        const verifier = form.get('code_verifier') ?? '';
+        if (
+          form.get('grant_type') !== 'authorization_code' ||
+          !pending || pending.expires_at < Date.now() ||
+          pending.client_id !== clientId ||
+          pending.redirect_uri !== form.get('redirect_uri') ||
+          (pending.code_challenge && createHash('sha256').update(verifier).digest('base64url') !== pending.code_challenge)
+        ) {
+          return sendJson(res, 400, { error: 'invalid_grant' });
+        }
+        const idToken = await new SignJWT({ ...pending.claims, ...(pending.nonce && { nonce: pending.nonce }) })
+          .setProtectedHeader({ alg: 'RS256', kid: KEY_ID })
+          .setIssuer(ISSUER)
+          .setAudience(pending.client_id)
+          .setIssuedAt()
+          .setExpirationTime(ID_TOKEN_TTL)
+          .sign(privateKey);
+        return sendJson(res, 200, { id_token: idToken, token_type: 'Bearer', expires_in: 300 });
+      }
+
+      sendJson(res, 404, { error: 'not_found' });
+    } catch (error) {
+      console.error(error);
+      sendJson(res, 500, { error: 'server_error' });
+    }
+  });
+
+  server.listen(PORT, () => {
+    console.log(`Mock OIDC issuer listening on ${ISSUER}`);
+  });
+}
+
+main();
@@ -0,0 +1,126 @@
+/**
+ * @fileOverview Declarative authorization for Genkit flows.
+ *
+ * Every flow that is reachable from the client is defined through
+ * `defineAuthorizedFlow`, which resolves the acting user and checks the
+ * flow's policy before the flow body runs.
+ */
+import { z } from 'zod';
+import { ai } from '@/ai/genkit';
+import { db } from '@/lib/db';
+import { getCurrentUser, getSession } from '@/lib/session';
+import { ForbiddenError, UnauthenticatedError } from '@/lib/errors';
+import { isTwoFactorSetupRequired } from '@/lib/two-factor';
+import { canSignIn, isEmailVerified } from '@/lib/user-status';
+import { isVisibleToStudents } from '@/lib/test-lifecycle';
+import type { BankQuestion, Test, User } from '@/lib/types';
+
+export type FlowPolicy<I> = {
+  // Roles allowed to run the flow. Any signed-in user may run it when omitted.
+  roles?: User['role'][];
+  // Extra rule evaluated after the role check, e.g. resource ownership.
+  allow?: (input: I, user: User) => boolean | Promise<boolean>;
+  // Set on flows that publish content other users can see; muted users are refused.
+  denyMuted?: boolean;
+  // Set on flows that take part in an exam; students who haven't verified their email are refused.
+  requireVerifiedEmail?: boolean;
+  // Set on the flows used to enroll in 2FA. All other flows are refused while
+  // the user's role requires 2FA and they haven't set it up.
+  allowWithoutTwoFactor?: boolean;
+  // Set on flows that can't be undone or that change the user's credentials;
+  // an admin viewing the app as the user is refused.
+  denyImpersonation?: boolean;
+};
+
+type AuthorizedFlowConfig<I extends z.ZodTypeAny, O extends z.ZodTypeAny> = {
+  name: string;
+  inputSchema: I;
+  outputSchema: O;
+  policy: FlowPolicy<z.infer<I>>;
+};
+
+// The acting user comes from the Genkit context when a caller supplies one
+// (e.g. the developer UI), otherwise from the session cookie of the request.
+// Only the id is taken from the context; the role and status are the stored ones.
+async function resolveUser(auth: Record<string, any> | undefined): Promise<User | null> {
+  if (auth?.id) {
+    const user = await db.getUserById(auth.id);
+    return user && canSignIn(user) ? user : null;
+  }
+  return getCurrentUser();
+}
+
+export function defineAuthorizedFlow<I extends z.ZodTypeAny, O extends z.ZodTypeAny>(
+  config: AuthorizedFlowConfig<I, O>,
+  fn: (input: z.infer<I>, user: User) => Promise<z.infer<O>>
+) {
+  const { policy, ...flowConfig } = config;
+
+  return ai.defineFlow(flowConfig, async (input, { context }) => {
+    const user = await resolveUser(context?.auth);
+    if (!user) {
+      throw new UnauthenticatedError();
+    }
+    if (policy.roles && !policy.roles.includes(user.role)) {
+      throw new ForbiddenError();
+    }
+    if (policy.denyMuted && user.status === 'muted') {
+      throw new ForbiddenError('Your account is muted, so you cannot do that.');
+    }
+    if (policy.requireVerifiedEmail && !isEmailVerified(user)) {
+      throw new ForbiddenError('Verify your email address before taking exams.');
+    }
+    if (!policy.allowWithoutTwoFactor && (await isTwoFactorSetupRequired(user))) {
+      throw new ForbiddenError('Set up two-factor authentication on your profile to continue.');
+    }
+    // Users supplied through the Genkit context have no session to impersonate with.
+    if (policy.denyImpersonation && !context?.auth && (await getSession())?.impersonator_id) {
+      throw new ForbiddenError('This action is disabled while you are viewing as another user.');
+    }
+    if (policy.allow && !(await policy.allow(input, user))) {
+      throw new ForbiddenError();
+    }
+    return fn(input, user);
+  });
+}
+
+// Ownership rules shared by several flow policies.
+
+export async function isTestOwner(testId: string, user: User): Promise<boolean> {
+  const test = await db.getTestById(testId);
+  return !!test && test.created_by === user.id;
+}
+
+// Mirrors db.getTestsForStudent for a single test.
+export function isTestAssignedTo(test: Test, student: User): boolean {
+  if (!test.assigned_class_ids && !test.assigned_student_ids) {
+    return true;
+  }
+  return (!!student.class_id && !!test.assigned_class_ids?.includes(student.class_id))
+    || !!test.assigned_student_ids?.includes(student.id);
+}
+
+// Students may only open and submit published tests assigned to them. Staff see every test.
+// A missing test is let through so the flow can report it as not found.
+export async function canAccessTest(testId: string, user: User): Promise<boolean> {
+  if (user.role !== 'student') {
+    return true;
+  }
+  const test = await db.getTestById(testId);
+  return !test || (isVisibleToStudents(test) && isTestAssignedTo(test, user));
+}
+
+export async function isQuestionTestOwner(questionId: string, user: User): Promise<boolean> {
+  const question = await db.getQuestionById(questionId);
+  return !!question && isTestOwner(question.test_id, user);
+}
+
+// Teachers use their own bank questions and those others shared.
+export function canUseBankQuestion(question: Pick<BankQuestion, 'owner_id' | 'shared'>, user: User): boolean {
+  return question.owner_id === user.id || question.shared;
+}
+
+export async function isSubmissionTestOwner(submissionId: string, user: User): Promise<boolean> {
+  const submission = await db.getSubmissionById(submissionId);
+  return !!submission && isTestOwner(submission.test_id, user);
+}
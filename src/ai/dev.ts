@@ -5,8 +5,28 @@ import './flows/profile-flow';
 import './flows/submission-flow';
 import './flows/question-flow';
 import './flows/evaluation-flow';
+import './flows/invitation-flow';
+import './flows/password-reset-flow';
+import './flows/two-factor-flow';
+import './flows/settings-flow';
+import './flows/email-verification-flow';
+import './flows/session-flow';
+import './flows/oidc-flow';
+import './flows/audit-flow';
+import './flows/impersonation-flow';
+import './flows/roster-import-flow';
+import './flows/class-flow';
+import './flows/question-bank-flow';
 
 // Schemas need to be imported for Genkit's dev tooling to pick them up.
 import './schemas/user-schemas';
 import './schemas/test-schemas';
 import './schemas/question-schemas';
+import './schemas/invitation-schemas';
+import './schemas/two-factor-schemas';
+import './schemas/settings-schemas';
+import './schemas/session-schemas';
+import './schemas/audit-schemas';
+import './schemas/roster-schemas';
+import './schemas/class-schemas';
+import './schemas/question-bank-schemas';
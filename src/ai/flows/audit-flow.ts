@@ -0,0 +1,89 @@
+'use server';
+/**
+ * @fileOverview Reading and exporting the audit log (admins only).
+ */
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { AuditEvent } from '@/lib/types';
+import { defineAuthorizedFlow } from '@/ai/authorization';
+import { toCsv } from '@/lib/csv';
+import { AuditEventFilterSchema, AuditEventOutputSchema } from '../schemas/audit-schemas';
+
+export type AuditEventOutput = z.infer<typeof AuditEventOutputSchema>;
+export type AuditEventFilter = z.infer<typeof AuditEventFilterSchema>;
+
+const AuditExportOutputSchema = z.object({
+    csv: z.string(),
+    count: z.number(),
+    // Set when more events matched than an export holds; only the newest were included.
+    truncated: z.boolean(),
+});
+export type AuditExportOutput = z.infer<typeof AuditExportOutputSchema>;
+
+const PAGE_LIMIT = 500;
+const EXPORT_LIMIT = 50000;
+
+function toAuditEventOutput(event: AuditEvent): AuditEventOutput {
+    return {
+        ...event,
+        created_at: event.created_at.toISOString(),
+    };
+}
+
+function queryEvents(filter: AuditEventFilter, limit: number): Promise<AuditEvent[]> {
+    return db.getAuditEvents({
+        ...filter,
+        from: filter.from ? new Date(filter.from) : undefined,
+        to: filter.to ? new Date(filter.to) : undefined,
+    }, limit);
+}
+
+
+const getAuditEventsFlow = defineAuthorizedFlow({
+    name: 'getAuditEventsFlow',
+    inputSchema: AuditEventFilterSchema,
+    outputSchema: z.array(AuditEventOutputSchema),
+    policy: { roles: ['admin'] },
+}, async (filter) => {
+    const events = await queryEvents(filter, PAGE_LIMIT);
+    return events.map(toAuditEventOutput);
+});
+
+// Returns the newest matching events, up to 500.
+export async function getAuditEvents(filter: AuditEventFilter): Promise<AuditEventOutput[]> {
+    return getAuditEventsFlow(filter);
+}
+
+
+const exportAuditEventsFlow = defineAuthorizedFlow({
+    name: 'exportAuditEventsFlow',
+    inputSchema: AuditEventFilterSchema,
+    outputSchema: AuditExportOutputSchema,
+    policy: { roles: ['admin'] },
+}, async (filter) => {
+    // One extra event tells whether the export was cut off.
+    const matched = await queryEvents(filter, EXPORT_LIMIT + 1);
+    const events = matched.slice(0, EXPORT_LIMIT);
+    const csv = toCsv(
+        ['timestamp', 'actor_id', 'actor_name', 'actor_role', 'impersonator_id', 'action', 'target_type', 'target_id', 'target_label', 'changes', 'ip'],
+        events.map(event => [
+            event.created_at.toISOString(),
+            event.actor_id,
+            event.actor_name,
+            event.actor_role,
+            event.impersonator_id,
+            event.action,
+            event.target_type,
+            event.target_id,
+            event.target_label,
+            event.changes,
+            event.ip,
+        ])
+    );
+    return { csv, count: events.length, truncated: matched.length > EXPORT_LIMIT };
+});
+
+// Returns the newest matching events as CSV, up to 50000; `truncated` says whether more matched.
+export async function exportAuditEvents(filter: AuditEventFilter): Promise<AuditExportOutput> {
+    return exportAuditEventsFlow(filter);
+}
@@ -0,0 +1,237 @@
+'use server';
+/**
+ * @fileOverview Classes (a grade and section for one academic year) and the
+ * students enrolled in them.
+ */
+import { ai } from '@/ai/genkit';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { defineAuthorizedFlow } from '@/ai/authorization';
+import { recordAuditEvent, userTarget } from '@/lib/audit';
+import { enrollmentFields } from '@/lib/class-enrollment';
+import { formatClassName, getAcademicYear, normalizeGrade, normalizeSection } from '@/lib/classes';
+import type { SchoolClass, User } from '@/lib/types';
+import { ClassInputSchema, ClassOptionSchema, ClassOutputSchema } from '../schemas/class-schemas';
+import { UserOutputSchema } from '../schemas/user-schemas';
+import { UserOutput } from './user-flow';
+
+export type ClassOutput = z.infer<typeof ClassOutputSchema>;
+export type ClassOption = z.infer<typeof ClassOptionSchema>;
+export type ClassInput = z.infer<typeof ClassInputSchema>;
+
+function classTarget(schoolClass: SchoolClass) {
+    return { type: 'class' as const, id: schoolClass.id, label: `${formatClassName(schoolClass)} (${schoolClass.academic_year})` };
+}
+
+function toClassOutput(schoolClass: SchoolClass, teachers: User[], studentCount: number): ClassOutput {
+    return {
+        id: schoolClass.id,
+        grade: schoolClass.grade,
+        section: schoolClass.section,
+        academic_year: schoolClass.academic_year,
+        name: formatClassName(schoolClass),
+        homeroom_teacher_id: schoolClass.homeroom_teacher_id,
+        homeroom_teacher_name: teachers.find(teacher => teacher.id === schoolClass.homeroom_teacher_id)?.username,
+        student_count: studentCount,
+    };
+}
+
+// Normalizes the grade and section and checks the homeroom teacher, so every
+// class is stored the same way however it was typed.
+async function toClassFields(input: ClassInput) {
+    const grade = normalizeGrade(input.grade);
+    const section = normalizeSection(input.section);
+    if (!grade) {
+        throw new Error('Grade must be a number from 1 to 12.');
+    }
+    if (!section) {
+        throw new Error('Section must be up to 3 letters or digits, e.g. "A".');
+    }
+    if (input.homeroom_teacher_id) {
+        const teacher = await db.getUserById(input.homeroom_teacher_id);
+        if (teacher?.role !== 'teacher') {
+            throw new Error('The homeroom teacher must be a teacher account.');
+        }
+    }
+    return { grade, section, academic_year: input.academic_year, homeroom_teacher_id: input.homeroom_teacher_id || undefined };
+}
+
+async function assertClassIsUnique(fields: Pick<SchoolClass, 'grade' | 'section' | 'academic_year'>, exceptId?: string) {
+    const existing = await db.findClass(fields.grade, fields.section, fields.academic_year);
+    if (existing && existing.id !== exceptId) {
+        throw new Error(`Class ${formatClassName(fields)} already exists for ${fields.academic_year}.`);
+    }
+}
+
+
+// Flow for listing every class with its homeroom teacher and size
+const getClassesFlow = defineAuthorizedFlow({
+    name: 'getClassesFlow',
+    inputSchema: z.void(),
+    outputSchema: z.array(ClassOutputSchema),
+    policy: { roles: ['admin', 'teacher'] },
+}, async () => {
+    const [classes, teachers, counts] = await Promise.all([
+        db.getClasses(),
+        db.getUsersByRole('teacher'),
+        db.countStudentsByClass(),
+    ]);
+    return classes.map(schoolClass => toClassOutput(schoolClass, teachers, counts[schoolClass.id] ?? 0));
+});
+
+export async function getClasses(): Promise<ClassOutput[]> {
+    return getClassesFlow();
+}
+
+
+// Flow for the classes a new student can join (public; used by the sign-up form)
+const getClassOptionsFlow = ai.defineFlow({
+    name: 'getClassOptionsFlow',
+    inputSchema: z.void(),
+    outputSchema: z.array(ClassOptionSchema),
+}, async () => {
+    const classes = await db.getClassesByYear(getAcademicYear());
+    return classes.map(schoolClass => ({
+        id: schoolClass.id,
+        grade: schoolClass.grade,
+        section: schoolClass.section,
+        name: formatClassName(schoolClass),
+    }));
+});
+
+export async function getClassOptions(): Promise<ClassOption[]> {
+    return getClassOptionsFlow();
+}
+
+
+// Flow for creating a class (admin only)
+const createClassFlow = defineAuthorizedFlow({
+    name: 'createClassFlow',
+    inputSchema: ClassInputSchema,
+    outputSchema: ClassOutputSchema,
+    policy: { roles: ['admin'] },
+}, async (input, admin) => {
+    const fields = await toClassFields(input);
+    await assertClassIsUnique(fields);
+    const schoolClass = await db.createClass({ ...fields, created_at: new Date() });
+    await recordAuditEvent({ actor: admin, action: 'class.create', target: classTarget(schoolClass), after: schoolClass });
+    return toClassOutput(schoolClass, await db.getUsersByRole('teacher'), 0);
+});
+
+export async function createClass(input: ClassInput): Promise<ClassOutput> {
+    return createClassFlow(input);
+}
+
+
+// Flow for editing a class (admin only). Enrolled students follow the new grade and section.
+const updateClassFlow = defineAuthorizedFlow({
+    name: 'updateClassFlow',
+    inputSchema: ClassInputSchema.extend({ id: z.string() }),
+    outputSchema: ClassOutputSchema,
+    policy: { roles: ['admin'] },
+}, async ({ id, ...input }, admin) => {
+    const before = await db.getClassById(id);
+    if (!before) {
+        throw new Error('Class not found.');
+    }
+    const fields = await toClassFields(input);
+    await assertClassIsUnique(fields, id);
+    const schoolClass = await db.updateClass(id, { ...fields, homeroom_teacher_id: fields.homeroom_teacher_id ?? '' });
+    const students = await db.getStudentsByClass(id);
+    if (students.length > 0 && (before.grade !== schoolClass.grade || before.section !== schoolClass.section)) {
+        await db.enrollStudents(students.map(student => student.id), schoolClass);
+    }
+    await recordAuditEvent({ actor: admin, action: 'class.update', target: classTarget(schoolClass), before, after: schoolClass });
+    return toClassOutput(schoolClass, await db.getUsersByRole('teacher'), students.length);
+});
+
+export async function updateClass(id: string, input: ClassInput): Promise<ClassOutput> {
+    return updateClassFlow({ id, ...input });
+}
+
+
+// Flow for deleting a class (admin only). Only empty classes can be deleted.
+const deleteClassFlow = defineAuthorizedFlow({
+    name: 'deleteClassFlow',
+    inputSchema: z.object({ id: z.string() }),
+    outputSchema: z.boolean(),
+    policy: { roles: ['admin'] },
+}, async ({ id }, admin) => {
+    const schoolClass = await db.getClassById(id);
+    if (!schoolClass) {
+        throw new Error('Class not found.');
+    }
+    if ((await db.getStudentsByClass(id)).length > 0) {
+        throw new Error('Move or unenroll the students in this class before deleting it.');
+    }
+    await db.deleteClass(id);
+    await recordAuditEvent({ actor: admin, action: 'class.delete', target: classTarget(schoolClass), before: schoolClass });
+    return true;
+});
+
+export async function deleteClass(id: string): Promise<boolean> {
+    return deleteClassFlow({ id });
+}
+
+
+// Flow for a class and its enrolled students
+const getClassRosterFlow = defineAuthorizedFlow({
+    name: 'getClassRosterFlow',
+    inputSchema: z.object({ id: z.string() }),
+    outputSchema: z.object({ class: ClassOutputSchema, students: z.array(UserOutputSchema) }).nullable(),
+    policy: { roles: ['admin', 'teacher'] },
+}, async ({ id }) => {
+    const schoolClass = await db.getClassById(id);
+    if (!schoolClass) {
+        return null;
+    }
+    const [students, teachers] = await Promise.all([db.getStudentsByClass(id), db.getUsersByRole('teacher')]);
+    return { class: toClassOutput(schoolClass, teachers, students.length), students: students as UserOutput[] };
+});
+
+export async function getClassRoster(id: string): Promise<{ class: ClassOutput; students: UserOutput[] } | null> {
+    return getClassRosterFlow({ id });
+}
+
+
+// Flow for enrolling students in a class (admin only). Students move out of their previous class.
+const enrollStudentsFlow = defineAuthorizedFlow({
+    name: 'enrollStudentsFlow',
+    inputSchema: z.object({ classId: z.string(), studentIds: z.array(z.string()).min(1) }),
+    outputSchema: z.number(),
+    policy: { roles: ['admin'] },
+}, async ({ classId, studentIds }, admin) => {
+    const schoolClass = await db.getClassById(classId);
+    if (!schoolClass) {
+        throw new Error('Class not found.');
+    }
+    const students = (await db.getUsersByRole('student')).filter(student => studentIds.includes(student.id));
+    await db.enrollStudents(students.map(student => student.id), schoolClass);
+    for (const student of students) {
+        const after = { ...student, ...enrollmentFields(schoolClass) };
+        await recordAuditEvent({ actor: admin, action: 'class.enroll', target: userTarget(student), before: student, after });
+    }
+    return students.length;
+});
+
+export async function enrollStudents(classId: string, studentIds: string[]): Promise<number> {
+    return enrollStudentsFlow({ classId, studentIds });
+}
+
+
+// Flow for removing a student from their class (admin only)
+const unenrollStudentFlow = defineAuthorizedFlow({
+    name: 'unenrollStudentFlow',
+    inputSchema: z.object({ studentId: z.string() }),
+    outputSchema: UserOutputSchema,
+    policy: { roles: ['admin'] },
+}, async ({ studentId }, admin) => {
+    const before = await db.getUserById(studentId);
+    const student = await db.unenrollStudent(studentId);
+    await recordAuditEvent({ actor: admin, action: 'class.unenroll', target: userTarget(student), before, after: student });
+    return student as UserOutput;
+});
+
+export async function unenrollStudent(studentId: string): Promise<UserOutput> {
+    return unenrollStudentFlow({ studentId });
+}
@@ -0,0 +1,118 @@
+'use server';
+/**
+ * @fileOverview Confirming student email addresses, and resending or
+ * overriding the confirmation.
+ */
+import { ai } from '@/ai/genkit';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { defineAuthorizedFlow } from '@/ai/authorization';
+import { hashToken } from '@/lib/tokens';
+import { sendVerificationEmail } from '@/lib/email-verification';
+import { isEmailVerified } from '@/lib/user-status';
+import { recordAuditEvent, userTarget } from '@/lib/audit';
+
+const RESEND_LIMIT = 3; // verification emails per account...
+const RESEND_WINDOW_MS = 60 * 60 * 1000; // ...per hour
+
+
+// Flow for opening the link from the email (public; the token is the credential)
+const verifyEmailFlow = ai.defineFlow({
+    name: 'verifyEmailFlow',
+    inputSchema: z.object({ token: z.string() }),
+    outputSchema: z.boolean(),
+}, async ({ token }) => {
+    const verification = await db.consumeEmailVerification(hashToken(token));
+    if (!verification) {
+        return false;
+    }
+    const user = await db.getUserById(verification.user_id);
+    // The address may have been changed since the link was sent
+    if (!user || user.email !== verification.email) {
+        return false;
+    }
+    await db.setEmailVerified(user.id);
+    await recordAuditEvent({
+        actor: user,
+        action: 'user.email_verify',
+        target: userTarget(user),
+        before: { email_verified: user.email_verified },
+        after: { email_verified: true },
+    });
+    return true;
+});
+
+export async function verifyEmail(token: string): Promise<boolean> {
+    return verifyEmailFlow({ token });
+}
+
+
+// Flow for students to ask for another link
+const resendVerificationEmailFlow = defineAuthorizedFlow({
+    name: 'resendVerificationEmailFlow',
+    inputSchema: z.void(),
+    outputSchema: z.boolean(),
+    policy: { roles: ['student'] },
+}, async (_, user) => {
+    if (isEmailVerified(user)) {
+        throw new Error('Your email address is already verified.');
+    }
+    const recent = await db.countEmailVerificationsSince(user.id, new Date(Date.now() - RESEND_WINDOW_MS));
+    if (recent >= RESEND_LIMIT) {
+        throw new Error('Too many verification emails sent. Please try again later.');
+    }
+    await sendVerificationEmail(user);
+    return true;
+});
+
+export async function resendVerificationEmail(): Promise<boolean> {
+    return resendVerificationEmailFlow();
+}
+
+
+// Admin actions
+const adminResendVerificationEmailFlow = defineAuthorizedFlow({
+    name: 'adminResendVerificationEmailFlow',
+    inputSchema: z.object({ userId: z.string() }),
+    outputSchema: z.boolean(),
+    policy: { roles: ['admin'] },
+}, async ({ userId }) => {
+    const user = await db.getUserById(userId);
+    if (!user) {
+        throw new Error('User not found.');
+    }
+    if (isEmailVerified(user)) {
+        throw new Error('This email address is already verified.');
+    }
+    await sendVerificationEmail(user);
+    return true;
+});
+
+export async function adminResendVerificationEmail(userId: string): Promise<boolean> {
+    return adminResendVerificationEmailFlow({ userId });
+}
+
+const forceVerifyEmailFlow = defineAuthorizedFlow({
+    name: 'forceVerifyEmailFlow',
+    inputSchema: z.object({ userId: z.string() }),
+    outputSchema: z.boolean(),
+    policy: { roles: ['admin'] },
+}, async ({ userId }, admin) => {
+    const user = await db.getUserById(userId);
+    if (!user) {
+        throw new Error('User not found.');
+    }
+    await db.setEmailVerified(userId);
+    await recordAuditEvent({
+        actor: admin,
+        action: 'user.email_verify',
+        target: userTarget(user),
+        before: { email_verified: user.email_verified },
+        after: { email_verified: true },
+    });
+    return true;
+});
+
+export async function forceVerifyEmail(userId: string): Promise<boolean> {
+    return forceVerifyEmailFlow({ userId });
+}
@@ -3,9 +3,10 @@
 /**
  * @fileOverview Flows for evaluating student submissions.
  */
-import { ai } from '@/ai/genkit';
+import { defineAuthorizedFlow, isSubmissionTestOwner } from '@/ai/authorization';
 import { z } from 'zod';
 import { db } from '@/lib/db';
+import { recordAuditEvent } from '@/lib/audit';
 import { QuestionOutput, getQuestionsByTest } from './question-flow';
 import { UserOutput, getUserById } from './user-flow';
 import { TestOutput, getTestById } from './test-flow';
@@ -19,6 +20,8 @@ const AnswerSchema = z.object({
   question_id: z.string(),
   answer_text: z.string().nullable(),
   answer_image_url: z.string().nullable().optional(),
+  answer_options: z.array(z.string()).optional(),
+  credit: z.number().optional(), // For multi-select, the share of full credit earned
 });
 
 const SubmissionEvaluationSchema = z.object({
@@ -42,32 +45,44 @@ const EvaluationDataSchema = z.object({
   test: TestOutputSchema,
   questions: z.array(QuestionOutputSchema),
   questionStats: z.array(QuestionStatsSchema),
+  // Question ids in the order the student saw them, when the test shuffled them
+  shownOrder: z.array(z.string()).nullable(),
 });
 
 export type EvaluationData = z.infer<typeof EvaluationDataSchema>;
 
-const getEvaluationDataFlow = ai.defineFlow({
+const getEvaluationDataFlow = defineAuthorizedFlow({
     name: 'getEvaluationDataFlow',
     inputSchema: z.object({ submissionId: z.string() }),
     outputSchema: EvaluationDataSchema,
+    policy: {
+        roles: ['teacher', 'admin'],
+        allow: ({ submissionId }, user) => user.role === 'admin' || isSubmissionTestOwner(submissionId, user),
+    },
 }, async ({ submissionId }) => {
     const submission = await db.getSubmissionById(submissionId);
     if (!submission) throw new Error('Submission not found.');
 
-    const [student, test, questions, answers, allSubmissions] = await Promise.all([
+    const [student, test, testQuestions, answers, allSubmissions, attempt] = await Promise.all([
         getUserById(submission.student_id),
         getTestById(submission.test_id),
         getQuestionsByTest(submission.test_id),
         db.getAnswersBySubmission(submissionId),
         db.getSubmissionsByTest(submission.test_id),
+        db.getTestAttempt(submission.test_id, submission.student_id),
     ]);
 
     if (!student || !test) throw new Error('Associated student or test not found.');
+
+    // With question pools, each student was given their own draw.
+    const wasGiven = (sub: { question_ids?: string[] }, questionId: string) => !sub.question_ids || sub.question_ids.includes(questionId);
+    const questions = testQuestions.filter(q => wasGiven(submission, q.id));
     
-    // Calculate skip statistics for each question
+    // Calculate skip statistics for each question, among the students who were given it
     const questionStats = await Promise.all(questions.map(async (q) => {
+        const givenSubmissions = allSubmissions.filter(sub => wasGiven(sub, q.id));
         let skipCount = 0;
-        for (const sub of allSubmissions) {
+        for (const sub of givenSubmissions) {
             const subAnswers = await db.getAnswersBySubmission(sub.id);
             const answer = subAnswers.find(a => a.question_id === q.id);
             if (!answer || (answer.answer_text === null && !answer.answer_image_url)) {
@@ -76,7 +91,7 @@ const getEvaluationDataFlow = ai.defineFlow({
         }
         return {
             questionId: q.id,
-            skipPercentage: allSubmissions.length > 0 ? (skipCount / allSubmissions.length) * 100 : 0,
+            skipPercentage: givenSubmissions.length > 0 ? (skipCount / givenSubmissions.length) * 100 : 0,
         };
     }));
 
@@ -90,12 +105,17 @@ const getEvaluationDataFlow = ai.defineFlow({
                 question_id: a.question_id,
                 answer_text: a.answer_text,
                 answer_image_url: a.answer_image_url,
+                answer_options: a.answer_options,
+                credit: a.credit,
             })),
         },
         student,
         test,
         questions,
         questionStats,
+        // Questions are listed in the test's order; answers and MCQ options are
+        // stored by id and text, so a shuffled order doesn't change grading.
+        shownOrder: attempt?.question_order?.filter(id => questions.some(q => q.id === id)) ?? null,
     };
 });
 
@@ -110,15 +130,30 @@ const GradeSubmissionInputSchema = z.object({
     finalScore: z.number().min(0).max(100),
 });
 
-const gradeSubmissionFlow = ai.defineFlow({
+const gradeSubmissionFlow = defineAuthorizedFlow({
     name: 'gradeSubmissionFlow',
     inputSchema: GradeSubmissionInputSchema,
     outputSchema: z.boolean(),
-}, async ({ submissionId, finalScore }) => {
-    await db.updateSubmission(submissionId, {
+    // Only the teacher who set the test grades its submissions.
+    policy: {
+        roles: ['teacher'],
+        allow: ({ submissionId }, user) => isSubmissionTestOwner(submissionId, user),
+        denyImpersonation: true,
+    },
+}, async ({ submissionId, finalScore }, teacher) => {
+    const before = await db.getSubmissionById(submissionId);
+    const after = await db.updateSubmission(submissionId, {
         final_score: finalScore,
         status: 'Graded',
     });
+    const [test, student] = await Promise.all([db.getTestById(after.test_id), db.getUserById(after.student_id)]);
+    await recordAuditEvent({
+        actor: teacher,
+        action: 'submission.grade',
+        target: { type: 'submission', id: submissionId, label: `${student?.username ?? 'Unknown student'} – ${test?.title ?? 'Deleted test'}` },
+        before: before && { final_score: before.final_score, status: before.status },
+        after: { final_score: after.final_score, status: after.status },
+    });
     return true;
 });
 
@@ -0,0 +1,63 @@
+'use server';
+/**
+ * @fileOverview Admins viewing the app as a student or teacher ("view as user").
+ */
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { defineAuthorizedFlow } from '@/ai/authorization';
+import { endImpersonation, getSession, startImpersonation } from '@/lib/session';
+import { recordAuditEvent, userTarget } from '@/lib/audit';
+import { canSignIn } from '@/lib/user-status';
+
+const startImpersonationFlow = defineAuthorizedFlow({
+    name: 'startImpersonationFlow',
+    inputSchema: z.object({ userId: z.string() }),
+    outputSchema: z.enum(['student', 'teacher']),
+    policy: { roles: ['admin'] },
+}, async ({ userId }, admin) => {
+    const target = await db.getUserById(userId);
+    if (!target) {
+        throw new Error('User not found.');
+    }
+    if (target.role === 'admin') {
+        throw new Error('Admin accounts cannot be impersonated.');
+    }
+    // The session would be treated as signed out straight away
+    if (!canSignIn(target)) {
+        throw new Error('This account is banned or locked, so it cannot be viewed.');
+    }
+    await startImpersonation(admin, target);
+    await recordAuditEvent({ actor: admin, action: 'impersonation.start', target: userTarget(target) });
+    return target.role;
+});
+
+// Returns the role whose dashboard the admin should be sent to.
+export async function impersonateUser(userId: string): Promise<'student' | 'teacher'> {
+    return startImpersonationFlow({ userId });
+}
+
+
+// Available to the impersonated user's session, whatever its role, so the admin can always get out.
+const stopImpersonationFlow = defineAuthorizedFlow({
+    name: 'stopImpersonationFlow',
+    inputSchema: z.void(),
+    outputSchema: z.boolean(),
+    policy: { allowWithoutTwoFactor: true },
+}, async (_, user) => {
+    const session = await getSession();
+    if (!session?.impersonator_id) {
+        throw new Error('You are not viewing as another user.');
+    }
+    const admin = await db.getUserById(session.impersonator_id);
+    await recordAuditEvent({
+        actor: admin && { id: admin.id, username: admin.username, role: admin.role },
+        action: 'impersonation.stop',
+        target: userTarget(user),
+    });
+    return endImpersonation();
+});
+
+// Ends impersonation. Returns false when the admin has to sign in again.
+export async function stopImpersonation(): Promise<boolean> {
+    return stopImpersonationFlow();
+}
@@ -0,0 +1,209 @@
+'use server';
+/**
+ * @fileOverview Teacher onboarding through single-use invitation links.
+ */
+import { ai } from '@/ai/genkit';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { Invitation } from '@/lib/types';
+import { defineAuthorizedFlow } from '@/ai/authorization';
+import { createSession } from '@/lib/session';
+import { hashPassword } from '@/lib/password';
+import { generateToken, hashToken } from '@/lib/tokens';
+import { absoluteUrl, sendMail } from '@/lib/mail';
+import { recordAuditEvent } from '@/lib/audit';
+import { InvitationOutputSchema } from '../schemas/invitation-schemas';
+import { PasswordSchema, UserOutputSchema } from '../schemas/user-schemas';
+import { UserOutput } from './user-flow';
+
+export type InvitationOutput = z.infer<typeof InvitationOutputSchema>;
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+function toInvitationOutput(invitation: Invitation): InvitationOutput {
+    return {
+        id: invitation.id,
+        email: invitation.email,
+        username: invitation.username,
+        created_at: invitation.created_at.toISOString(),
+        expires_at: invitation.expires_at.toISOString(),
+        expired: invitation.expires_at.getTime() < Date.now(),
+    };
+}
+
+function invitationTarget(invitation: Invitation) {
+    return { type: 'invitation' as const, id: invitation.id, label: invitation.email };
+}
+
+async function sendInvitationEmail(invitation: Pick<Invitation, 'email' | 'username' | 'expires_at'>, token: string) {
+    const link = absoluteUrl(`/invite/${token}`);
+    await sendMail({
+        to: invitation.email,
+        subject: 'You have been invited to ExamZen',
+        text: [
+            `Hello ${invitation.username},`,
+            '',
+            'An administrator has created a teacher account for you on ExamZen.',
+            `Open the link below to choose your password. It expires on ${invitation.expires_at.toUTCString()}.`,
+            '',
+            link,
+        ].join('\n'),
+    });
+}
+
+
+// Schema for inviting a teacher (admin only)
+const InviteTeacherInputSchema = z.object({
+    username: z.string(),
+    email: z.string().email(),
+});
+export type InviteTeacherInput = z.infer<typeof InviteTeacherInputSchema>;
+
+const inviteTeacherFlow = defineAuthorizedFlow({
+    name: 'inviteTeacherFlow',
+    inputSchema: InviteTeacherInputSchema,
+    outputSchema: InvitationOutputSchema,
+    policy: { roles: ['admin'] },
+}, async (input, admin) => {
+    const existingUser = await db.getUserByEmail(input.email);
+    if (existingUser) {
+        throw new Error('A user with this email already exists.');
+    }
+    const pending = await db.getPendingInvitations();
+    if (pending.some(invitation => invitation.email === input.email)) {
+        throw new Error('This email already has a pending invitation. Resend it instead.');
+    }
+
+    const { token, tokenHash } = generateToken();
+    const now = new Date();
+    const invitation = await db.createInvitation({
+        ...input,
+        role: 'teacher',
+        token_hash: tokenHash,
+        invited_by: admin.id,
+        created_at: now,
+        expires_at: new Date(now.getTime() + INVITATION_TTL_MS),
+    });
+    await sendInvitationEmail(invitation, token);
+    await recordAuditEvent({ actor: admin, action: 'invitation.create', target: invitationTarget(invitation), after: invitation });
+    return toInvitationOutput(invitation);
+});
+
+export async function inviteTeacher(input: InviteTeacherInput): Promise<InvitationOutput> {
+    return inviteTeacherFlow(input);
+}
+
+
+// Flow to list invitations that have been neither accepted nor revoked
+const getPendingInvitationsFlow = defineAuthorizedFlow({
+    name: 'getPendingInvitationsFlow',
+    inputSchema: z.void(),
+    outputSchema: z.array(InvitationOutputSchema),
+    policy: { roles: ['admin'] },
+}, async () => {
+    const invitations = await db.getPendingInvitations();
+    return invitations.map(toInvitationOutput);
+});
+
+export async function getPendingInvitations(): Promise<InvitationOutput[]> {
+    return getPendingInvitationsFlow();
+}
+
+
+// Resending issues a fresh token (only its hash is stored) and restarts the expiry.
+const resendInvitationFlow = defineAuthorizedFlow({
+    name: 'resendInvitationFlow',
+    inputSchema: z.object({ invitationId: z.string() }),
+    outputSchema: InvitationOutputSchema,
+    policy: { roles: ['admin'] },
+}, async ({ invitationId }, admin) => {
+    const invitation = await db.getInvitationById(invitationId);
+    if (!invitation || invitation.accepted_at || invitation.revoked_at) {
+        throw new Error('This invitation is no longer pending.');
+    }
+    const { token, tokenHash } = generateToken();
+    const updated = await db.updateInvitation(invitationId, {
+        token_hash: tokenHash,
+        expires_at: new Date(Date.now() + INVITATION_TTL_MS),
+    });
+    await sendInvitationEmail(updated, token);
+    await recordAuditEvent({ actor: admin, action: 'invitation.resend', target: invitationTarget(updated), before: invitation, after: updated });
+    return toInvitationOutput(updated);
+});
+
+export async function resendInvitation(invitationId: string): Promise<InvitationOutput> {
+    return resendInvitationFlow({ invitationId });
+}
+
+
+const revokeInvitationFlow = defineAuthorizedFlow({
+    name: 'revokeInvitationFlow',
+    inputSchema: z.object({ invitationId: z.string() }),
+    outputSchema: z.boolean(),
+    policy: { roles: ['admin'] },
+}, async ({ invitationId }, admin) => {
+    const before = await db.getInvitationById(invitationId);
+    const revoked = await db.updateInvitation(invitationId, { revoked_at: new Date() });
+    await recordAuditEvent({ actor: admin, action: 'invitation.revoke', target: invitationTarget(revoked), before, after: revoked });
+    return true;
+});
+
+export async function revokeInvitation(invitationId: string): Promise<boolean> {
+    return revokeInvitationFlow({ invitationId });
+}
+
+
+// Flow for looking up an invitation from its link (public)
+const getInvitationFlow = ai.defineFlow({
+    name: 'getInvitationFlow',
+    inputSchema: z.object({ token: z.string() }),
+    outputSchema: z.object({ email: z.string(), username: z.string() }).nullable(),
+}, async ({ token }) => {
+    const invitation = await db.getOpenInvitationByTokenHash(hashToken(token));
+    return invitation ? { email: invitation.email, username: invitation.username } : null;
+});
+
+export async function getInvitation(token: string): Promise<{ email: string; username: string } | null> {
+    return getInvitationFlow({ token });
+}
+
+
+// Schema for accepting an invitation
+const AcceptInvitationInputSchema = z.object({
+    token: z.string(),
+    username: z.string().min(2),
+    password: PasswordSchema,
+    profile_pic_url: z.string().url().optional(),
+});
+export type AcceptInvitationInput = z.infer<typeof AcceptInvitationInputSchema>;
+
+// Flow for accepting an invitation (public; the token is the credential)
+const acceptInvitationFlow = ai.defineFlow({
+    name: 'acceptInvitationFlow',
+    inputSchema: AcceptInvitationInputSchema,
+    outputSchema: UserOutputSchema,
+}, async ({ token, password, ...profile }) => {
+    const invitation = await db.acceptInvitation(hashToken(token));
+    if (!invitation) {
+        throw new Error('This invitation link is invalid or has expired.');
+    }
+    if (await db.getUserByEmail(invitation.email)) {
+        throw new Error('An account with this email already exists.');
+    }
+    const teacher = await db.createUser({
+        ...profile,
+        email: invitation.email,
+        role: 'teacher',
+        status: 'active',
+        password: await hashPassword(password),
+    });
+    await recordAuditEvent({ actor: teacher, action: 'invitation.accept', target: invitationTarget(invitation), after: teacher });
+    return teacher as UserOutput;
+});
+
+// Accepting signs the new teacher in straight away.
+export async function acceptInvitation(input: AcceptInvitationInput): Promise<UserOutput> {
+    const teacher = await acceptInvitationFlow(input);
+    await createSession(teacher);
+    return teacher;
+}
@@ -0,0 +1,127 @@
+'use server';
+/**
+ * @fileOverview Single sign-on through the school's OpenID Connect provider:
+ * linking to existing accounts by email and creating accounts on first sign-in.
+ */
+import { ai } from '@/ai/genkit';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { createSession } from '@/lib/session';
+import { hashToken } from '@/lib/tokens';
+import { startTwoFactorChallenge } from '@/lib/two-factor';
+import { getEffectiveStatus, getSignInBlockedMessage } from '@/lib/user-status';
+import { recordAuditEvent, userTarget } from '@/lib/audit';
+import { enrollmentFields, findCurrentClass } from '@/lib/class-enrollment';
+import {
+    OidcProfile,
+    clearOidcStateCookie,
+    completeOidcAuthorization,
+    getOidcProviderName,
+    getOidcStateCookie,
+    isOidcEnabled,
+    startOidcLogin,
+} from '@/lib/oidc';
+import type { User } from '@/lib/types';
+import { UserOutputSchema } from '../schemas/user-schemas';
+import { LoginResult, UserOutput } from './user-flow';
+
+// Returns the provider shown on the login page, or null when SSO isn't configured.
+export async function getSingleSignOnProvider(): Promise<{ name: string } | null> {
+    return isOidcEnabled() ? { name: getOidcProviderName() } : null;
+}
+
+// Returns the identity provider URL the browser should be sent to.
+export async function beginSingleSignOn(): Promise<string> {
+    if (!isOidcEnabled()) {
+        throw new Error('Single sign-on is not configured.');
+    }
+    return startOidcLogin();
+}
+
+// Finds the account for the provider identity, linking or creating it as needed.
+async function findOrProvisionUser(profile: OidcProfile): Promise<User> {
+    const linked = await db.getUserByOidcSubject(profile.issuer, profile.subject);
+    if (linked) {
+        return linked;
+    }
+
+    const existing = await db.getUserByEmail(profile.email);
+    if (existing) {
+        // Linking by email is only safe when the provider vouches for the address.
+        if (!profile.email_verified) {
+            throw new Error('Your identity provider has not verified your email address.');
+        }
+        if (existing.oidc_subject) {
+            throw new Error('This account is already linked to a different single sign-on identity.');
+        }
+        const linkedUser = await db.updateUser(existing.id, {
+            oidc_issuer: profile.issuer,
+            oidc_subject: profile.subject,
+            ...(existing.email_verified === false && { email_verified: true }),
+        });
+        await recordAuditEvent({ actor: linkedUser, action: 'user.sso_link', target: userTarget(linkedUser), before: existing, after: linkedUser });
+        return linkedUser;
+    }
+
+    if (!profile.role) {
+        throw new Error('Your account has not been given access to ExamZen. Please contact your administrator.');
+    }
+    const newUser = await db.createUser({
+        username: profile.username,
+        email: profile.email,
+        role: profile.role,
+        status: 'active',
+        oidc_issuer: profile.issuer,
+        oidc_subject: profile.subject,
+    });
+    await recordAuditEvent({ actor: newUser, action: 'user.sso_provision', target: userTarget(newUser), after: newUser });
+    return newUser;
+}
+
+
+// Callback step of SSO (public; the state, bound to the browser's cookie, is the credential)
+const singleSignOnFlow = ai.defineFlow({
+    name: 'singleSignOnFlow',
+    inputSchema: z.object({ state: z.string(), code: z.string() }),
+    outputSchema: UserOutputSchema,
+}, async ({ state, code }) => {
+    const profile = await completeOidcAuthorization(hashToken(state), code);
+    let user = await findOrProvisionUser(profile);
+
+    const blockedMessage = getSignInBlockedMessage(user);
+    if (blockedMessage) {
+        throw new Error(blockedMessage);
+    }
+    if (user.status === 'locked' && getEffectiveStatus(user) !== 'locked') {
+        // The lock has expired
+        await db.unlockUser(user.id);
+    }
+    // The provider is the source of truth for a student's class, as long as it
+    // names one of this year's classes. Roles of existing accounts are never changed from here.
+    const schoolClass = user.role === 'student' ? await findCurrentClass(profile.class, profile.section) : null;
+    if (schoolClass && schoolClass.id !== user.class_id) {
+        const before = user;
+        user = await db.updateUser(user.id, enrollmentFields(schoolClass));
+        await recordAuditEvent({ actor: null, action: 'class.enroll', target: userTarget(user), before, after: user });
+    }
+    return user as UserOutput;
+});
+
+/**
+ * Completes SSO from the callback route. Accounts with 2FA enabled still get a
+ * pending challenge, finished on the login page like a password sign-in.
+ */
+export async function completeSingleSignOn(input: { state: string; code: string }): Promise<LoginResult> {
+    const expectedState = await getOidcStateCookie();
+    await clearOidcStateCookie();
+    if (!expectedState || expectedState !== input.state) {
+        throw new Error('Your sign-in attempt has expired. Please try again.');
+    }
+    const user = await singleSignOnFlow(input);
+    if (user.totp_enabled) {
+        await startTwoFactorChallenge(user.id);
+        return { status: 'two_factor_required' };
+    }
+    await createSession(user);
+    return { status: 'signed_in', user };
+}
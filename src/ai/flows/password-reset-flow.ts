@@ -0,0 +1,114 @@
+'use server';
+/**
+ * @fileOverview Self-service password reset through emailed, single-use links.
+ */
+import { ai } from '@/ai/genkit';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { hashPassword } from '@/lib/password';
+import { generateToken, hashToken } from '@/lib/tokens';
+import { absoluteUrl, sendMail } from '@/lib/mail';
+import { recordAuditEvent, userTarget } from '@/lib/audit';
+import { PasswordSchema } from '../schemas/user-schemas';
+
+const RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+const RESET_REQUEST_LIMIT = 3; // requests per email...
+const RESET_REQUEST_WINDOW_MS = 60 * 60 * 1000; // ...per hour
+
+
+// Flow for requesting a reset link (public). The response is the same whether
+// or not the email belongs to an account, so it cannot be used to find users.
+const requestPasswordResetFlow = ai.defineFlow({
+    name: 'requestPasswordResetFlow',
+    inputSchema: z.object({ email: z.string().email() }),
+    outputSchema: z.boolean(),
+}, async ({ email }) => {
+    const now = new Date();
+    const recentRequests = await db.countPasswordResetsSince(
+        email,
+        new Date(now.getTime() - RESET_REQUEST_WINDOW_MS)
+    );
+    if (recentRequests >= RESET_REQUEST_LIMIT) {
+        throw new Error('Too many reset requests for this email. Please try again later.');
+    }
+
+    const user = await db.getUserByEmail(email);
+    const expiresAt = new Date(now.getTime() + RESET_TTL_MS);
+    if (!user) {
+        await db.createPasswordReset({ email, created_at: now, expires_at: expiresAt });
+        return true;
+    }
+
+    const { token, tokenHash } = generateToken();
+    await db.createPasswordReset({
+        email,
+        user_id: user.id,
+        token_hash: tokenHash,
+        created_at: now,
+        expires_at: expiresAt,
+    });
+    await sendMail({
+        to: user.email,
+        subject: 'Reset your ExamZen password',
+        text: [
+            `Hello ${user.username},`,
+            '',
+            'We received a request to reset the password for your ExamZen account.',
+            'Open the link below to choose a new one. It expires in one hour and can only be used once.',
+            '',
+            absoluteUrl(`/reset-password/${token}`),
+            '',
+            'If you did not ask for this, you can ignore this email.',
+        ].join('\n'),
+    });
+    return true;
+});
+
+export async function requestPasswordReset(email: string): Promise<boolean> {
+    return requestPasswordResetFlow({ email });
+}
+
+
+// Flow for checking a reset link before showing the form (public)
+const getPasswordResetFlow = ai.defineFlow({
+    name: 'getPasswordResetFlow',
+    inputSchema: z.object({ token: z.string() }),
+    outputSchema: z.object({ email: z.string() }).nullable(),
+}, async ({ token }) => {
+    const reset = await db.getOpenPasswordResetByTokenHash(hashToken(token));
+    return reset ? { email: reset.email } : null;
+});
+
+export async function getPasswordReset(token: string): Promise<{ email: string } | null> {
+    return getPasswordResetFlow({ token });
+}
+
+
+// Schema for completing a reset
+const ResetPasswordInputSchema = z.object({
+    token: z.string(),
+    newPassword: PasswordSchema,
+});
+export type ResetPasswordInput = z.infer<typeof ResetPasswordInputSchema>;
+
+// Flow for choosing a new password (public; the token is the credential).
+// Existing sessions are ended in case the old password was compromised.
+const resetPasswordFlow = ai.defineFlow({
+    name: 'resetPasswordFlow',
+    inputSchema: ResetPasswordInputSchema,
+    outputSchema: z.boolean(),
+}, async ({ token, newPassword }) => {
+    const reset = await db.consumePasswordReset(hashToken(token));
+    if (!reset || !reset.user_id) {
+        throw new Error('This reset link is invalid or has expired.');
+    }
+    const user = await db.updateUser(reset.user_id, { password: await hashPassword(newPassword) });
+    await db.invalidatePasswordResets(reset.user_id);
+    await db.deleteSessionsByUser(reset.user_id);
+    await recordAuditEvent({ actor: user, action: 'user.password_reset', target: userTarget(user) });
+    return true;
+});
+
+export async function resetPassword(input: ResetPasswordInput): Promise<boolean> {
+    return resetPasswordFlow(input);
+}
@@ -3,8 +3,9 @@
 /**
  * @fileOverview A flow for getting user info to display on the profile page.
  */
-import { ai } from '@/ai/genkit';
+import { defineAuthorizedFlow } from '@/ai/authorization';
 import { z } from 'zod';
+import { requireUser } from '@/lib/session';
 import { getUserById } from './user-flow';
 
 const ProfileInputSchema = z.object({
@@ -25,11 +26,12 @@ export type ProfileOutput = z.infer<typeof ProfileOutputSchema>;
 
 // This flow just wraps getUserById for now, but could be expanded later
 // with more profile-specific logic.
-const getProfileFlow = ai.defineFlow(
+const getProfileFlow = defineAuthorizedFlow(
   {
     name: 'getProfileFlow',
     inputSchema: ProfileInputSchema,
     outputSchema: z.union([ProfileOutputSchema, z.null()]),
+    policy: { allow: ({ userId }, user) => userId === user.id || user.role === 'admin' },
   },
   async ({ userId }) => {
     const user = await getUserById(userId);
@@ -40,6 +42,8 @@ const getProfileFlow = ai.defineFlow(
   }
 );
 
-export async function getProfile(userId: string): Promise<ProfileOutput | null> {
-  return getProfileFlow({ userId });
+// Returns the profile of the signed-in user.
+export async function getProfile(): Promise<ProfileOutput | null> {
+  const user = await requireUser();
+  return getProfileFlow({ userId: user.id });
 }
@@ -0,0 +1,211 @@
+'use server';
+/**
+ * @fileOverview The question bank: reusable questions a teacher keeps, or
+ * shares with the school, and copies into tests.
+ */
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { canUseBankQuestion, defineAuthorizedFlow, isQuestionTestOwner } from '@/ai/authorization';
+import { recordAuditEvent } from '@/lib/audit';
+import { ForbiddenError } from '@/lib/errors';
+import { clearUnusedAnswerFields, isAutoGraded } from '@/lib/mcq-scoring';
+import type { BankQuestion, User } from '@/lib/types';
+import { BankQuestionFilterSchema, BankQuestionInputSchema, BankQuestionOutputSchema } from '../schemas/question-bank-schemas';
+
+export type BankQuestionOutput = z.infer<typeof BankQuestionOutputSchema>;
+export type BankQuestionFilter = z.infer<typeof BankQuestionFilterSchema>;
+export type BankQuestionInput = z.infer<typeof BankQuestionInputSchema>;
+
+function bankQuestionTarget(question: Pick<BankQuestion, 'id' | 'question_text'>) {
+    return { type: 'bank_question' as const, id: question.id, label: question.question_text.slice(0, 80) };
+}
+
+// Tags are matched case-insensitively, so they are stored lowercase and once each.
+function normalizeTags(tags: string[]): string[] {
+    return [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+// Fields that don't apply to the question's type are cleared.
+function toBankQuestionFields(input: BankQuestionInput) {
+    return clearUnusedAnswerFields({ ...input, tags: normalizeTags(input.tags) });
+}
+
+// Adds the owner's name and how each question did in the tests that used it.
+async function toBankQuestionOutputs(questions: BankQuestion[], teacher: User): Promise<BankQuestionOutput[]> {
+    const uses = await db.getQuestionsByBankQuestions(questions.map(question => question.id));
+    const [answerStats, teachers] = await Promise.all([
+        db.getAnswerStatsByQuestion(uses.map(use => use.id)),
+        db.getUsersByRole('teacher'),
+    ]);
+    const teacherNames = new Map(teachers.map(user => [user.id, user.username]));
+
+    return questions.map(({ created_at, ...question }) => {
+        const questionUses = uses.filter(use => use.bank_question_id === question.id);
+        const answered = questionUses.reduce((sum, use) => sum + (answerStats[use.id]?.answered ?? 0), 0);
+        const correct = questionUses.reduce((sum, use) => sum + (answerStats[use.id]?.correct ?? 0), 0);
+        return {
+            ...question,
+            owner_name: teacherNames.get(question.owner_id) ?? 'Former teacher',
+            editable: question.owner_id === teacher.id,
+            created_at: created_at.toISOString(),
+            usage: {
+                test_count: new Set(questionUses.map(use => use.test_id)).size,
+                answer_count: answered,
+                correct_rate: isAutoGraded(question) && answered > 0 ? Math.round((correct / answered) * 100) : null,
+            },
+        };
+    });
+}
+
+// Shared questions are seen by every teacher, so muted users can only keep them private.
+function assertCanShare(shared: boolean, teacher: User): void {
+    if (shared && teacher.status === 'muted') {
+        throw new ForbiddenError('Your account is muted, so you cannot share questions.');
+    }
+}
+
+async function getOwnBankQuestion(questionId: string, teacher: User): Promise<BankQuestion> {
+    const question = await db.getBankQuestionById(questionId);
+    if (!question) {
+        throw new Error('Question not found.');
+    }
+    if (question.owner_id !== teacher.id) {
+        throw new Error('Only the teacher who added this question can change it.');
+    }
+    return question;
+}
+
+
+const searchQuestionBankFlow = defineAuthorizedFlow({
+    name: 'searchQuestionBankFlow',
+    inputSchema: BankQuestionFilterSchema,
+    outputSchema: z.array(BankQuestionOutputSchema),
+    policy: { roles: ['teacher'] },
+}, async (filter, teacher) => {
+    const questions = await db.searchBankQuestions(teacher.id, filter);
+    return toBankQuestionOutputs(questions, teacher);
+});
+
+// The signed-in teacher's bank questions and those shared by others.
+export async function searchQuestionBank(filter: BankQuestionFilter = {}): Promise<BankQuestionOutput[]> {
+    return searchQuestionBankFlow(filter);
+}
+
+
+const createBankQuestionFlow = defineAuthorizedFlow({
+    name: 'createBankQuestionFlow',
+    inputSchema: BankQuestionInputSchema,
+    outputSchema: BankQuestionOutputSchema,
+    policy: { roles: ['teacher'] },
+}, async (input, teacher) => {
+    assertCanShare(input.shared, teacher);
+    const question = await db.createBankQuestion({
+        ...toBankQuestionFields(input),
+        owner_id: teacher.id,
+        created_at: new Date(),
+    });
+    await recordAuditEvent({ actor: teacher, action: 'bank_question.create', target: bankQuestionTarget(question), after: question });
+    const [output] = await toBankQuestionOutputs([question], teacher);
+    return output;
+});
+
+export async function createBankQuestion(input: BankQuestionInput): Promise<BankQuestionOutput> {
+    return createBankQuestionFlow(input);
+}
+
+
+// Tests that already use the question keep their own copy.
+const updateBankQuestionFlow = defineAuthorizedFlow({
+    name: 'updateBankQuestionFlow',
+    inputSchema: z.object({ questionId: z.string(), question: BankQuestionInputSchema }),
+    outputSchema: BankQuestionOutputSchema,
+    policy: { roles: ['teacher'] },
+}, async ({ questionId, question }, teacher) => {
+    const before = await getOwnBankQuestion(questionId, teacher);
+    assertCanShare(question.shared, teacher);
+    const after = await db.updateBankQuestion(questionId, toBankQuestionFields(question));
+    await recordAuditEvent({ actor: teacher, action: 'bank_question.update', target: bankQuestionTarget(after), before, after });
+    const [output] = await toBankQuestionOutputs([after], teacher);
+    return output;
+});
+
+export async function updateBankQuestion(questionId: string, question: BankQuestionInput): Promise<BankQuestionOutput> {
+    return updateBankQuestionFlow({ questionId, question });
+}
+
+
+const deleteBankQuestionFlow = defineAuthorizedFlow({
+    name: 'deleteBankQuestionFlow',
+    inputSchema: z.object({ questionId: z.string() }),
+    outputSchema: z.boolean(),
+    policy: { roles: ['teacher'], denyImpersonation: true },
+}, async ({ questionId }, teacher) => {
+    const question = await getOwnBankQuestion(questionId, teacher);
+    await db.deleteBankQuestion(questionId);
+    await recordAuditEvent({ actor: teacher, action: 'bank_question.delete', target: bankQuestionTarget(question), before: question });
+    return true;
+});
+
+export async function deleteBankQuestion(questionId: string): Promise<boolean> {
+    return deleteBankQuestionFlow({ questionId });
+}
+
+
+const SaveToBankInputSchema = z.object({
+    questionIds: z.array(z.string()).min(1, "Choose at least one question."),
+    tags: z.array(z.string()).max(10, "Use at most 10 tags."),
+    difficulty: z.enum(['easy', 'medium', 'hard']),
+    shared: z.boolean(),
+});
+
+// Flow for copying questions of the teacher's tests into the bank. Questions
+// that were added from the bank are already there and are skipped.
+const saveQuestionsToBankFlow = defineAuthorizedFlow({
+    name: 'saveQuestionsToBankFlow',
+    inputSchema: SaveToBankInputSchema,
+    outputSchema: z.object({ saved: z.number(), skipped: z.number() }),
+    policy: {
+        roles: ['teacher'],
+        allow: async ({ questionIds }, user) =>
+            (await Promise.all(questionIds.map(id => isQuestionTestOwner(id, user)))).every(Boolean),
+    },
+}, async ({ questionIds, tags, difficulty, shared }, teacher) => {
+    assertCanShare(shared, teacher);
+    let saved = 0;
+    let skipped = 0;
+    for (const questionId of questionIds) {
+        const question = await db.getQuestionById(questionId);
+        const test = question && await db.getTestById(question.test_id);
+        if (!question || !test) continue;
+
+        const source = question.bank_question_id ? await db.getBankQuestionById(question.bank_question_id) : null;
+        if (source && canUseBankQuestion(source, teacher)) {
+            skipped++;
+            continue;
+        }
+        const bankQuestion = await db.createBankQuestion({
+            owner_id: teacher.id,
+            shared,
+            subject: test.subject,
+            tags: normalizeTags(tags),
+            difficulty,
+            question_text: question.question_text,
+            type: question.type,
+            marks: question.marks,
+            ...(question.answer_format && { answer_format: question.answer_format }),
+            ...(question.options && { options: question.options }),
+            ...(question.correct_answer && { correct_answer: question.correct_answer }),
+            ...(question.correct_answers && { correct_answers: question.correct_answers }),
+            ...(question.scoring && { scoring: question.scoring }),
+            ...(question.image_url && { image_url: question.image_url }),
+            created_at: new Date(),
+        });
+        await recordAuditEvent({ actor: teacher, action: 'bank_question.create', target: bankQuestionTarget(bankQuestion), after: bankQuestion });
+        saved++;
+    }
+    return { saved, skipped };
+});
+
+export async function saveQuestionsToBank(input: z.infer<typeof SaveToBankInputSchema>): Promise<{ saved: number; skipped: number }> {
+    return saveQuestionsToBankFlow(input);
+}
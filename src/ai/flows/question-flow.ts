@@ -1,67 +1,75 @@
 
 'use server';
 /**
- * @fileOverview Question management flows for creating and retrieving test questions.
+ * @fileOverview Question management flows for creating, editing, ordering and retrieving test questions.
  */
-import { ai } from '@/ai/genkit';
+import { canAccessTest, canUseBankQuestion, defineAuthorizedFlow, isQuestionTestOwner, isTestOwner } from '@/ai/authorization';
 import { z } from 'zod';
 import { db } from '@/lib/db';
-import { Question } from '@/lib/types';
-import { QuestionOutputSchema } from '../schemas/question-schemas';
+import { getSession } from '@/lib/session';
+import { Question, Test } from '@/lib/types';
+import { recordAuditEvent, testTarget } from '@/lib/audit';
+import { getTestWindowStatus } from '@/lib/test-window';
+import { assertQuestionsEditable, assertQuestionUpdateAllowed, getTestStatus } from '@/lib/test-lifecycle';
+import { clearUnusedAnswerFields, rescoreMcqQuestion } from '@/lib/mcq-scoring';
+import { getAttemptQuestions } from '@/lib/question-pools';
+import { arrangeForAttempt } from '@/lib/question-order';
+import { checkQuestionFields, QuestionFieldsSchema, QuestionOutputSchema, StudentQuestionOutputSchema, UpdateQuestionResultSchema } from '../schemas/question-schemas';
 
 export type QuestionOutput = z.infer<typeof QuestionOutputSchema>;
+export type StudentQuestionOutput = z.infer<typeof StudentQuestionOutputSchema>;
+export type UpdateQuestionResult = z.infer<typeof UpdateQuestionResultSchema>;
 
 
 // Input schema for creating a question
-const CreateQuestionInputSchema = z.object({
+const CreateQuestionInputSchema = QuestionFieldsSchema.extend({
   test_id: z.string(),
-  question_text: z.string(),
-  marks: z.coerce.number().int().positive("Marks must be a positive number."),
-  type: z.enum(['mcq', 'subjective']),
-  answer_format: z.enum(['text', 'image']).optional(),
-  options: z.array(z.string()).optional(),
-  correct_answer: z.string().optional(),
-  image_url: z.string().optional(),
-})
-.refine(data => {
-    if (data.type === 'mcq') {
-        return data.options && data.options.length >= 2 && data.correct_answer;
-    }
-    return true;
-}, {
-    message: "MCQs require options and a correct answer.",
-    path: ['type'],
-})
-.refine(data => {
-    if (data.type === 'subjective') {
-        return data.question_text || data.image_url;
-    }
-    return true;
-}, {
-    message: "Subjective questions require either text or an image.",
-    path: ['type'],
-})
-.refine(data => {
-    if (data.type === 'subjective') {
-        return !!data.answer_format;
-    }
-    return true;
-}, {
-    message: "Subjective questions require an answer format.",
-    path: ['answer_format'],
-});
+  bank_question_id: z.string().optional(),
+  pool_id: z.string().optional(),
+}).superRefine(checkQuestionFields);
 
 export type CreateQuestionInput = z.infer<typeof CreateQuestionInputSchema>;
 
+function questionTarget(question: Pick<Question, 'id' | 'question_text'>) {
+    return { type: 'question' as const, id: question.id, label: question.question_text.slice(0, 80) };
+}
+
+function assertPoolExists(test: Test, poolId: string | undefined) {
+    if (poolId && !test.question_pools?.some(pool => pool.id === poolId)) {
+        throw new Error('That question pool no longer exists. Save the test details first.');
+    }
+}
+
 
 // Flow for creating a question
-const createQuestionFlow = ai.defineFlow({
+const createQuestionFlow = defineAuthorizedFlow({
     name: 'createQuestionFlow',
     inputSchema: CreateQuestionInputSchema,
     outputSchema: QuestionOutputSchema,
-}, async (input) => {
+    policy: { roles: ['teacher'], allow: ({ test_id }, user) => isTestOwner(test_id, user), denyImpersonation: true },
+}, async (input, teacher) => {
+    const test = await db.getTestById(input.test_id);
+    if (!test) {
+        throw new Error('Test not found.');
+    }
+    await assertQuestionsEditable(test);
+    assertPoolExists(test, input.pool_id);
+    if (input.bank_question_id) {
+        const bankQuestion = await db.getBankQuestionById(input.bank_question_id);
+        if (!bankQuestion || !canUseBankQuestion(bankQuestion, teacher)) {
+            throw new Error('That question is no longer in the question bank.');
+        }
+    }
+    // New questions go to the end of the test.
+    const position = (await db.getQuestionsByTest(input.test_id)).length;
     // The schema validation on input already ensures data integrity
-    const newQuestion = await db.createQuestion(input as Omit<Question, 'id'>);
+    const newQuestion = await db.createQuestion({ ...input, position } as Omit<Question, 'id'>);
+    await recordAuditEvent({
+        actor: teacher,
+        action: 'question.create',
+        target: questionTarget(newQuestion),
+        after: newQuestion,
+    });
     return newQuestion as QuestionOutput;
 });
 
@@ -70,11 +78,12 @@ export async function createQuestion(input: CreateQuestionInput): Promise<Questi
 }
 
 
-// Flow for getting questions for a specific test
-const getQuestionsByTestFlow = ai.defineFlow({
+// Flow for getting questions for a specific test, with their answer keys (staff only)
+const getQuestionsByTestFlow = defineAuthorizedFlow({
     name: 'getQuestionsByTestFlow',
     inputSchema: z.object({ testId: z.string() }),
     outputSchema: z.array(QuestionOutputSchema),
+    policy: { roles: ['teacher', 'admin'] },
 }, async ({ testId }) => {
     const questions = await db.getQuestionsByTest(testId);
     return questions as QuestionOutput[];
@@ -83,3 +92,153 @@ const getQuestionsByTestFlow = ai.defineFlow({
 export async function getQuestionsByTest(testId: string): Promise<QuestionOutput[]> {
     return getQuestionsByTestFlow({ testId });
 }
+
+function toStudentQuestion({ correct_answer, correct_answers, scoring, ...question }: Question): StudentQuestionOutput {
+    return question as StudentQuestionOutput;
+}
+
+// Flow for a student's exam questions. Loading them is how a student starts an exam.
+const getExamQuestionsFlow = defineAuthorizedFlow({
+    name: 'getExamQuestionsFlow',
+    inputSchema: z.object({ testId: z.string() }),
+    outputSchema: z.array(StudentQuestionOutputSchema),
+    policy: { roles: ['student'], requireVerifiedEmail: true, allow: ({ testId }, user) => canAccessTest(testId, user) },
+}, async ({ testId }, student) => {
+    const test = await db.getTestById(testId);
+    if (!test) {
+        throw new Error('Test not found.');
+    }
+    const status = getTestWindowStatus(test);
+    if (status === 'upcoming') {
+        throw new Error('This test has not opened yet.');
+    }
+    if (status === 'closed') {
+        throw new Error('This test has closed.');
+    }
+    if (await db.getSubmissionByTestAndStudent(testId, student.id)) {
+        throw new Error('You have already submitted this test.');
+    }
+    // An admin viewing as the student must not start the student's attempt, which
+    // would fix their draw, order and submission window. They see the student's
+    // draw and order if the student has started, otherwise every question.
+    if ((await getSession())?.impersonator_id) {
+        const attempt = await db.getTestAttempt(testId, student.id);
+        const questions = await db.getQuestionsByTest(testId);
+        const given = attempt?.question_ids ? questions.filter(q => attempt.question_ids!.includes(q.id)) : questions;
+        const shown = attempt?.question_order ? await arrangeForAttempt(test, attempt, given) : given;
+        return shown.map(toStudentQuestion);
+    }
+    // Students only get the questions drawn for them from the test's pools,
+    // in their own order if the test shuffles.
+    const attempt = await db.startTestAttempt(testId, student.id);
+    const questions = await getAttemptQuestions(test, attempt);
+    return (await arrangeForAttempt(test, attempt, questions)).map(toStudentQuestion);
+});
+
+// The signed-in student's questions, without answer keys.
+export async function getExamQuestions(testId: string): Promise<StudentQuestionOutput[]> {
+    return getExamQuestionsFlow({ testId });
+}
+
+
+const UpdateQuestionInputSchema = QuestionFieldsSchema.extend({
+  questionId: z.string(),
+  pool_id: z.string().optional(),
+}).superRefine(checkQuestionFields);
+export type UpdateQuestionInput = z.infer<typeof UpdateQuestionInputSchema>;
+
+// Flow for editing a question. Once students have submitted, only corrections
+// are allowed, and a new correct answer re-scores their MCQ answers.
+const updateQuestionFlow = defineAuthorizedFlow({
+    name: 'updateQuestionFlow',
+    inputSchema: UpdateQuestionInputSchema,
+    outputSchema: UpdateQuestionResultSchema,
+    policy: { roles: ['teacher'], allow: ({ questionId }, user) => isQuestionTestOwner(questionId, user), denyImpersonation: true },
+}, async ({ questionId, ...fields }, teacher) => {
+    const before = await db.getQuestionById(questionId);
+    const test = before && await db.getTestById(before.test_id);
+    if (!before || !test) {
+        throw new Error('Question not found.');
+    }
+    assertPoolExists(test, fields.pool_id);
+    // Fields that don't apply to the question's type are cleared, and so are a
+    // pool, difficulty and tags left out.
+    const optional = { pool_id: undefined, difficulty: undefined, tags: undefined, ...fields };
+    const changes: Partial<Question> = clearUnusedAnswerFields(optional);
+    await assertQuestionUpdateAllowed(test, before, changes);
+
+    const after = await db.updateQuestion(questionId, changes);
+    await recordAuditEvent({ actor: teacher, action: 'question.update', target: questionTarget(after), before, after });
+
+    const answerKeyChanged = after.type === 'mcq'
+        ? after.correct_answer !== before.correct_answer
+        : after.type === 'multi_select' && (JSON.stringify(after.correct_answers) !== JSON.stringify(before.correct_answers) || after.scoring !== before.scoring);
+    const rescored = answerKeyChanged ? await rescoreMcqQuestion(after, teacher) : 0;
+    return { question: after as QuestionOutput, rescored_submissions: rescored };
+});
+
+export async function updateQuestion(input: UpdateQuestionInput): Promise<UpdateQuestionResult> {
+    return updateQuestionFlow(input);
+}
+
+
+// Flow for removing a question from a test that nobody has submitted yet
+const deleteQuestionFlow = defineAuthorizedFlow({
+    name: 'deleteQuestionFlow',
+    inputSchema: z.object({ questionId: z.string() }),
+    outputSchema: z.boolean(),
+    policy: { roles: ['teacher'], allow: ({ questionId }, user) => isQuestionTestOwner(questionId, user), denyImpersonation: true },
+}, async ({ questionId }, teacher) => {
+    const question = await db.getQuestionById(questionId);
+    const test = question && await db.getTestById(question.test_id);
+    if (!question || !test) {
+        throw new Error('Question not found.');
+    }
+    await assertQuestionsEditable(test);
+    if ((await db.getQuestionsByTest(test.id)).length <= 1) {
+        throw new Error('A test needs at least one question.');
+    }
+    await db.deleteQuestion(questionId);
+    await recordAuditEvent({ actor: teacher, action: 'question.delete', target: questionTarget(question), before: question });
+    return true;
+});
+
+export async function deleteQuestion(questionId: string): Promise<boolean> {
+    return deleteQuestionFlow({ questionId });
+}
+
+
+// Flow for changing the order of a test's questions. The order doesn't affect
+// grading, so it can change after students have submitted.
+const reorderQuestionsFlow = defineAuthorizedFlow({
+    name: 'reorderQuestionsFlow',
+    inputSchema: z.object({ testId: z.string(), questionIds: z.array(z.string()) }),
+    outputSchema: z.array(QuestionOutputSchema),
+    policy: { roles: ['teacher'], allow: ({ testId }, user) => isTestOwner(testId, user), denyImpersonation: true },
+}, async ({ testId, questionIds }, teacher) => {
+    const test = await db.getTestById(testId);
+    if (!test) {
+        throw new Error('Test not found.');
+    }
+    if (getTestStatus(test) === 'archived') {
+        throw new Error('Archived tests cannot be changed.');
+    }
+    const questions = await db.getQuestionsByTest(testId);
+    const currentIds = questions.map(question => question.id);
+    if (questionIds.length !== currentIds.length || !currentIds.every(id => questionIds.includes(id))) {
+        throw new Error('The new order must list every question of the test exactly once.');
+    }
+    await db.setQuestionOrder(questionIds);
+    await recordAuditEvent({
+        actor: teacher,
+        action: 'test.update',
+        target: testTarget(test),
+        before: { question_order: currentIds },
+        after: { question_order: questionIds },
+    });
+    return (await db.getQuestionsByTest(testId)) as QuestionOutput[];
+});
+
+export async function reorderQuestions(testId: string, questionIds: string[]): Promise<QuestionOutput[]> {
+    return reorderQuestionsFlow({ testId, questionIds });
+}
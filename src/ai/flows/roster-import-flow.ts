@@ -0,0 +1,201 @@
+'use server';
+/**
+ * @fileOverview Bulk import of student accounts from a CSV roster.
+ *
+ * The same CSV is sent twice: first as a dry run that reports what would
+ * happen to each row, then to commit. The plan is rebuilt from the file when
+ * committing, so the preview can't be tampered with.
+ */
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { defineAuthorizedFlow } from '@/ai/authorization';
+import { parseCsv } from '@/lib/csv';
+import { hashPassword } from '@/lib/password';
+import { generateToken } from '@/lib/tokens';
+import { absoluteUrl, sendMail } from '@/lib/mail';
+import { recordAuditEvent, userTarget } from '@/lib/audit';
+import { enrollmentFields } from '@/lib/class-enrollment';
+import { formatClassName, getAcademicYear, normalizeGrade, normalizeSection } from '@/lib/classes';
+import type { SchoolClass, User } from '@/lib/types';
+import { RosterImportResultSchema, RosterRowResultSchema } from '../schemas/roster-schemas';
+import { PasswordSchema, RegisterStudentInputSchema } from '../schemas/user-schemas';
+
+export type RosterRowResult = z.infer<typeof RosterRowResultSchema>;
+export type RosterImportResult = z.infer<typeof RosterImportResultSchema>;
+
+const MAX_ROWS = 2000;
+const REQUIRED_COLUMNS = ['username', 'email', 'class', 'section'] as const;
+const SETUP_LINK_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// The registration rules, except that the password may be left out.
+const RosterRowSchema = RegisterStudentInputSchema.omit({ role: true, password: true }).extend({
+    password: PasswordSchema.optional(),
+});
+type RosterRow = z.infer<typeof RosterRowSchema>;
+
+type PlannedRow = RosterRowResult & { data?: RosterRow; schoolClass?: SchoolClass; existing?: User };
+
+function readRows(csv: string): { line: number; values: Record<string, string> }[] {
+    const [header, ...rows] = parseCsv(csv);
+    if (!header) {
+        throw new Error('The file is empty.');
+    }
+    const columns = header.map(column => column.trim().toLowerCase());
+    const missing = REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+    if (missing.length > 0) {
+        throw new Error(`The header row is missing: ${missing.join(', ')}.`);
+    }
+    if (rows.length > MAX_ROWS) {
+        throw new Error(`A roster can have at most ${MAX_ROWS} students. Split the file and import it in parts.`);
+    }
+    return rows.map((cells, index) => ({
+        line: index + 2,
+        values: Object.fromEntries(columns.map((column, i) => [column, (cells[i] ?? '').trim()])),
+    }));
+}
+
+// Works out what importing each row would do, without changing anything.
+async function planImport(csv: string): Promise<PlannedRow[]> {
+    const rows = readRows(csv);
+    const emails = rows.map(row => row.values.email.toLowerCase()).filter(Boolean);
+    const existingUsers = new Map((await db.getUsersByEmails(emails)).map(user => [user.email.toLowerCase(), user]));
+    const firstLineByEmail = new Map<string, number>();
+    const academicYear = getAcademicYear();
+    const classesByName = new Map(
+        (await db.getClassesByYear(academicYear)).map(schoolClass => [formatClassName(schoolClass), schoolClass])
+    );
+
+    return rows.map(({ line, values }): PlannedRow => {
+        const email = values.email.toLowerCase();
+        const base = { line, username: values.username, email, class: values.class, section: values.section };
+
+        const parsed = RosterRowSchema.safeParse({ ...values, email, password: values.password || undefined });
+        if (!parsed.success) {
+            return { ...base, action: 'error', message: parsed.error.issues.map(issue => issue.message).join(' ') };
+        }
+        const duplicateOf = firstLineByEmail.get(email);
+        if (duplicateOf !== undefined) {
+            return { ...base, action: 'error', message: `Same email as line ${duplicateOf}.` };
+        }
+        firstLineByEmail.set(email, line);
+
+        const grade = normalizeGrade(parsed.data.class);
+        const section = normalizeSection(parsed.data.section);
+        const schoolClass = grade && section ? classesByName.get(formatClassName({ grade, section })) : undefined;
+        if (!schoolClass) {
+            return { ...base, action: 'error', message: `There is no class ${values.class}-${values.section} in ${academicYear}. Add it on the Classes page first.` };
+        }
+
+        const existing = existingUsers.get(email);
+        if (!existing) {
+            return { ...base, action: 'create', data: parsed.data, schoolClass };
+        }
+        if (existing.role !== 'student') {
+            return { ...base, action: 'error', message: `This email belongs to a ${existing.role} account.` };
+        }
+        const changes = [
+            ...(existing.username !== parsed.data.username ? ['username'] : []),
+            ...(existing.class_id !== schoolClass.id ? ['class'] : []),
+        ];
+        if (changes.length === 0) {
+            return { ...base, action: 'skip', message: 'Already up to date.', existing };
+        }
+        return {
+            ...base,
+            action: 'update',
+            changes,
+            // Passwords in the file only apply to new accounts.
+            message: parsed.data.password ? 'The password column is ignored for existing students.' : undefined,
+            data: parsed.data,
+            schoolClass,
+            existing,
+        };
+    });
+}
+
+function toRowResult({ data, schoolClass, existing, ...row }: PlannedRow): RosterRowResult {
+    return row;
+}
+
+// Students imported without a password get a link to choose one.
+async function sendAccountSetupEmail(user: Pick<User, 'id' | 'email' | 'username'>) {
+    const { token, tokenHash } = generateToken();
+    const now = new Date();
+    await db.createPasswordReset({
+        email: user.email,
+        user_id: user.id,
+        token_hash: tokenHash,
+        created_at: now,
+        expires_at: new Date(now.getTime() + SETUP_LINK_TTL_MS),
+    });
+    await sendMail({
+        to: user.email,
+        subject: 'Your ExamZen account is ready',
+        text: [
+            `Hello ${user.username},`,
+            '',
+            'Your school has created an ExamZen student account for you.',
+            'Open the link below to choose your password. It expires in 7 days and can only be used once.',
+            '',
+            absoluteUrl(`/reset-password/${token}`),
+        ].join('\n'),
+    });
+}
+
+async function applyRow(row: PlannedRow, admin: User): Promise<PlannedRow> {
+    const { data, schoolClass, existing } = row;
+    if (!data || !schoolClass) return row;
+    try {
+        if (row.action === 'create') {
+            const { password, ...profile } = data;
+            const student = await db.createUser({
+                ...profile,
+                ...enrollmentFields(schoolClass),
+                role: 'student',
+                status: 'active',
+                ...(password && { password: await hashPassword(password) }),
+            });
+            if (!password) {
+                await sendAccountSetupEmail(student);
+            }
+            await recordAuditEvent({ actor: admin, action: 'user.register', target: userTarget(student), after: student });
+        } else if (row.action === 'update' && existing) {
+            const updated = await db.updateUser(existing.id, {
+                username: data.username,
+                ...enrollmentFields(schoolClass),
+            });
+            await recordAuditEvent({ actor: admin, action: 'user.update', target: userTarget(updated), before: existing, after: updated });
+        }
+        return row;
+    } catch (error: any) {
+        return { ...row, action: 'error', message: error.message || 'Could not save this row.' };
+    }
+}
+
+
+const importRosterFlow = defineAuthorizedFlow({
+    name: 'importRosterFlow',
+    inputSchema: z.object({ csv: z.string(), dryRun: z.boolean() }),
+    outputSchema: RosterImportResultSchema,
+    policy: { roles: ['admin'] },
+}, async ({ csv, dryRun }, admin) => {
+    const plan = await planImport(csv);
+    if (dryRun) {
+        return { committed: false, rows: plan.map(toRowResult) };
+    }
+    const results: PlannedRow[] = [];
+    for (const row of plan) {
+        results.push(await applyRow(row, admin));
+    }
+    return { committed: true, rows: results.map(toRowResult) };
+});
+
+// Reports what importing the roster would do, without changing anything.
+export async function previewRosterImport(csv: string): Promise<RosterImportResult> {
+    return importRosterFlow({ csv, dryRun: true });
+}
+
+// Creates and updates the students in the roster. Rows with errors are left out.
+export async function commitRosterImport(csv: string): Promise<RosterImportResult> {
+    return importRosterFlow({ csv, dryRun: false });
+}
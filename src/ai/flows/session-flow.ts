@@ -0,0 +1,121 @@
+'use server';
+/**
+ * @fileOverview Listing and revoking sign-in sessions.
+ */
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { Session } from '@/lib/types';
+import { defineAuthorizedFlow } from '@/ai/authorization';
+import { getSession } from '@/lib/session';
+import { UnauthenticatedError } from '@/lib/errors';
+import { recordAuditEvent, userTarget } from '@/lib/audit';
+import { SessionOutputSchema } from '../schemas/session-schemas';
+
+export type SessionOutput = z.infer<typeof SessionOutputSchema>;
+
+function toSessionOutput(session: Session, currentSessionId?: string): SessionOutput {
+    return {
+        id: session.id,
+        created_at: session.created_at.toISOString(),
+        last_seen_at: session.last_seen_at?.toISOString(),
+        expires_at: session.expires_at.toISOString(),
+        user_agent: session.user_agent,
+        ip: session.ip,
+        current: session.id === currentSessionId,
+    };
+}
+
+// The session of the request; these flows need to know which one is "this device".
+async function requireSession(): Promise<Session> {
+    const session = await getSession();
+    if (!session) {
+        throw new UnauthenticatedError();
+    }
+    return session;
+}
+
+
+const getSessionsFlow = defineAuthorizedFlow({
+    name: 'getSessionsFlow',
+    inputSchema: z.object({ userId: z.string(), currentSessionId: z.string().optional() }),
+    outputSchema: z.array(SessionOutputSchema),
+    policy: { allow: ({ userId }, user) => userId === user.id || user.role === 'admin' },
+}, async ({ userId, currentSessionId }) => {
+    const sessions = await db.getSessionsByUser(userId);
+    return sessions.map(session => toSessionOutput(session, currentSessionId));
+});
+
+// Lists the signed-in user's own sessions.
+export async function getMySessions(): Promise<SessionOutput[]> {
+    const session = await requireSession();
+    return getSessionsFlow({ userId: session.user_id, currentSessionId: session.id });
+}
+
+
+// Users may end any of their own sessions, including the current one.
+const revokeSessionFlow = defineAuthorizedFlow({
+    name: 'revokeSessionFlow',
+    inputSchema: z.object({ sessionId: z.string() }),
+    outputSchema: z.boolean(),
+    policy: {
+        allow: async ({ sessionId }, user) =>
+            user.role === 'admin' || (await db.getSessionById(sessionId))?.user_id === user.id,
+        denyImpersonation: true,
+    },
+}, async ({ sessionId }, user) => {
+    const session = await db.getSessionById(sessionId);
+    const deleted = await db.deleteSession(sessionId);
+    if (deleted && session) {
+        await recordAuditEvent({
+            actor: user,
+            action: 'session.revoke',
+            target: { type: 'session', id: sessionId, label: session.user_agent },
+            before: { user_id: session.user_id, ip: session.ip },
+        });
+    }
+    return deleted;
+});
+
+export async function revokeSession(sessionId: string): Promise<boolean> {
+    return revokeSessionFlow({ sessionId });
+}
+
+
+const revokeSessionsFlow = defineAuthorizedFlow({
+    name: 'revokeSessionsFlow',
+    inputSchema: z.object({ userId: z.string(), exceptSessionId: z.string().optional() }),
+    outputSchema: z.number(),
+    policy: { allow: ({ userId }, user) => userId === user.id, denyImpersonation: true },
+}, async ({ userId, exceptSessionId }, user) => {
+    const count = await db.deleteSessionsByUser(userId, exceptSessionId);
+    if (count > 0) {
+        await recordAuditEvent({ actor: user, action: 'session.revoke', target: userTarget(user), after: { sessions_ended: count } });
+    }
+    return count;
+});
+
+// Signs the user out everywhere except on this device. Returns how many sessions ended.
+export async function revokeOtherSessions(): Promise<number> {
+    const session = await requireSession();
+    return revokeSessionsFlow({ userId: session.user_id, exceptSessionId: session.id });
+}
+
+// Admin action: forces the user to sign in again on every device.
+const signOutUserEverywhereFlow = defineAuthorizedFlow({
+    name: 'signOutUserEverywhereFlow',
+    inputSchema: z.object({ userId: z.string() }),
+    outputSchema: z.number(),
+    policy: { roles: ['admin'] },
+}, async ({ userId }, admin) => {
+    const user = await db.getUserById(userId);
+    if (!user) {
+        throw new Error('User not found.');
+    }
+    const count = await db.deleteSessionsByUser(userId);
+    await recordAuditEvent({ actor: admin, action: 'session.revoke', target: userTarget(user), after: { sessions_ended: count } });
+    return count;
+});
+
+export async function signOutUserEverywhere(userId: string): Promise<number> {
+    return signOutUserEverywhereFlow({ userId });
+}
@@ -0,0 +1,113 @@
+'use server';
+/**
+ * @fileOverview Application-wide settings managed by admins.
+ */
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { defineAuthorizedFlow } from '@/ai/authorization';
+import { recordAuditEvent } from '@/lib/audit';
+import { ExamSettingsSchema, RegistrationSettingsSchema, SecuritySettingsSchema } from '../schemas/settings-schemas';
+
+export type SecuritySettingsOutput = z.infer<typeof SecuritySettingsSchema>;
+export type ExamSettingsOutput = z.infer<typeof ExamSettingsSchema>;
+export type RegistrationSettingsOutput = z.infer<typeof RegistrationSettingsSchema>;
+
+const getSecuritySettingsFlow = defineAuthorizedFlow({
+    name: 'getSecuritySettingsFlow',
+    inputSchema: z.void(),
+    outputSchema: SecuritySettingsSchema,
+    policy: { roles: ['admin'] },
+}, async () => {
+    return db.getSecuritySettings();
+});
+
+export async function getSecuritySettings(): Promise<SecuritySettingsOutput> {
+    return getSecuritySettingsFlow();
+}
+
+
+const updateSecuritySettingsFlow = defineAuthorizedFlow({
+    name: 'updateSecuritySettingsFlow',
+    inputSchema: SecuritySettingsSchema,
+    outputSchema: SecuritySettingsSchema,
+    policy: { roles: ['admin'] },
+}, async (input, admin) => {
+    // Stop admins from requiring 2FA for themselves before they can provide a code.
+    if (input.require_two_factor_roles.includes('admin') && !admin.totp_enabled) {
+        throw new Error('Set up two-factor authentication on your own account before requiring it for admins.');
+    }
+    const before = await db.getSecuritySettings();
+    const after = await db.updateSecuritySettings(input);
+    await recordAuditEvent({ actor: admin, action: 'settings.update', target: { type: 'settings', id: 'security' }, before, after });
+    return after;
+});
+
+export async function updateSecuritySettings(input: SecuritySettingsOutput): Promise<SecuritySettingsOutput> {
+    return updateSecuritySettingsFlow(input);
+}
+
+
+const getExamSettingsFlow = defineAuthorizedFlow({
+    name: 'getExamSettingsFlow',
+    inputSchema: z.void(),
+    outputSchema: ExamSettingsSchema,
+    policy: { roles: ['admin'] },
+}, async () => {
+    return db.getExamSettings();
+});
+
+export async function getExamSettings(): Promise<ExamSettingsOutput> {
+    return getExamSettingsFlow();
+}
+
+
+const updateExamSettingsFlow = defineAuthorizedFlow({
+    name: 'updateExamSettingsFlow',
+    inputSchema: ExamSettingsSchema,
+    outputSchema: ExamSettingsSchema,
+    policy: { roles: ['admin'] },
+}, async (input, admin) => {
+    const before = await db.getExamSettings();
+    const after = await db.updateExamSettings(input);
+    await recordAuditEvent({ actor: admin, action: 'settings.update', target: { type: 'settings', id: 'exams' }, before, after });
+    return after;
+});
+
+export async function updateExamSettings(input: ExamSettingsOutput): Promise<ExamSettingsOutput> {
+    return updateExamSettingsFlow(input);
+}
+
+
+const getRegistrationSettingsFlow = defineAuthorizedFlow({
+    name: 'getRegistrationSettingsFlow',
+    inputSchema: z.void(),
+    outputSchema: RegistrationSettingsSchema,
+    policy: { roles: ['admin'] },
+}, async () => {
+    return db.getRegistrationSettings();
+});
+
+export async function getRegistrationSettings(): Promise<RegistrationSettingsOutput> {
+    return getRegistrationSettingsFlow();
+}
+
+
+const updateRegistrationSettingsFlow = defineAuthorizedFlow({
+    name: 'updateRegistrationSettingsFlow',
+    inputSchema: RegistrationSettingsSchema,
+    outputSchema: RegistrationSettingsSchema,
+    policy: { roles: ['admin'] },
+}, async ({ allowed_email_domains }, admin) => {
+    // Store bare, lower-case domains such as "school.edu"
+    const domains = allowed_email_domains
+        .map(domain => domain.trim().toLowerCase().replace(/^@/, ''))
+        .filter(Boolean);
+    const before = await db.getRegistrationSettings();
+    const after = await db.updateRegistrationSettings({ allowed_email_domains: [...new Set(domains)] });
+    await recordAuditEvent({ actor: admin, action: 'settings.update', target: { type: 'settings', id: 'registration' }, before, after });
+    return after;
+});
+
+export async function updateRegistrationSettings(input: RegistrationSettingsOutput): Promise<RegistrationSettingsOutput> {
+    return updateRegistrationSettingsFlow(input);
+}
@@ -3,11 +3,15 @@
 /**
  * @fileOverview Submission management flows for retrieving and creating test submissions.
  */
-import { ai } from '@/ai/genkit';
+import { canAccessTest, defineAuthorizedFlow, isTestOwner } from '@/ai/authorization';
 import { z } from 'zod';
 import { db } from '@/lib/db';
 import { Answer, Submission, Test, User } from '@/lib/types';
-import { getQuestionsByTest } from './question-flow';
+import { requireUser } from '@/lib/session';
+import { recordAuditEvent } from '@/lib/audit';
+import { wasOpenAt } from '@/lib/test-window';
+import { scoreMultiSelect, toMcqScore } from '@/lib/mcq-scoring';
+import { getAttemptQuestions, hasQuestionPools } from '@/lib/question-pools';
 
 // Schema for the output of a submission, including student and test details
 const SubmissionDetailsSchema = z.object({
@@ -31,10 +35,14 @@ const SubmissionDetailsSchema = z.object({
 export type SubmissionDetails = z.infer<typeof SubmissionDetailsSchema>;
 
 // Flow for getting submissions for a specific test
-const getSubmissionsByTestFlow = ai.defineFlow({
+const getSubmissionsByTestFlow = defineAuthorizedFlow({
     name: 'getSubmissionsByTestFlow',
     inputSchema: z.object({ testId: z.string() }),
     outputSchema: z.array(SubmissionDetailsSchema),
+    policy: {
+        roles: ['teacher', 'admin'],
+        allow: ({ testId }, user) => user.role === 'admin' || isTestOwner(testId, user),
+    },
 }, async ({ testId }) => {
     const submissions = await db.getSubmissionsByTest(testId);
     
@@ -70,10 +78,11 @@ export async function getSubmissionsByTest(testId: string): Promise<SubmissionDe
 }
 
 // Flow for getting all submissions for all tests by a specific teacher
-const getAllSubmissionsByTeacherFlow = ai.defineFlow({
+const getAllSubmissionsByTeacherFlow = defineAuthorizedFlow({
     name: 'getAllSubmissionsByTeacherFlow',
     inputSchema: z.object({ teacherId: z.string() }),
     outputSchema: z.array(SubmissionDetailsSchema),
+    policy: { allow: ({ teacherId }, user) => teacherId === user.id || user.role === 'admin' },
 }, async ({ teacherId }) => {
     const teacherTests = await db.getTestsByTeacher(teacherId);
     let allSubmissions: SubmissionDetails[] = [];
@@ -112,8 +121,10 @@ const getAllSubmissionsByTeacherFlow = ai.defineFlow({
     return allSubmissions;
 });
 
-export async function getAllSubmissionsByTeacher(teacherId: string): Promise<SubmissionDetails[]> {
-    return getAllSubmissionsByTeacherFlow({ teacherId });
+// Returns submissions for every test created by the signed-in teacher.
+export async function getAllSubmissionsByTeacher(): Promise<SubmissionDetails[]> {
+    const teacher = await requireUser('teacher');
+    return getAllSubmissionsByTeacherFlow({ teacherId: teacher.id });
 }
 
 
@@ -125,21 +136,72 @@ const SubmitTestInputSchema = z.object({
     questionId: z.string(),
     text: z.string().optional(),
     imageUrl: z.string().optional(),
+    options: z.array(z.string()).optional(), // For multi-select questions
   })),
 });
 
 export type SubmitTestInput = z.infer<typeof SubmitTestInputSchema>;
 
-const submitTestFlow = ai.defineFlow({
+// The attempt must have started while the test was open, and be handed in no
+// later than the grace period after it closes.
+async function assertSubmissionInWindow(test: Test, studentId: string) {
+    if (!test.opens_at && !test.closes_at) {
+        return;
+    }
+    const attempt = await db.getTestAttempt(test.id, studentId);
+    if (!attempt || !wasOpenAt(test, attempt.started_at)) {
+        throw new Error('This attempt was not started while the test was open.');
+    }
+    if (test.closes_at) {
+        const { submission_grace_minutes } = await db.getExamSettings();
+        if (Date.now() > test.closes_at.getTime() + submission_grace_minutes * 60 * 1000) {
+            throw new Error('This test has closed, so the submission was not accepted.');
+        }
+    }
+}
+
+const submitTestFlow = defineAuthorizedFlow({
     name: 'submitTestFlow',
     inputSchema: SubmitTestInputSchema,
     outputSchema: z.string(),
-}, async ({ testId, studentId, answers }) => {
-    const questions = await getQuestionsByTest(testId);
+    policy: {
+        roles: ['student'],
+        allow: async ({ testId, studentId }, user) => studentId === user.id && (await canAccessTest(testId, user)),
+        requireVerifiedEmail: true,
+        denyImpersonation: true,
+    },
+}, async ({ testId, studentId, answers }, student) => {
+    const test = await db.getTestById(testId);
+    if (!test) {
+        throw new Error('Test not found.');
+    }
+    await assertSubmissionInWindow(test, studentId);
+    // A student has one attempt per test, and it is handed in once.
+    if (await db.getSubmissionByTestAndStudent(testId, studentId)) {
+        throw new Error('You have already submitted this test.');
+    }
+    // Only the questions the student was given, e.g. drawn from the test's pools, can be answered.
+    const attempt = await db.getTestAttempt(testId, studentId);
+    if (hasQuestionPools(test) && !attempt) {
+        throw new Error('This test was not started, so there are no questions to submit answers for.');
+    }
+    const questions = attempt ? await getAttemptQuestions(test, attempt) : await db.getQuestionsByTest(testId);
+    if (new Set(answers.map(ans => ans.questionId)).size !== answers.length) {
+        throw new Error('Each question can only be answered once.');
+    }
+    if (answers.some(ans => !questions.some(q => q.id === ans.questionId))) {
+        throw new Error('Answers were sent for questions that are not part of your test.');
+    }
+    // A multi-select question whose boxes were all cleared counts as unanswered,
+    // the same as one that was never touched.
+    const givenAnswers = answers.filter(ans => {
+        const question = questions.find(q => q.id === ans.questionId);
+        return question?.type !== 'multi_select' || (question.options ?? []).some(option => ans.options?.includes(option));
+    });
     let correctMcqCount = 0;
     let totalMcqCount = 0;
 
-    const answerData: Omit<Answer, 'id' | 'submission_id'>[] = answers.map(ans => {
+    const answerData: Omit<Answer, 'id' | 'submission_id'>[] = givenAnswers.map(ans => {
         const question = questions.find(q => q.id === ans.questionId);
         let isCorrect: boolean | undefined = undefined;
 
@@ -152,6 +214,22 @@ const submitTestFlow = ai.defineFlow({
                 isCorrect = false;
             }
         }
+
+        if (question?.type === 'multi_select') {
+            // Picks are kept in the question's own option order, whatever order the student saw.
+            const picked = (question.options ?? []).filter(option => ans.options?.includes(option));
+            const credit = scoreMultiSelect(question, picked);
+            totalMcqCount++;
+            correctMcqCount += credit;
+            return {
+                question_id: ans.questionId,
+                answer_text: picked.join(', '),
+                answer_image_url: null,
+                answer_options: picked,
+                is_correct: credit === 1,
+                credit,
+            };
+        }
         
         return {
             question_id: ans.questionId,
@@ -161,7 +239,7 @@ const submitTestFlow = ai.defineFlow({
         };
     });
     
-    const mcqScore = totalMcqCount > 0 ? Math.round((correctMcqCount / totalMcqCount) * 100) : null;
+    const mcqScore = toMcqScore(correctMcqCount, totalMcqCount);
     
     // Check if there are any subjective questions
     const hasSubjective = questions.some(q => q.type === 'subjective');
@@ -174,22 +252,32 @@ const submitTestFlow = ai.defineFlow({
         // If only MCQs, the test can be auto-graded
         final_score: !hasSubjective ? mcqScore : null, 
         status: !hasSubjective ? 'Graded' : 'Pending',
+        ...(hasQuestionPools(test) && { question_ids: questions.map(q => q.id) }),
         answers: answerData,
     });
+    await recordAuditEvent({
+        actor: student,
+        action: 'submission.submit',
+        target: { type: 'submission', id: newSubmission.id, label: `${student.username} – ${test.title}` },
+        after: { mcq_score: newSubmission.mcq_score, final_score: newSubmission.final_score, status: newSubmission.status },
+    });
 
     return newSubmission.id;
 });
 
-export async function submitTest(input: SubmitTestInput): Promise<string> {
-    return submitTestFlow(input);
+// Submits the test on behalf of the signed-in student.
+export async function submitTest(input: Omit<SubmitTestInput, 'studentId'>): Promise<string> {
+    const student = await requireUser('student');
+    return submitTestFlow({ ...input, studentId: student.id });
 }
 
 
 // Flow for getting submissions for a specific student
-const getSubmissionsByStudentFlow = ai.defineFlow({
+const getSubmissionsByStudentFlow = defineAuthorizedFlow({
     name: 'getSubmissionsByStudentFlow',
     inputSchema: z.object({ studentId: z.string() }),
     outputSchema: z.array(SubmissionDetailsSchema),
+    policy: { allow: ({ studentId }, user) => user.role !== 'student' || studentId === user.id },
 }, async ({ studentId }) => {
     const submissions = await db.getSubmissionsByStudent(studentId);
     
@@ -224,6 +312,8 @@ const getSubmissionsByStudentFlow = ai.defineFlow({
                               .sort((a, b) => new Date(b.submitted_at).getTime() - new Date(a.submitted_at).getTime());
 });
 
-export async function getSubmissionsByStudent(studentId: string): Promise<SubmissionDetails[]> {
-    return getSubmissionsByStudentFlow({ studentId });
+// Returns the signed-in student's own submissions.
+export async function getSubmissionsByStudent(): Promise<SubmissionDetails[]> {
+    const student = await requireUser('student');
+    return getSubmissionsByStudentFlow({ studentId: student.id });
 }
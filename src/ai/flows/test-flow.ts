@@ -1,77 +1,116 @@
 
 'use server';
 /**
- * @fileOverview Test management flows for creating and retrieving tests.
+ * @fileOverview Test management flows for creating, editing, copying, versioning and retrieving tests.
  */
-import { ai } from '@/ai/genkit';
+import { canAccessTest, defineAuthorizedFlow, isTestOwner } from '@/ai/authorization';
 import { z } from 'zod';
 import { db } from '@/lib/db';
-import { Test } from '@/lib/types';
+import { Test, TestStatus, User } from '@/lib/types';
 import { createQuestion, CreateQuestionInput } from './question-flow';
-import { TestOutputSchema } from '../schemas/test-schemas';
-
-const QuestionInputSchema = z.object({
-  question_text: z.string(),
-  marks: z.coerce.number().int().positive("Marks must be a positive number."),
-  type: z.enum(['mcq', 'subjective']),
-  answer_format: z.enum(['text', 'image']).optional(),
-  options: z.array(z.string()).optional(),
-  correct_answer: z.string().optional(),
-  image_url: z.string().optional(),
-})
-.refine(data => {
-    if (data.type === 'mcq') {
-        return data.options && data.options.length >= 2 && data.correct_answer;
-    }
-    return true;
-}, {
-    message: "MCQs require options and a correct answer.",
-    path: ['type'],
-})
-.refine(data => {
-    if (data.type === 'subjective') {
-        return data.question_text || data.image_url;
-    }
-    return true;
-}, {
-    message: "Subjective questions require either text or an image.",
-    path: ['type'],
-})
-.refine(data => {
-    if(data.type === 'subjective') {
-        return !!data.answer_format;
-    }
-    return true;
-}, {
-    message: "Subjective questions require an answer format.",
-    path: ['answer_format'],
-});
+import { requireUser } from '@/lib/session';
+import { recordAuditEvent, testTarget } from '@/lib/audit';
+import { assertStatusTransition, getTestStatus } from '@/lib/test-lifecycle';
+import { copyTest, diffTestVersions, getVersionGroupId, getVersionNumber } from '@/lib/test-versions';
+import { assertQuestionPools } from '@/lib/question-pools';
+import { QuestionPoolSchema, TestOutputSchema, TestVersionDiffSchema } from '../schemas/test-schemas';
+import { checkQuestionFields, QuestionFieldsSchema } from '../schemas/question-schemas';
 
+// A question of a new test; test_id is filled in once the test exists
+const QuestionInputSchema = QuestionFieldsSchema.extend({
+  bank_question_id: z.string().optional(),
+  pool_id: z.string().optional(),
+}).superRefine(checkQuestionFields);
 
-// Schema for creating a test, now including questions
-const CreateTestInputSchema = z.object({
+
+// Details of a test, shared by creating and editing it
+const TestDetailsSchema = z.object({
   title: z.string().min(5, "Title must be at least 5 characters."),
   description: z.string().min(10, "Description must be at least 10 characters."),
   subject: z.string().min(3, "Subject is required."),
   time_limit: z.coerce.number().int().positive("Time limit must be a positive number."),
+  assigned_class_ids: z.array(z.string()),
+  assigned_student_ids: z.array(z.string()),
+  // ISO timestamps with an offset; the form converts from the teacher's local time.
+  opens_at: z.string().datetime({ offset: true }).optional(),
+  closes_at: z.string().datetime({ offset: true }).optional(),
+  question_pools: z.array(QuestionPoolSchema),
+  shuffle_questions: z.boolean(),
+  shuffle_options: z.boolean(),
+});
+
+function checkTestDetails(data: z.infer<typeof TestDetailsSchema>, ctx: z.RefinementCtx) {
+    if (data.assigned_class_ids.length === 0 && data.assigned_student_ids.length === 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Assign the test to at least one class or student.", path: ['assigned_class_ids'] });
+    }
+    if (data.opens_at && data.closes_at && new Date(data.opens_at) >= new Date(data.closes_at)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "The test must close after it opens.", path: ['closes_at'] });
+    }
+    if (new Set(data.question_pools.map(pool => pool.id)).size !== data.question_pools.length) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Each question pool needs its own id.", path: ['question_pools'] });
+    }
+}
+
+// Schema for creating a test, now including questions
+const CreateTestInputSchema = TestDetailsSchema.extend({
   created_by: z.string(), // teacher ID as string
+  // Drafts are hidden from students until the teacher publishes them.
+  status: z.enum(['draft', 'published']),
   questions: z.array(QuestionInputSchema).min(1, "At least one question is required."),
-});
+}).superRefine(checkTestDetails);
 export type CreateTestInput = z.infer<typeof CreateTestInputSchema>;
 
+// Questions are edited one at a time with the question flows.
+const UpdateTestInputSchema = TestDetailsSchema.extend({
+  testId: z.string(),
+}).superRefine(checkTestDetails);
+export type UpdateTestInput = z.infer<typeof UpdateTestInputSchema>;
+
 
 export type TestOutput = z.infer<typeof TestOutputSchema>;
 
+function toTestOutput(test: Test): TestOutput {
+    const { opens_at, closes_at, created_at, ...rest } = test;
+    return {
+        ...rest,
+        ...(opens_at && { opens_at: opens_at.toISOString() }),
+        ...(closes_at && { closes_at: closes_at.toISOString() }),
+        ...(created_at && { created_at: created_at.toISOString() }),
+    };
+}
+
+async function assertAssignmentTargetsExist(classIds: string[], studentIds: string[]) {
+    const [classes, students] = await Promise.all([db.getClasses(), db.getUsersByRole('student')]);
+    if (classIds.some(id => !classes.some(schoolClass => schoolClass.id === id))) {
+        throw new Error('One of the selected classes no longer exists.');
+    }
+    if (studentIds.some(id => !students.some(student => student.id === id))) {
+        throw new Error('One of the selected students no longer exists.');
+    }
+}
+
 // Flow for creating a test with questions
-const createTestFlow = ai.defineFlow({
+const createTestFlow = defineAuthorizedFlow({
     name: 'createTestFlow',
     inputSchema: CreateTestInputSchema,
     outputSchema: TestOutputSchema,
-}, async (input) => {
-    const { questions, ...testData } = input;
-    
+    policy: { roles: ['teacher'], allow: ({ created_by }, user) => created_by === user.id, denyImpersonation: true },
+}, async (input, teacher) => {
+    const { questions, opens_at, closes_at, question_pools, shuffle_questions, shuffle_options, ...testData } = input;
+    await assertAssignmentTargetsExist(testData.assigned_class_ids, testData.assigned_student_ids);
+    assertQuestionPools(question_pools, questions);
+
     // 1. Create the test
-    const newTest = await db.createTest(testData);
+    const newTest = await db.createTest({
+        ...testData,
+        ...(opens_at && { opens_at: new Date(opens_at) }),
+        ...(closes_at && { closes_at: new Date(closes_at) }),
+        ...(question_pools.length > 0 && { question_pools }),
+        ...(shuffle_questions && { shuffle_questions }),
+        ...(shuffle_options && { shuffle_options }),
+        created_at: new Date(),
+    });
+    await recordAuditEvent({ actor: teacher, action: 'test.create', target: testTarget(newTest), after: newTest });
 
     // 2. Create all the questions for that test
     for (const question of questions) {
@@ -81,36 +120,79 @@ const createTestFlow = ai.defineFlow({
         } as CreateQuestionInput); // Cast to handle the union type
     }
 
-    return newTest as TestOutput;
+    return toTestOutput(newTest);
+});
+
+export async function createTest(input: Omit<CreateTestInput, 'created_by'>): Promise<TestOutput> {
+    const teacher = await requireUser('teacher');
+    return createTestFlow({ ...input, created_by: teacher.id });
+}
+
+// Flow for editing the details of a test. Submissions keep their scores.
+const updateTestFlow = defineAuthorizedFlow({
+    name: 'updateTestFlow',
+    inputSchema: UpdateTestInputSchema,
+    outputSchema: TestOutputSchema,
+    policy: { roles: ['teacher'], allow: ({ testId }, user) => isTestOwner(testId, user), denyImpersonation: true },
+}, async ({ testId, opens_at, closes_at, question_pools, shuffle_questions, shuffle_options, ...details }, teacher) => {
+    const before = await db.getTestById(testId);
+    if (!before) {
+        throw new Error('Test not found.');
+    }
+    if (getTestStatus(before) === 'archived') {
+        throw new Error('Archived tests cannot be changed.');
+    }
+    // Students who submitted were drawn from the pools as they were.
+    const poolsChanged = JSON.stringify(question_pools) !== JSON.stringify(before.question_pools ?? []);
+    if (poolsChanged && (await db.getSubmissionsByTest(testId)).length > 0) {
+        throw new Error('Students have already submitted this test, so its question pools cannot be changed. Create a new version instead.');
+    }
+    await assertAssignmentTargetsExist(details.assigned_class_ids, details.assigned_student_ids);
+    // A cleared time removes that end of the window.
+    const after = await db.updateTest(testId, {
+        ...details,
+        opens_at: opens_at ? new Date(opens_at) : undefined,
+        closes_at: closes_at ? new Date(closes_at) : undefined,
+        question_pools: question_pools.length > 0 ? question_pools : undefined,
+        // Students who already started keep the order they were given.
+        shuffle_questions: shuffle_questions || undefined,
+        shuffle_options: shuffle_options || undefined,
+    });
+    await recordAuditEvent({ actor: teacher, action: 'test.update', target: testTarget(after), before, after });
+    return toTestOutput(after);
 });
 
-export async function createTest(input: CreateTestInput): Promise<TestOutput> {
-    return createTestFlow(input);
+export async function updateTest(input: UpdateTestInput): Promise<TestOutput> {
+    return updateTestFlow(input);
 }
 
 // Flow for getting tests by teacher
-const getTeacherTestsFlow = ai.defineFlow({
+const getTeacherTestsFlow = defineAuthorizedFlow({
     name: 'getTeacherTestsFlow',
     inputSchema: z.object({ teacherId: z.string() }),
     outputSchema: z.array(TestOutputSchema),
+    policy: { allow: ({ teacherId }, user) => teacherId === user.id || user.role === 'admin' },
 }, async ({ teacherId }) => {
     const tests = await db.getTestsByTeacher(teacherId);
     // In a real app, you might want to add more details, like submission counts
-    return tests as TestOutput[];
+    return tests.map(toTestOutput);
 });
 
-export async function getTeacherTests(teacherId: string): Promise<TestOutput[]> {
-    return getTeacherTestsFlow({ teacherId });
+// Returns the tests created by the signed-in teacher.
+export async function getTeacherTests(): Promise<TestOutput[]> {
+    const teacher = await requireUser('teacher');
+    return getTeacherTestsFlow({ teacherId: teacher.id });
 }
 
-// Flow for getting all tests
-const getTestsFlow = ai.defineFlow({
+// Flow for getting all tests. Students only get the tests assigned to them.
+const getTestsFlow = defineAuthorizedFlow({
     name: 'getTestsFlow',
     inputSchema: z.void(),
     outputSchema: z.array(TestOutputSchema),
-}, async () => {
-    const tests = await db.getTests();
-    return tests as TestOutput[];
+    policy: {},
+}, async (_, user) => {
+    const tests = user.role === 'student' ? await db.getTestsForStudent(user) : await db.getTests();
+    return tests.map(toTestOutput);
 });
 
 export async function getTests(): Promise<TestOutput[]> {
@@ -118,13 +200,14 @@ export async function getTests(): Promise<TestOutput[]> {
 }
 
 // Flow for getting a single test by ID
-const getTestByIdFlow = ai.defineFlow({
+const getTestByIdFlow = defineAuthorizedFlow({
     name: 'getTestByIdFlow',
     inputSchema: z.object({ id: z.string() }),
     outputSchema: TestOutputSchema.nullable(),
+    policy: { allow: ({ id }, user) => canAccessTest(id, user) },
 }, async ({ id }) => {
     const test = await db.getTestById(id);
-    return test as TestOutput | null;
+    return test ? toTestOutput(test) : null;
 });
 
 export async function getTestById(id: string): Promise<TestOutput | null> {
@@ -133,15 +216,189 @@ export async function getTestById(id: string): Promise<TestOutput | null> {
 
 
 // Flow for deleting a test
-const deleteTestFlow = ai.defineFlow({
+const deleteTestFlow = defineAuthorizedFlow({
     name: 'deleteTestFlow',
     inputSchema: z.object({ testId: z.string() }),
     outputSchema: z.boolean(),
-}, async ({ testId }) => {
+    // The owning teacher, or an admin moderating the platform.
+    policy: {
+        roles: ['teacher', 'admin'],
+        allow: ({ testId }, user) => user.role === 'admin' || isTestOwner(testId, user),
+        denyImpersonation: true,
+    },
+}, async ({ testId }, user) => {
+    const test = await db.getTestById(testId);
     await db.deleteTest(testId);
+    if (test) {
+        await recordAuditEvent({ actor: user, action: 'test.delete', target: testTarget(test), before: test });
+    }
     return true;
 });
 
 export async function deleteTest(testId: string): Promise<boolean> {
     return deleteTestFlow({ testId });
 }
+
+
+// Flow for publishing, unpublishing, closing and archiving a test
+const setTestStatusFlow = defineAuthorizedFlow({
+    name: 'setTestStatusFlow',
+    inputSchema: z.object({ testId: z.string(), status: z.enum(['draft', 'published', 'closed', 'archived']) }),
+    outputSchema: TestOutputSchema,
+    policy: { roles: ['teacher'], allow: ({ testId }, user) => isTestOwner(testId, user), denyImpersonation: true },
+}, async ({ testId, status }, teacher) => {
+    const before = await db.getTestById(testId);
+    if (!before) {
+        throw new Error('Test not found.');
+    }
+    await assertStatusTransition(before, status);
+    if (status === 'published') {
+        assertQuestionPools(before.question_pools ?? [], await db.getQuestionsByTest(testId));
+    }
+    const after = await changeStatus(before, status, teacher);
+    // Publishing a new version retires the one students were taking. Students
+    // part-way through it can still hand it in within the grace period.
+    if (status === 'published') {
+        const versions = await db.getTestsByVersionGroup(getVersionGroupId(after));
+        for (const version of versions) {
+            if (version.id !== after.id && getTestStatus(version) === 'published') {
+                await changeStatus(version, 'closed', teacher);
+            }
+        }
+    }
+    return toTestOutput(after);
+});
+
+async function changeStatus(before: Test, status: TestStatus, actor: User): Promise<Test> {
+    // Closing ends the window now; submissions already under way still get the grace period.
+    const now = new Date();
+    const closesNow = status === 'closed' && (!before.closes_at || before.closes_at > now);
+    const after = await db.updateTest(before.id, { status, ...(closesNow && { closes_at: now }) });
+    await recordAuditEvent({ actor, action: 'test.status_change', target: testTarget(after), before, after });
+    return after;
+}
+
+export async function setTestStatus(testId: string, status: TestStatus): Promise<TestOutput> {
+    return setTestStatusFlow({ testId, status });
+}
+
+
+// Flow for copying a test and its questions into a new draft, e.g. to reuse last term's paper
+const duplicateTestFlow = defineAuthorizedFlow({
+    name: 'duplicateTestFlow',
+    inputSchema: z.object({ testId: z.string() }),
+    outputSchema: TestOutputSchema,
+    policy: { roles: ['teacher'], allow: ({ testId }, user) => isTestOwner(testId, user), denyImpersonation: true },
+}, async ({ testId }, teacher) => {
+    const source = await db.getTestById(testId);
+    if (!source) {
+        throw new Error('Test not found.');
+    }
+    // The copy starts its own version history and has no window yet.
+    const copy = await copyTest(source, { title: `${source.title} (copy)`, created_by: teacher.id });
+    await recordAuditEvent({
+        actor: teacher,
+        action: 'test.duplicate',
+        target: testTarget(copy),
+        after: { ...copy, duplicated_from: source.id },
+    });
+    return toTestOutput(copy);
+});
+
+export async function duplicateTest(testId: string): Promise<TestOutput> {
+    return duplicateTestFlow({ testId });
+}
+
+
+// Flow for starting the next version of a test. The new version is a draft
+// with a copy of the questions; publishing it closes the current version.
+const createTestVersionFlow = defineAuthorizedFlow({
+    name: 'createTestVersionFlow',
+    inputSchema: z.object({ testId: z.string() }),
+    outputSchema: TestOutputSchema,
+    policy: { roles: ['teacher'], allow: ({ testId }, user) => isTestOwner(testId, user), denyImpersonation: true },
+}, async ({ testId }, teacher) => {
+    const source = await db.getTestById(testId);
+    if (!source) {
+        throw new Error('Test not found.');
+    }
+    const groupId = getVersionGroupId(source);
+    const versions = await db.getTestsByVersionGroup(groupId);
+    const latest = versions[versions.length - 1];
+    if (latest.id !== source.id) {
+        throw new Error(`Version ${getVersionNumber(latest)} is newer. Create new versions from the latest one.`);
+    }
+    if (getTestStatus(source) === 'draft') {
+        throw new Error('This version is still a draft, so you can edit it directly.');
+    }
+    const version = await copyTest(source, {
+        version_group_id: groupId,
+        version: getVersionNumber(source) + 1,
+        ...(source.opens_at && { opens_at: source.opens_at }),
+        ...(source.closes_at && { closes_at: source.closes_at }),
+    });
+    await recordAuditEvent({ actor: teacher, action: 'test.version_create', target: testTarget(version), after: version });
+    return toTestOutput(version);
+});
+
+export async function createTestVersion(testId: string): Promise<TestOutput> {
+    return createTestVersionFlow({ testId });
+}
+
+
+const TestVersionSchema = TestOutputSchema.extend({ submission_count: z.number() });
+export type TestVersion = z.infer<typeof TestVersionSchema>;
+
+// Flow for listing every version of a test, oldest first
+const getTestVersionsFlow = defineAuthorizedFlow({
+    name: 'getTestVersionsFlow',
+    inputSchema: z.object({ testId: z.string() }),
+    outputSchema: z.array(TestVersionSchema),
+    policy: {
+        roles: ['teacher', 'admin'],
+        allow: ({ testId }, user) => user.role === 'admin' || isTestOwner(testId, user),
+    },
+}, async ({ testId }) => {
+    const test = await db.getTestById(testId);
+    if (!test) {
+        throw new Error('Test not found.');
+    }
+    const versions = await db.getTestsByVersionGroup(getVersionGroupId(test));
+    return Promise.all(versions.map(async version => ({
+        ...toTestOutput(version),
+        submission_count: (await db.getSubmissionsByTest(version.id)).length,
+    })));
+});
+
+export async function getTestVersions(testId: string): Promise<TestVersion[]> {
+    return getTestVersionsFlow({ testId });
+}
+
+
+export type TestVersionDiff = z.infer<typeof TestVersionDiffSchema>;
+
+// Flow for comparing two versions of the same test
+const getTestVersionDiffFlow = defineAuthorizedFlow({
+    name: 'getTestVersionDiffFlow',
+    inputSchema: z.object({ fromTestId: z.string(), toTestId: z.string() }),
+    outputSchema: TestVersionDiffSchema,
+    policy: {
+        roles: ['teacher', 'admin'],
+        allow: async ({ fromTestId, toTestId }, user) =>
+            user.role === 'admin' || ((await isTestOwner(fromTestId, user)) && (await isTestOwner(toTestId, user))),
+    },
+}, async ({ fromTestId, toTestId }) => {
+    const [from, to] = await Promise.all([db.getTestById(fromTestId), db.getTestById(toTestId)]);
+    if (!from || !to) {
+        throw new Error('Test not found.');
+    }
+    if (getVersionGroupId(from) !== getVersionGroupId(to)) {
+        throw new Error('Only versions of the same test can be compared.');
+    }
+    const [fromQuestions, toQuestions] = await Promise.all([db.getQuestionsByTest(from.id), db.getQuestionsByTest(to.id)]);
+    return diffTestVersions(from, fromQuestions, to, toQuestions) as TestVersionDiff;
+});
+
+export async function getTestVersionDiff(fromTestId: string, toTestId: string): Promise<TestVersionDiff> {
+    return getTestVersionDiffFlow({ fromTestId, toTestId });
+}
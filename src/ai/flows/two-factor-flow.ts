@@ -0,0 +1,194 @@
+'use server';
+/**
+ * @fileOverview TOTP two-factor authentication: enrollment, recovery codes and
+ * the second step of signing in.
+ */
+import { ai } from '@/ai/genkit';
+import { z } from 'zod';
+import QRCode from 'qrcode';
+import { db } from '@/lib/db';
+import { defineAuthorizedFlow } from '@/ai/authorization';
+import { createSession } from '@/lib/session';
+import { hashToken } from '@/lib/tokens';
+import { generateTotpSecret, getTotpProvisioningUri, verifyTotp } from '@/lib/totp';
+import { canSignIn } from '@/lib/user-status';
+import { recordAuditEvent, userTarget } from '@/lib/audit';
+import { assertLoginAllowed, recordLoginFailure, resetLoginFailures } from '@/lib/login-throttle';
+import { getClientIp } from '@/lib/request';
+import {
+    MAX_CHALLENGE_ATTEMPTS,
+    clearTwoFactorChallenge,
+    generateRecoveryCodes,
+    getTwoFactorChallengeToken,
+    isTwoFactorRequired,
+    verifySecondFactor,
+} from '@/lib/two-factor';
+import { TwoFactorEnrollmentSchema, TwoFactorStatusSchema } from '../schemas/two-factor-schemas';
+import { UserOutputSchema } from '../schemas/user-schemas';
+import { UserOutput } from './user-flow';
+
+export type TwoFactorStatus = z.infer<typeof TwoFactorStatusSchema>;
+export type TwoFactorEnrollment = z.infer<typeof TwoFactorEnrollmentSchema>;
+
+// The flows below act on the signed-in user's own account.
+const CodeInputSchema = z.object({ code: z.string() });
+
+
+const getTwoFactorStatusFlow = defineAuthorizedFlow({
+    name: 'getTwoFactorStatusFlow',
+    inputSchema: z.void(),
+    outputSchema: TwoFactorStatusSchema,
+    policy: { roles: ['teacher', 'admin'], allowWithoutTwoFactor: true },
+}, async (_, user) => {
+    const account = await db.getUserWithPasswordById(user.id);
+    return {
+        enabled: !!account?.totp_enabled,
+        required: await isTwoFactorRequired(user.role),
+        recovery_codes_remaining: account?.recovery_code_hashes?.length ?? 0,
+    };
+});
+
+export async function getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    return getTwoFactorStatusFlow();
+}
+
+
+// Starts enrollment with a fresh secret. 2FA isn't active until a code is confirmed.
+const beginTwoFactorEnrollmentFlow = defineAuthorizedFlow({
+    name: 'beginTwoFactorEnrollmentFlow',
+    inputSchema: z.void(),
+    outputSchema: TwoFactorEnrollmentSchema,
+    policy: { roles: ['teacher', 'admin'], allowWithoutTwoFactor: true, denyImpersonation: true },
+}, async (_, user) => {
+    if (user.totp_enabled) {
+        throw new Error('Two-factor authentication is already enabled.');
+    }
+    const secret = generateTotpSecret();
+    await db.updateUser(user.id, { totp_pending_secret: secret });
+    const otpauthUri = getTotpProvisioningUri(secret, user.email);
+    return {
+        secret,
+        otpauth_uri: otpauthUri,
+        qr_code_data_url: await QRCode.toDataURL(otpauthUri),
+    };
+});
+
+export async function beginTwoFactorEnrollment(): Promise<TwoFactorEnrollment> {
+    return beginTwoFactorEnrollmentFlow();
+}
+
+
+// Confirms the authenticator app works and returns the recovery codes, which are shown only once.
+const confirmTwoFactorEnrollmentFlow = defineAuthorizedFlow({
+    name: 'confirmTwoFactorEnrollmentFlow',
+    inputSchema: CodeInputSchema,
+    outputSchema: z.array(z.string()),
+    policy: { roles: ['teacher', 'admin'], allowWithoutTwoFactor: true, denyImpersonation: true },
+}, async ({ code }, user) => {
+    const account = await db.getUserWithPasswordById(user.id);
+    if (!account?.totp_pending_secret) {
+        throw new Error('Start the setup again to get a new QR code.');
+    }
+    if (verifyTotp(account.totp_pending_secret, code) === null) {
+        throw new Error('That code is not correct. Check the time on your device and try again.');
+    }
+    const { codes, hashes } = generateRecoveryCodes();
+    await db.enableTwoFactor(user.id, account.totp_pending_secret, hashes);
+    await recordAuditEvent({ actor: user, action: 'user.two_factor_enable', target: userTarget(user) });
+    return codes;
+});
+
+export async function confirmTwoFactorEnrollment(code: string): Promise<string[]> {
+    return confirmTwoFactorEnrollmentFlow({ code });
+}
+
+
+const regenerateRecoveryCodesFlow = defineAuthorizedFlow({
+    name: 'regenerateRecoveryCodesFlow',
+    inputSchema: CodeInputSchema,
+    outputSchema: z.array(z.string()),
+    policy: { roles: ['teacher', 'admin'], allowWithoutTwoFactor: true, denyImpersonation: true },
+}, async ({ code }, user) => {
+    const account = await db.getUserWithPasswordById(user.id);
+    if (!account || !(await verifySecondFactor(account, code))) {
+        throw new Error('That code is not correct.');
+    }
+    const { codes, hashes } = generateRecoveryCodes();
+    await db.updateUser(user.id, { recovery_code_hashes: hashes });
+    await recordAuditEvent({ actor: user, action: 'user.recovery_codes_regenerate', target: userTarget(user) });
+    return codes;
+});
+
+export async function regenerateRecoveryCodes(code: string): Promise<string[]> {
+    return regenerateRecoveryCodesFlow({ code });
+}
+
+
+const disableTwoFactorFlow = defineAuthorizedFlow({
+    name: 'disableTwoFactorFlow',
+    inputSchema: CodeInputSchema,
+    outputSchema: z.boolean(),
+    policy: { roles: ['teacher', 'admin'], allowWithoutTwoFactor: true, denyImpersonation: true },
+}, async ({ code }, user) => {
+    if (await isTwoFactorRequired(user.role)) {
+        throw new Error(`Two-factor authentication is required for ${user.role} accounts.`);
+    }
+    const account = await db.getUserWithPasswordById(user.id);
+    if (!account || !(await verifySecondFactor(account, code))) {
+        throw new Error('That code is not correct.');
+    }
+    await db.disableTwoFactor(user.id);
+    await recordAuditEvent({ actor: user, action: 'user.two_factor_disable', target: userTarget(user) });
+    return true;
+});
+
+export async function disableTwoFactor(code: string): Promise<boolean> {
+    return disableTwoFactorFlow({ code });
+}
+
+
+// Second step of signing in (public; the challenge token from the first step is the credential)
+const verifyTwoFactorLoginFlow = ai.defineFlow({
+    name: 'verifyTwoFactorLoginFlow',
+    inputSchema: z.object({ challengeToken: z.string(), code: z.string(), ip: z.string() }),
+    outputSchema: UserOutputSchema,
+}, async ({ challengeToken, code, ip }) => {
+    const challenge = await db.getTwoFactorChallengeByTokenHash(hashToken(challengeToken));
+    if (!challenge) {
+        throw new Error('Your sign-in attempt has expired. Please sign in again.');
+    }
+    if (challenge.attempts >= MAX_CHALLENGE_ATTEMPTS) {
+        await db.deleteTwoFactorChallenge(challenge.id);
+        throw new Error('Too many wrong codes. Please sign in again.');
+    }
+
+    const account = await db.getUserWithPasswordById(challenge.user_id);
+    if (!account || !canSignIn(account)) {
+        await db.deleteTwoFactorChallenge(challenge.id);
+        throw new Error('This account can no longer sign in.');
+    }
+    // Signing in again opens a new challenge, so wrong codes also count toward
+    // the account's sign-in throttle and lock.
+    await assertLoginAllowed(account.email, ip);
+    if (!(await verifySecondFactor(account, code))) {
+        await db.incrementTwoFactorChallengeAttempts(challenge.id);
+        await recordLoginFailure(account.email, ip, account);
+        throw new Error('That code is not correct.');
+    }
+
+    await db.deleteTwoFactorChallenge(challenge.id);
+    await resetLoginFailures(account.email);
+    const user = await db.getUserById(account.id);
+    return user as UserOutput;
+});
+
+export async function completeTwoFactorLogin(code: string): Promise<UserOutput> {
+    const challengeToken = await getTwoFactorChallengeToken();
+    if (!challengeToken) {
+        throw new Error('Your sign-in attempt has expired. Please sign in again.');
+    }
+    const user = await verifyTwoFactorLoginFlow({ challengeToken, code, ip: await getClientIp() });
+    await clearTwoFactorChallenge();
+    await createSession(user);
+    return user;
+}
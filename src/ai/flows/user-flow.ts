@@ -1,39 +1,44 @@
 
 'use server';
 /**
- * @fileOverview User management flows for registration and login.
+ * @fileOverview User management flows for registration, login and logout.
  */
 
 import { ai } from '@/ai/genkit';
+import { defineAuthorizedFlow } from '@/ai/authorization';
 import { z } from 'zod';
 import { db } from '@/lib/db';
 import { User } from '@/lib/types';
-import { UserOutputSchema } from '../schemas/user-schemas';
+import { createSession, destroySession, requireUser } from '@/lib/session';
+import { hashPassword, needsRehash, verifyPassword } from '@/lib/password';
+import { getEffectiveStatus, getSignInBlockedMessage } from '@/lib/user-status';
+import { assertLoginAllowed, recordLoginFailure, resetLoginFailures } from '@/lib/login-throttle';
+import { getClientIp } from '@/lib/request';
+import { startTwoFactorChallenge } from '@/lib/two-factor';
+import { isEmailDomainAllowed, sendVerificationEmail } from '@/lib/email-verification';
+import { recordAuditEvent, userTarget } from '@/lib/audit';
+import { enrollmentFields, findCurrentClass } from '@/lib/class-enrollment';
+import { FailedLoginOutputSchema, PasswordSchema, RegisterStudentInputSchema, UserOutputSchema } from '../schemas/user-schemas';
 
 
-// Schema for user registration (only students)
-const RegisterStudentInputSchema = z.object({
-  username: z.string(),
-  email: z.string().email(),
-  role: z.literal('student'),
-  password: z.string(),
-  class: z.string(),
-  section: z.string(),
-});
 export type RegisterStudentInput = z.infer<typeof RegisterStudentInputSchema>;
 
 
 export type UserOutput = z.infer<typeof UserOutputSchema>;
+export type FailedLoginOutput = z.infer<typeof FailedLoginOutputSchema>;
 
 
 // Schema for user login
 const LoginUserInputSchema = z.object({
   email: z.string().email(),
   password: z.string(),
+  role: z.enum(['student', 'teacher', 'admin']),
+  ip: z.string(), // client address, used for throttling
 });
 export type LoginUserInput = z.infer<typeof LoginUserInputSchema>;
 
-// Flow for student registration
+// Flow for student registration (public). The account can sign in straight
+// away but can't take exams until the emailed link is opened.
 const registerStudentFlow = ai.defineFlow(
   {
     name: 'registerStudentFlow',
@@ -45,8 +50,23 @@ const registerStudentFlow = ai.defineFlow(
     if (existingUser) {
       throw new Error('User with this email already exists.');
     }
+    if (!(await isEmailDomainAllowed(input.email))) {
+      throw new Error('Registration is limited to school email addresses. Please use your school email.');
+    }
+    const schoolClass = await findCurrentClass(input.class, input.section);
+    if (!schoolClass) {
+      throw new Error('Please choose one of the listed classes.');
+    }
     // Explicitly set the role to student for security
-    const newUser = await db.createUser({ ...input, role: 'student' });
+    const newUser = await db.createUser({
+      ...input,
+      ...enrollmentFields(schoolClass),
+      role: 'student',
+      email_verified: false,
+      password: await hashPassword(input.password),
+    });
+    await sendVerificationEmail(newUser);
+    await recordAuditEvent({ actor: newUser, action: 'user.register', target: userTarget(newUser), after: newUser });
     return newUser;
   }
 );
@@ -55,33 +75,7 @@ export async function registerStudent(input: RegisterStudentInput): Promise<User
   return registerStudentFlow(input);
 }
 
-// Schema for creating a teacher (admin only)
-const CreateTeacherInputSchema = z.object({
-    username: z.string(),
-    email: z.string().email(),
-});
-export type CreateTeacherInput = z.infer<typeof CreateTeacherInputSchema>;
-
-// Flow for creating a teacher
-const createTeacherFlow = ai.defineFlow({
-    name: 'createTeacherFlow',
-    inputSchema: CreateTeacherInputSchema,
-    outputSchema: UserOutputSchema,
-}, async (input) => {
-    const existingUser = await db.getUserByEmail(input.email);
-    if (existingUser) {
-        throw new Error('Teacher with this email already exists.');
-    }
-    const newTeacher = await db.createUser({ ...input, role: 'teacher', password: 'password' }); // Default password
-    return newTeacher;
-});
-
-export async function createTeacher(input: CreateTeacherInput): Promise<UserOutput> {
-    return createTeacherFlow(input);
-}
-
-
-// Flow for user login
+// Flow for user login (public)
 const loginUserFlow = ai.defineFlow(
   {
     name: 'loginUserFlow',
@@ -89,23 +83,64 @@ const loginUserFlow = ai.defineFlow(
     outputSchema: z.union([UserOutputSchema, z.null()]),
   },
   async (input) => {
-    const user = await db.getUserByEmail(input.email);
-    if (!user || user.password !== input.password) {
+    await assertLoginAllowed(input.email, input.ip);
+    const user = await db.getUserWithPasswordByEmail(input.email);
+    if (!user || user.role !== input.role || !(await verifyPassword(input.password, user.password))) {
+        await recordLoginFailure(input.email, input.ip, user);
         return null;
     }
-    return user;
+    // Only reveal the account status once the password has been proven
+    const blockedMessage = getSignInBlockedMessage(user);
+    if (blockedMessage) {
+        throw new Error(blockedMessage);
+    }
+    if (user.status === 'locked' && getEffectiveStatus(user) !== 'locked') {
+        // The lock has expired
+        await db.unlockUser(user.id);
+    }
+    // With 2FA the count is only reset once the code is accepted too, so wrong
+    // codes add to the same throttle and lock as wrong passwords.
+    if (!user.totp_enabled) {
+        await resetLoginFailures(input.email);
+    }
+    // Upgrade plaintext or outdated hashes now that we know the password
+    if (needsRehash(user.password!)) {
+        await db.updateUser(user.id, { password: await hashPassword(input.password) });
+    }
+    const { password, totp_secret, totp_pending_secret, totp_last_used_step, recovery_code_hashes, ...publicUser } = user;
+    return publicUser;
   }
 );
 
-export async function loginUser(input: LoginUserInput): Promise<UserOutput | null> {
-    return loginUserFlow(input);
+// Accounts with 2FA get a pending challenge instead of a session; the sign-in is
+// finished by completeTwoFactorLogin in two-factor-flow.
+export type LoginResult =
+  | { status: 'signed_in'; user: UserOutput }
+  | { status: 'two_factor_required' };
+
+export async function loginUser(input: Omit<LoginUserInput, 'ip'>): Promise<LoginResult | null> {
+    const user = await loginUserFlow({ ...input, ip: await getClientIp() });
+    if (!user) {
+        return null;
+    }
+    if (user.totp_enabled) {
+        await startTwoFactorChallenge(user.id);
+        return { status: 'two_factor_required' };
+    }
+    await createSession(user);
+    return { status: 'signed_in', user };
+}
+
+export async function logoutUser(): Promise<void> {
+    await destroySession();
 }
 
 // Flow to get all teachers
-const getTeachersFlow = ai.defineFlow({
+const getTeachersFlow = defineAuthorizedFlow({
     name: 'getTeachersFlow',
     inputSchema: z.void(),
     outputSchema: z.array(UserOutputSchema),
+    policy: { roles: ['admin'] },
 }, async () => {
     const teachers = await db.getUsersByRole('teacher');
     return teachers;
@@ -115,11 +150,12 @@ export async function getTeachers(): Promise<UserOutput[]> {
     return getTeachersFlow();
 }
 
-// Flow to get all students
-const getStudentsFlow = ai.defineFlow({
+// Flow to get all students. Teachers use it to assign tests to individual students.
+const getStudentsFlow = defineAuthorizedFlow({
     name: 'getStudentsFlow',
     inputSchema: z.void(),
     outputSchema: z.array(UserOutputSchema),
+    policy: { roles: ['admin', 'teacher'] },
 }, async () => {
     const students = await db.getUsersByRole('student');
     return students;
@@ -140,51 +176,84 @@ const UpdateUserInputSchema = z.object({
 export type UpdateUserInput = z.infer<typeof UpdateUserInputSchema>;
 
 // Flow for updating a user
-const updateUserFlow = ai.defineFlow({
+const updateUserFlow = defineAuthorizedFlow({
     name: 'updateUserFlow',
     inputSchema: UpdateUserInputSchema,
     outputSchema: UserOutputSchema,
-}, async ({ id, ...updateData }) => {
-    const updatedUser = await db.updateUser(id, updateData);
+    // Users edit their own profile; admins may edit anyone's. The name and
+    // picture are shown to others, so muted users can't change them.
+    policy: { allow: ({ id }, user) => id === user.id || user.role === 'admin', denyMuted: true, denyImpersonation: true },
+}, async ({ id, ...updateData }, user) => {
+    const before = await db.getUserById(id);
+    if (!before) {
+        throw new Error('User not found.');
+    }
+    const emailChanged = !!updateData.email && updateData.email !== before.email;
+    if (emailChanged) {
+        // Emails match regardless of case, so changing only the case finds the user themselves.
+        const taken = await db.getUserByEmail(updateData.email!);
+        if (taken && taken.id !== id) {
+            throw new Error('User with this email already exists.');
+        }
+        if (!(await isEmailDomainAllowed(updateData.email!))) {
+            throw new Error('Please use your school email address.');
+        }
+    }
+    // A student's new address has to be confirmed before they can take exams again.
+    const reverify = emailChanged && before.role === 'student';
+    const updatedUser = await db.updateUser(id, { ...updateData, ...(reverify && { email_verified: false }) });
+    if (reverify) {
+        await sendVerificationEmail(updatedUser);
+    }
+    await recordAuditEvent({ actor: user, action: 'user.update', target: userTarget(updatedUser), before, after: updatedUser });
     return updatedUser;
 });
 
-export async function updateUser(input: UpdateUserInput): Promise<UserOutput> {
-    return updateUserFlow(input);
+export async function updateUser(input: Omit<UpdateUserInput, 'id'>): Promise<UserOutput> {
+    const user = await requireUser();
+    return updateUserFlow({ ...input, id: user.id });
 }
 
 // Schema for updating password
 const UpdatePasswordInputSchema = z.object({
   userId: z.string(),
   currentPassword: z.string(),
-  newPassword: z.string(),
+  newPassword: PasswordSchema,
 });
 export type UpdatePasswordInput = z.infer<typeof UpdatePasswordInputSchema>;
 
 // Flow for updating password
-const updatePasswordFlow = ai.defineFlow({
+const updatePasswordFlow = defineAuthorizedFlow({
     name: 'updatePasswordFlow',
     inputSchema: UpdatePasswordInputSchema,
     outputSchema: z.boolean(),
-}, async ({ userId, currentPassword, newPassword }) => {
-    const user = await db.getUserById(userId);
-    if (!user || user.password !== currentPassword) {
+    policy: { allow: ({ userId }, user) => userId === user.id, denyImpersonation: true },
+}, async ({ userId, currentPassword, newPassword }, actor) => {
+    const user = await db.getUserWithPasswordById(userId);
+    if (!user || !(await verifyPassword(currentPassword, user.password))) {
         throw new Error('Current password is not correct.');
     }
-    await db.updateUser(userId, { password: newPassword });
+    await db.updateUser(userId, { password: await hashPassword(newPassword) });
+    await recordAuditEvent({ actor, action: 'user.password_change', target: userTarget(user) });
     return true;
 });
 
-export async function updatePassword(input: UpdatePasswordInput): Promise<boolean> {
-    return updatePasswordFlow(input);
+export async function updatePassword(input: Omit<UpdatePasswordInput, 'userId'>): Promise<boolean> {
+    const user = await requireUser();
+    return updatePasswordFlow({ ...input, userId: user.id });
 }
 
 
 // Flow for getting a user by ID
-const getUserByIdFlow = ai.defineFlow({
+const getUserByIdFlow = defineAuthorizedFlow({
     name: 'getUserByIdFlow',
     inputSchema: z.object({ id: z.string() }),
     outputSchema: z.union([UserOutputSchema, z.null()]),
+    // Students may only look up themselves and teachers (e.g. to show who set a test).
+    policy: {
+        allow: async ({ id }, user) =>
+            user.role !== 'student' || id === user.id || (await db.getUserById(id))?.role === 'teacher',
+    },
 }, async ({ id }) => {
     const user = await db.getUserById(id);
     return user;
@@ -199,14 +268,23 @@ export async function getUserById(id: string): Promise<UserOutput | null> {
 const UpdateUserStatusInputSchema = z.object({
     userId: z.string(),
     status: z.enum(['active', 'banned', 'muted', 'locked']),
+    // Only used with 'locked'; the account unlocks itself at this time.
+    lockedUntil: z.string().datetime().optional(),
 });
 
-const updateUserStatusFlow = ai.defineFlow({
+const updateUserStatusFlow = defineAuthorizedFlow({
     name: 'updateUserStatusFlow',
     inputSchema: UpdateUserStatusInputSchema,
     outputSchema: UserOutputSchema,
-}, async ({ userId, status }) => {
-    const updatedUser = await db.updateUser(userId, { status });
+    policy: { roles: ['admin'] },
+}, async ({ userId, status, lockedUntil }, admin) => {
+    const before = await db.getUserById(userId);
+    const updatedUser = await db.setUserStatus(userId, status, status === 'locked' ? lockedUntil : undefined);
+    if (status === 'banned' || status === 'locked') {
+        // Sign the user out everywhere
+        await db.deleteSessionsByUser(userId);
+    }
+    await recordAuditEvent({ actor: admin, action: 'user.status_change', target: userTarget(updatedUser), before, after: updatedUser });
     return updatedUser;
 });
 
@@ -216,18 +294,57 @@ export async function updateUserStatus(input: z.infer<typeof UpdateUserStatusInp
 
 const AdminUpdatePasswordInputSchema = z.object({
     userId: z.string(),
-    newPassword: z.string(),
+    newPassword: PasswordSchema,
 });
 
-const adminUpdatePasswordFlow = ai.defineFlow({
+const adminUpdatePasswordFlow = defineAuthorizedFlow({
     name: 'adminUpdatePasswordFlow',
     inputSchema: AdminUpdatePasswordInputSchema,
     outputSchema: z.boolean(),
-}, async ({ userId, newPassword }) => {
-    await db.updateUser(userId, { password: newPassword });
+    policy: { roles: ['admin'] },
+}, async ({ userId, newPassword }, admin) => {
+    const user = await db.updateUser(userId, { password: await hashPassword(newPassword) });
+    await recordAuditEvent({ actor: admin, action: 'user.password_reset', target: userTarget(user) });
     return true;
 });
 
 export async function adminUpdatePassword(input: z.infer<typeof AdminUpdatePasswordInputSchema>): Promise<boolean> {
     return adminUpdatePasswordFlow(input);
 }
+
+
+// Flow for listing failed sign-ins over the last day, newest first
+const getRecentFailedLoginsFlow = defineAuthorizedFlow({
+    name: 'getRecentFailedLoginsFlow',
+    inputSchema: z.void(),
+    outputSchema: z.array(FailedLoginOutputSchema),
+    policy: { roles: ['admin'] },
+}, async () => {
+    const failedLogins = await db.getFailedLogins({}, new Date(Date.now() - 24 * 60 * 60 * 1000), 500);
+    return failedLogins.map(({ cleared_at, ...failedLogin }) => ({
+        ...failedLogin,
+        created_at: failedLogin.created_at.toISOString(),
+    }));
+});
+
+export async function getRecentFailedLogins(): Promise<FailedLoginOutput[]> {
+    return getRecentFailedLoginsFlow();
+}
+
+// Unlocking also clears the failure count so the next wrong password doesn't lock the account again.
+const unlockUserFlow = defineAuthorizedFlow({
+    name: 'unlockUserFlow',
+    inputSchema: z.object({ userId: z.string() }),
+    outputSchema: UserOutputSchema,
+    policy: { roles: ['admin'] },
+}, async ({ userId }, admin) => {
+    const before = await db.getUserById(userId);
+    const updatedUser = await db.unlockUser(userId);
+    await resetLoginFailures(updatedUser.email);
+    await recordAuditEvent({ actor: admin, action: 'user.unlock', target: userTarget(updatedUser), before, after: updatedUser });
+    return updatedUser as UserOutput;
+});
+
+export async function unlockUser(userId: string): Promise<UserOutput> {
+    return unlockUserFlow({ userId });
+}
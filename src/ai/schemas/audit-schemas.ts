@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+export const AuditEventOutputSchema = z.object({
+  id: z.string(),
+  actor_id: z.string().nullable(),
+  actor_name: z.string(),
+  actor_role: z.enum(['student', 'teacher', 'admin']).optional(),
+  action: z.string(),
+  target_type: z.string(),
+  target_id: z.string(),
+  target_label: z.string().optional(),
+  changes: z.record(z.object({ before: z.unknown(), after: z.unknown() })).optional(),
+  impersonator_id: z.string().optional(),
+  ip: z.string(),
+  created_at: z.string(),
+});
+
+export const AuditEventFilterSchema = z.object({
+  actor: z.string().optional(), // name or user id
+  action: z.string().optional(),
+  targetType: z.string().optional(),
+  target: z.string().optional(), // label or id
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+});
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+export const ClassOutputSchema = z.object({
+  id: z.string(),
+  grade: z.string(),
+  section: z.string(),
+  academic_year: z.string(),
+  name: z.string(), // e.g. "10-A"
+  homeroom_teacher_id: z.string().optional(),
+  homeroom_teacher_name: z.string().optional(),
+  student_count: z.number(),
+});
+
+// What the sign-up form needs to offer a class; no staff or enrollment details.
+export const ClassOptionSchema = z.object({
+  id: z.string(),
+  grade: z.string(),
+  section: z.string(),
+  name: z.string(),
+});
+
+export const ClassInputSchema = z.object({
+  grade: z.string().min(1, "Grade is required."),
+  section: z.string().min(1, "Section is required."),
+  academic_year: z.string().regex(/^\d{4}-\d{2}$/, "Use the form 2025-26."),
+  homeroom_teacher_id: z.string().optional(),
+});
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+export const InvitationOutputSchema = z.object({
+  id: z.string(),
+  email: z.string().email(),
+  username: z.string(),
+  created_at: z.string(),
+  expires_at: z.string(),
+  expired: z.boolean(),
+});
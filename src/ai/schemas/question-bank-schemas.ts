@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { checkQuestionFields, QuestionFieldsSchema } from './question-schemas';
+
+export const BankQuestionOutputSchema = z.object({
+  id: z.string(),
+  owner_id: z.string(),
+  owner_name: z.string(),
+  editable: z.boolean(), // Whether the signed-in teacher owns it
+  shared: z.boolean(),
+  subject: z.string(),
+  tags: z.array(z.string()),
+  difficulty: z.enum(['easy', 'medium', 'hard']),
+  question_text: z.string(),
+  type: z.enum(['mcq', 'multi_select', 'subjective']),
+  marks: z.number(),
+  answer_format: z.enum(['text', 'image']).optional(),
+  options: z.array(z.string()).optional(),
+  correct_answer: z.string().optional(),
+  correct_answers: z.array(z.string()).optional(),
+  scoring: z.enum(['all_or_nothing', 'partial', 'penalty']).optional(),
+  image_url: z.string().optional(),
+  created_at: z.string(),
+  // How the question has done in tests that used it
+  usage: z.object({
+    test_count: z.number(),
+    answer_count: z.number(),
+    correct_rate: z.number().nullable(), // percentage, MCQs only
+  }),
+});
+
+export const BankQuestionFilterSchema = z.object({
+  search: z.string().optional(),
+  subject: z.string().optional(),
+  tag: z.string().optional(),
+  difficulty: z.enum(['easy', 'medium', 'hard']).optional(),
+  type: z.enum(['mcq', 'multi_select', 'subjective']).optional(),
+  ownOnly: z.boolean().optional(),
+});
+
+export const BankQuestionInputSchema = QuestionFieldsSchema.extend({
+  subject: z.string().min(1, "Subject is required."),
+  tags: z.array(z.string().trim().min(1)).max(10, "Use at most 10 tags."),
+  difficulty: z.enum(['easy', 'medium', 'hard']),
+  shared: z.boolean(),
+}).superRefine(checkQuestionFields);
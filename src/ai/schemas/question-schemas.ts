@@ -6,8 +6,11 @@ const QuestionBaseSchema = z.object({
   test_id: z.string(),
   question_text: z.string(),
   marks: z.coerce.number().int().positive(),
-  type: z.enum(['mcq', 'subjective']),
+  type: z.enum(['mcq', 'multi_select', 'subjective']),
   image_url: z.string().optional(),
+  pool_id: z.string().optional(),
+  difficulty: z.enum(['easy', 'medium', 'hard']).optional(),
+  tags: z.array(z.string()).optional(),
 });
 
 // Schema for Multiple Choice Questions, extending the base
@@ -17,6 +20,14 @@ const McqQuestionSchema = QuestionBaseSchema.extend({
   correct_answer: z.string(),
 });
 
+// Schema for "select all that apply" questions, extending the base
+const MultiSelectQuestionSchema = QuestionBaseSchema.extend({
+  type: z.literal('multi_select'),
+  options: z.array(z.string()).min(2, "Multi-select questions must have at least 2 options."),
+  correct_answers: z.array(z.string()).min(1),
+  scoring: z.enum(['all_or_nothing', 'partial', 'penalty']),
+});
+
 // Schema for Subjective Questions, extending the base
 const SubjectiveQuestionSchema = QuestionBaseSchema.extend({
   type: z.literal('subjective'),
@@ -24,4 +35,58 @@ const SubjectiveQuestionSchema = QuestionBaseSchema.extend({
 });
 
 // Union schema for any question type
-export const QuestionOutputSchema = z.union([McqQuestionSchema, SubjectiveQuestionSchema]);
+export const QuestionOutputSchema = z.union([McqQuestionSchema, MultiSelectQuestionSchema, SubjectiveQuestionSchema]);
+
+// A question as a student taking the test gets it: without the answer key or scoring rule
+export const StudentQuestionOutputSchema = z.union([
+  McqQuestionSchema.omit({ correct_answer: true }),
+  MultiSelectQuestionSchema.omit({ correct_answers: true, scoring: true }),
+  SubjectiveQuestionSchema,
+]);
+
+export const UpdateQuestionResultSchema = z.object({
+  question: QuestionOutputSchema,
+  // Submissions whose MCQ score changed because the correct answer did.
+  rescored_submissions: z.number(),
+});
+
+// Fields of a question, as the teacher fills them in
+export const QuestionFieldsSchema = z.object({
+  question_text: z.string(),
+  marks: z.coerce.number().int().positive("Marks must be a positive number."),
+  type: z.enum(['mcq', 'multi_select', 'subjective']),
+  answer_format: z.enum(['text', 'image']).optional(),
+  options: z.array(z.string()).optional(),
+  correct_answer: z.string().optional(),
+  correct_answers: z.array(z.string()).optional(),
+  scoring: z.enum(['all_or_nothing', 'partial', 'penalty']).optional(),
+  image_url: z.string().optional(),
+  // Used to stratify question pools
+  difficulty: z.enum(['easy', 'medium', 'hard']).optional(),
+  tags: z.array(z.string().trim().toLowerCase().min(1)).optional(),
+});
+
+// The rules shared by new and edited questions, in tests and in the question bank
+export function checkQuestionFields(data: z.infer<typeof QuestionFieldsSchema>, ctx: z.RefinementCtx) {
+  if (data.type === 'mcq' && !(data.options && data.options.length >= 2 && data.correct_answer)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "MCQs require options and a correct answer.", path: ['type'] });
+  }
+  if (data.type === 'mcq' && data.correct_answer && !data.options?.includes(data.correct_answer)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "The correct answer must be one of the options.", path: ['correct_answer'] });
+  }
+  if (data.type === 'multi_select' && !(data.options && data.options.length >= 2 && data.correct_answers?.length)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Multi-select questions require options and at least one correct answer.", path: ['type'] });
+  }
+  if (data.type === 'multi_select' && data.correct_answers?.some(answer => !data.options?.includes(answer))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Every correct answer must be one of the options.", path: ['correct_answers'] });
+  }
+  if (data.type === 'multi_select' && !data.scoring) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Multi-select questions require a scoring rule.", path: ['scoring'] });
+  }
+  if (data.type === 'subjective' && !data.question_text && !data.image_url) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Subjective questions require either text or an image.", path: ['type'] });
+  }
+  if (data.type === 'subjective' && !data.answer_format) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Subjective questions require an answer format.", path: ['answer_format'] });
+  }
+}
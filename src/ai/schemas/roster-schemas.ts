@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+export const RosterRowResultSchema = z.object({
+  line: z.number(), // line in the file; the header is line 1
+  username: z.string(),
+  email: z.string(),
+  class: z.string(),
+  section: z.string(),
+  action: z.enum(['create', 'update', 'skip', 'error']),
+  changes: z.array(z.string()).optional(), // fields an update changes
+  message: z.string().optional(),
+});
+
+export const RosterImportResultSchema = z.object({
+  committed: z.boolean(), // false for a dry run
+  rows: z.array(RosterRowResultSchema),
+});
@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export const SessionOutputSchema = z.object({
+  id: z.string(),
+  created_at: z.string(),
+  last_seen_at: z.string().optional(),
+  expires_at: z.string(),
+  user_agent: z.string().optional(),
+  ip: z.string().optional(),
+  current: z.boolean(), // the session making the request
+});
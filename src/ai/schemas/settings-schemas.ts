@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+export const SecuritySettingsSchema = z.object({
+  require_two_factor_roles: z.array(z.enum(['teacher', 'admin'])),
+});
+
+export const ExamSettingsSchema = z.object({
+  submission_grace_minutes: z.coerce.number().int().min(0).max(120),
+});
+
+export const RegistrationSettingsSchema = z.object({
+  allowed_email_domains: z.array(z.string()),
+});
@@ -1,4 +1,12 @@
 import { z } from 'zod';
+import { QuestionOutputSchema } from './question-schemas';
+
+export const QuestionPoolSchema = z.object({
+    id: z.string().min(1),
+    name: z.string().min(1, "Name the pool."),
+    draw_count: z.coerce.number().int().positive("Draw at least one question."),
+    stratify_by: z.enum(['difficulty', 'tag']).optional(),
+});
 
 export const TestOutputSchema = z.object({
     id: z.string(),
@@ -7,4 +15,26 @@ export const TestOutputSchema = z.object({
     subject: z.string(),
     time_limit: z.number(),
     created_by: z.string(),
+    status: z.enum(['draft', 'published', 'closed', 'archived']).optional(),
+    assigned_class_ids: z.array(z.string()).optional(),
+    assigned_student_ids: z.array(z.string()).optional(),
+    opens_at: z.string().optional(),
+    closes_at: z.string().optional(),
+    version_group_id: z.string().optional(),
+    version: z.number().optional(),
+    created_at: z.string().optional(),
+    question_pools: z.array(QuestionPoolSchema).optional(),
+    shuffle_questions: z.boolean().optional(),
+    shuffle_options: z.boolean().optional(),
+});
+
+// Compares two versions of a test; see diffTestVersions.
+export const TestVersionDiffSchema = z.object({
+    details: z.array(z.object({ field: z.string(), before: z.string(), after: z.string() })),
+    questions: z.array(z.object({
+        change: z.enum(['added', 'removed', 'changed', 'unchanged']),
+        before: QuestionOutputSchema.optional(),
+        after: QuestionOutputSchema.optional(),
+        changed_fields: z.array(z.string()),
+    })),
 });
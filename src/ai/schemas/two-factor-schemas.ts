@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+export const TwoFactorStatusSchema = z.object({
+  enabled: z.boolean(),
+  required: z.boolean(), // the user's role must use 2FA, so it can't be turned off
+  recovery_codes_remaining: z.number(),
+});
+
+export const TwoFactorEnrollmentSchema = z.object({
+  secret: z.string(),
+  otpauth_uri: z.string(),
+  qr_code_data_url: z.string(),
+});
@@ -7,6 +7,35 @@ export const UserOutputSchema = z.object({
   role: z.enum(['student', 'teacher', 'admin']),
   profile_pic_url: z.string().optional(),
   status: z.enum(['active', 'banned', 'muted', 'locked']).optional().default('active'),
+  locked_until: z.string().optional(),
+  status_before_lock: z.enum(['active', 'banned', 'muted']).optional(),
   class: z.string().optional(),
   section: z.string().optional(),
+  class_id: z.string().optional(),
+  totp_enabled: z.boolean().optional(),
+  email_verified: z.boolean().optional(),
+});
+
+// Password strength rules, shared by the sign-up and password forms and the flows.
+export const PasswordSchema = z.string()
+  .min(8, "Password must be at least 8 characters.")
+  .regex(/[a-zA-Z]/, "Password must contain a letter.")
+  .regex(/[0-9]/, "Password must contain a number.");
+
+// Schema for user registration (only students). The roster import checks each row against it too.
+export const RegisterStudentInputSchema = z.object({
+  username: z.string().min(2, "Username must be at least 2 characters."),
+  email: z.string().email("Invalid email address."),
+  role: z.literal('student'),
+  password: PasswordSchema,
+  class: z.string().min(1, "Class is required."),
+  section: z.string().min(1, "Section is required."),
+});
+
+export const FailedLoginOutputSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  user_id: z.string().optional(),
+  ip: z.string(),
+  created_at: z.string(),
 });
@@ -0,0 +1,254 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { getAuditEvents, exportAuditEvents, AuditEventOutput, AuditEventFilter } from "@/ai/flows/audit-flow";
+import type { AuditAction } from "@/lib/types";
+import { Download, Search } from "lucide-react";
+
+const actionLabels: Record<AuditAction, string> = {
+  "user.register": "Registered",
+  "user.update": "Profile updated",
+  "user.password_change": "Password changed",
+  "user.password_reset": "Password reset",
+  "user.status_change": "Status changed",
+  "user.unlock": "Account unlocked",
+  "user.email_verify": "Email verified",
+  "user.sso_link": "SSO account linked",
+  "user.sso_provision": "SSO account created",
+  "user.two_factor_enable": "2FA enabled",
+  "user.two_factor_disable": "2FA disabled",
+  "user.recovery_codes_regenerate": "Recovery codes regenerated",
+  "session.revoke": "Signed out",
+  "invitation.create": "Teacher invited",
+  "invitation.resend": "Invitation resent",
+  "invitation.revoke": "Invitation revoked",
+  "invitation.accept": "Invitation accepted",
+  "test.create": "Test created",
+  "test.update": "Test edited",
+  "test.duplicate": "Test duplicated",
+  "test.version_create": "Test version created",
+  "test.status_change": "Test status changed",
+  "test.delete": "Test deleted",
+  "question.create": "Question created",
+  "question.update": "Question edited",
+  "question.delete": "Question deleted",
+  "bank_question.create": "Bank question created",
+  "bank_question.update": "Bank question edited",
+  "bank_question.delete": "Bank question deleted",
+  "submission.submit": "Test submitted",
+  "submission.grade": "Submission graded",
+  "submission.rescore": "Submission re-scored",
+  "settings.update": "Settings changed",
+  "impersonation.start": "Started viewing as user",
+  "impersonation.stop": "Stopped viewing as user",
+  "class.create": "Class created",
+  "class.update": "Class updated",
+  "class.delete": "Class deleted",
+  "class.enroll": "Student enrolled",
+  "class.unenroll": "Student unenrolled",
+};
+
+const ALL = "all";
+
+type Filters = {
+  actor: string;
+  action: string;
+  target: string;
+  from: string; // yyyy-mm-dd
+  to: string;
+};
+
+const emptyFilters: Filters = { actor: "", action: ALL, target: "", from: "", to: "" };
+
+// Date inputs are local days; the range includes the whole of the "to" day.
+function toFlowFilter(filters: Filters): AuditEventFilter {
+  return {
+    actor: filters.actor.trim() || undefined,
+    action: filters.action === ALL ? undefined : filters.action,
+    target: filters.target.trim() || undefined,
+    from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+    to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined,
+  };
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "—";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+export default function AuditLogPage() {
+  const [events, setEvents] = useState<AuditEventOutput[]>([]);
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const { toast } = useToast();
+
+  async function fetchEvents(current: Filters) {
+    try {
+      setLoading(true);
+      setEvents(await getAuditEvents(toFlowFilter(current)));
+    } catch (error) {
+      console.error("Failed to fetch audit events:", error);
+      toast({ variant: "destructive", title: "Error", description: "Could not fetch the audit log." });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchEvents(emptyFilters);
+  }, []);
+
+  const updateFilter = (key: keyof Filters, value: string) => setFilters(previous => ({ ...previous, [key]: value }));
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      const { csv, count, truncated } = await exportAuditEvents(toFlowFilter(filters));
+      const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+      if (truncated) {
+        toast({
+          title: "Export Incomplete",
+          description: `Only the newest ${count.toLocaleString()} matching events were exported. Narrow the filters or date range to export the rest.`,
+        });
+      }
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Export Failed", description: error.message });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="mb-8">
+        <h2 className="text-3xl font-bold font-headline">Audit Log</h2>
+        <p className="text-muted-foreground">Who changed what, and when. Entries cannot be edited or deleted.</p>
+      </div>
+
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle>Filters</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="grid gap-4 md:grid-cols-3 lg:grid-cols-6 items-end"
+            onSubmit={(e) => { e.preventDefault(); fetchEvents(filters); }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="audit-actor">Actor</Label>
+              <Input id="audit-actor" placeholder="Name or user ID" value={filters.actor} onChange={e => updateFilter("actor", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select value={filters.action} onValueChange={value => updateFilter("action", value)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All actions</SelectItem>
+                  {Object.entries(actionLabels).map(([action, label]) => (
+                    <SelectItem key={action} value={action}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-target">Target</Label>
+              <Input id="audit-target" placeholder="Email, title or ID" value={filters.target} onChange={e => updateFilter("target", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input id="audit-from" type="date" value={filters.from} onChange={e => updateFilter("from", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input id="audit-to" type="date" value={filters.to} onChange={e => updateFilter("to", e.target.value)} />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={loading}>
+                <Search className="mr-2 h-4 w-4" />
+                Apply
+              </Button>
+              <Button type="button" variant="outline" onClick={handleExport} disabled={exporting}>
+                <Download className="mr-2 h-4 w-4" />
+                {exporting ? "Exporting..." : "CSV"}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Events</CardTitle>
+          <CardDescription>The newest 500 matching events. Export to CSV for the full list.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p>Loading audit log...</p>
+          ) : events.length === 0 ? (
+            <p className="text-muted-foreground">No events match these filters.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead>Changes</TableHead>
+                  <TableHead>IP</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(event.created_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <p className="font-medium">{event.actor_name}</p>
+                      {event.actor_role && <p className="text-xs text-muted-foreground capitalize">{event.actor_role}</p>}
+                      {event.impersonator_id && <Badge variant="secondary" className="mt-1">Via admin</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{actionLabels[event.action as AuditAction] ?? event.action}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <p>{event.target_label ?? event.target_id}</p>
+                      <p className="text-xs text-muted-foreground capitalize">{event.target_type.replace("_", " ")}</p>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {event.changes ? (
+                        <ul className="space-y-1">
+                          {Object.entries(event.changes).map(([field, change]) => (
+                            <li key={field}>
+                              <span className="font-mono">{field}</span>: {formatValue(change.before)} → {formatValue(change.after)}
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{event.ip}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { getClassRoster, enrollStudents, unenrollStudent, ClassOutput } from "@/ai/flows/class-flow";
+import { getStudents, UserOutput as Student } from "@/ai/flows/user-flow";
+import { ArrowLeft, UserMinus, UserPlus } from "lucide-react";
+
+export default function ClassRosterPage({ params }: { params: { classId: string } }) {
+  const [schoolClass, setSchoolClass] = useState<ClassOutput | null>(null);
+  const [enrolled, setEnrolled] = useState<Student[]>([]);
+  const [allStudents, setAllStudents] = useState<Student[]>([]);
+  const [selectedStudentId, setSelectedStudentId] = useState("");
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  async function fetchRoster() {
+    try {
+      setLoading(true);
+      const [roster, students] = await Promise.all([getClassRoster(params.classId), getStudents()]);
+      setSchoolClass(roster?.class ?? null);
+      setEnrolled(roster?.students ?? []);
+      setAllStudents(students);
+    } catch (error) {
+      console.error("Failed to fetch class:", error);
+      toast({ variant: "destructive", title: "Error", description: "Could not fetch this class." });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchRoster();
+  }, [params.classId]);
+
+  const candidates = allStudents.filter(student => student.class_id !== params.classId);
+
+  const handleEnroll = async () => {
+    const student = candidates.find(candidate => candidate.id === selectedStudentId);
+    if (!student) return;
+    try {
+      await enrollStudents(params.classId, [student.id]);
+      toast({ title: "Student Enrolled", description: `${student.username} is now in class ${schoolClass?.name}.` });
+      setSelectedStudentId("");
+      fetchRoster();
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    }
+  };
+
+  const handleUnenroll = async (student: Student) => {
+    try {
+      await unenrollStudent(student.id);
+      toast({ title: "Student Unenrolled", description: `${student.username} has been removed from class ${schoolClass?.name}.` });
+      fetchRoster();
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    }
+  };
+
+  if (!loading && !schoolClass) {
+    return <p>Class not found.</p>;
+  }
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h2 className="text-3xl font-bold font-headline">Class {schoolClass?.name}</h2>
+          <p className="text-muted-foreground">
+            {schoolClass?.academic_year}
+            {schoolClass?.homeroom_teacher_name && ` · Homeroom teacher: ${schoolClass.homeroom_teacher_name}`}
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/admin/classes">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Classes
+          </Link>
+        </Button>
+      </div>
+
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle>Enroll a Student</CardTitle>
+          <CardDescription>Students already in another class are moved to this one.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Select value={selectedStudentId} onValueChange={setSelectedStudentId}>
+            <SelectTrigger className="max-w-md">
+              <SelectValue placeholder="Select a student" />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map(student => (
+                <SelectItem key={student.id} value={student.id}>
+                  {student.username} ({student.email}){student.class && ` · currently ${student.class}-${student.section}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+        <CardFooter>
+          <Button onClick={handleEnroll} disabled={!selectedStudentId}>
+            <UserPlus className="mr-2 h-4 w-4" />
+            Enroll
+          </Button>
+        </CardFooter>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Students</CardTitle>
+          <CardDescription>{enrolled.length} enrolled.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p>Loading students...</p>
+          ) : enrolled.length === 0 ? (
+            <p className="text-muted-foreground">No students are enrolled in this class yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {enrolled.map((student) => (
+                  <TableRow key={student.id}>
+                    <TableCell className="font-medium">{student.username}</TableCell>
+                    <TableCell>{student.email}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" onClick={() => handleUnenroll(student)}>
+                        <UserMinus className="mr-2 h-4 w-4" />
+                        Unenroll
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,280 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { getClasses, createClass, updateClass, deleteClass, ClassOutput } from "@/ai/flows/class-flow";
+import { getTeachers, UserOutput as Teacher } from "@/ai/flows/user-flow";
+import { ClassInputSchema } from "@/ai/schemas/class-schemas";
+import { getAcademicYear } from "@/lib/classes";
+import { Pencil, PlusCircle, Trash2, Users } from "lucide-react";
+
+const NO_TEACHER = "none";
+
+type FormValues = z.infer<typeof ClassInputSchema>;
+
+export default function ManageClassesPage() {
+  const [classes, setClasses] = useState<ClassOutput[]>([]);
+  const [teachers, setTeachers] = useState<Teacher[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingClass, setEditingClass] = useState<ClassOutput | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [classToDelete, setClassToDelete] = useState<ClassOutput | null>(null);
+  const { toast } = useToast();
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(ClassInputSchema),
+    defaultValues: { grade: "", section: "", academic_year: getAcademicYear(), homeroom_teacher_id: NO_TEACHER },
+  });
+
+  async function fetchClasses() {
+    try {
+      setLoading(true);
+      const [fetchedClasses, fetchedTeachers] = await Promise.all([getClasses(), getTeachers()]);
+      setClasses(fetchedClasses);
+      setTeachers(fetchedTeachers);
+    } catch (error) {
+      console.error("Failed to fetch classes:", error);
+      toast({ variant: "destructive", title: "Error", description: "Could not fetch classes." });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    fetchClasses();
+  }, []);
+
+  const openDialog = (schoolClass: ClassOutput | null) => {
+    setEditingClass(schoolClass);
+    form.reset({
+      grade: schoolClass?.grade ?? "",
+      section: schoolClass?.section ?? "",
+      academic_year: schoolClass?.academic_year ?? getAcademicYear(),
+      homeroom_teacher_id: schoolClass?.homeroom_teacher_id ?? NO_TEACHER,
+    });
+    setIsDialogOpen(true);
+  };
+
+  async function onSubmit(values: FormValues) {
+    const input = {
+      ...values,
+      homeroom_teacher_id: values.homeroom_teacher_id === NO_TEACHER ? undefined : values.homeroom_teacher_id,
+    };
+    try {
+      const saved = editingClass ? await updateClass(editingClass.id, input) : await createClass(input);
+      toast({
+        title: editingClass ? "Class Updated" : "Class Created",
+        description: `Class ${saved.name} (${saved.academic_year}) has been saved.`,
+      });
+      setIsDialogOpen(false);
+      fetchClasses();
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Could Not Save Class", description: error.message });
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!classToDelete) return;
+    try {
+      await deleteClass(classToDelete.id);
+      toast({ title: "Class Deleted", description: `Class ${classToDelete.name} has been removed.` });
+      fetchClasses();
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    } finally {
+      setClassToDelete(null);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h2 className="text-3xl font-bold font-headline">Classes</h2>
+          <p className="text-muted-foreground">Set up each grade and section for the academic year and enroll students.</p>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <PlusCircle className="mr-2 h-4 w-4" />
+          Add Class
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Classes</CardTitle>
+          <CardDescription>Students can only sign up for classes in the current academic year ({getAcademicYear()}).</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p>Loading classes...</p>
+          ) : classes.length === 0 ? (
+            <p className="text-muted-foreground">No classes yet. Add one to let students sign up.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Class</TableHead>
+                  <TableHead>Academic Year</TableHead>
+                  <TableHead>Homeroom Teacher</TableHead>
+                  <TableHead>Students</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {classes.map((schoolClass) => (
+                  <TableRow key={schoolClass.id}>
+                    <TableCell className="font-medium">{schoolClass.name}</TableCell>
+                    <TableCell>{schoolClass.academic_year}</TableCell>
+                    <TableCell>{schoolClass.homeroom_teacher_name ?? <span className="text-muted-foreground">None</span>}</TableCell>
+                    <TableCell>{schoolClass.student_count}</TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button variant="outline" size="sm" asChild>
+                        <Link href={`/admin/classes/${schoolClass.id}`}>
+                          <Users className="mr-2 h-4 w-4" />
+                          Students
+                        </Link>
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => openDialog(schoolClass)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive hover:text-destructive"
+                        disabled={schoolClass.student_count > 0}
+                        onClick={() => setClassToDelete(schoolClass)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingClass ? `Edit Class ${editingClass.name}` : "Add a Class"}</DialogTitle>
+            <DialogDescription>
+              Grades are 1 to 12; "X" or "10th" are saved as 10. Enrolled students follow any change to the grade or section.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="grade"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Grade</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., 10" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="section"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Section</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., A" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="academic_year"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Academic Year</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., 2025-26" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="homeroom_teacher_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Homeroom Teacher</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_TEACHER}>None</SelectItem>
+                        {teachers.map(teacher => (
+                          <SelectItem key={teacher.id} value={teacher.id}>{teacher.username}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? "Saving..." : "Save Class"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!classToDelete} onOpenChange={(open) => !open && setClassToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete class {classToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The class for {classToDelete?.academic_year} will be removed. It has no students enrolled.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className={buttonVariants({ variant: "destructive" })}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
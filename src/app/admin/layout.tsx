@@ -1,25 +1,42 @@
-
+import { redirect } from "next/navigation";
 import { DashboardLayout } from "@/components/dashboard-layout";
+import { Forbidden } from "@/components/forbidden";
+import { TwoFactorSetupRequired } from "@/components/two-factor-settings";
+import { getCurrentUser } from "@/lib/session";
+import { isTwoFactorSetupRequired } from "@/lib/two-factor";
 
-export default function AdminLayout({
+export default async function AdminLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/login?role=admin");
+  }
+  if (user.role !== "admin") {
+    return <Forbidden homeHref={`/${user.role}/dashboard`} />;
+  }
+
   const navItems = [
     { href: "/admin/dashboard", label: "Dashboard", icon: "LayoutDashboard" },
     { href: "/admin/teachers", label: "Manage Teachers", icon: "UserCog" },
     { href: "/admin/students", label: "Manage Students", icon: "Users" },
+    { href: "/admin/classes", label: "Classes", icon: "School" },
     { href: "/admin/tests", label: "Manage Tests", icon: "BookCopy" },
+    { href: "/admin/audit", label: "Audit Log", icon: "ScrollText" },
+    { href: "/admin/settings", label: "Settings", icon: "Settings" },
   ];
 
   return (
     <DashboardLayout
       navItems={navItems}
-      userName="Admin User"
+      userName={user.username}
+      userEmail={user.email}
       userRole="Admin"
     >
-      {children}
+      {/* Nothing else is usable until a required 2FA enrollment is finished */}
+      {(await isTwoFactorSetupRequired(user)) ? <TwoFactorSetupRequired /> : children}
     </DashboardLayout>
   );
 }
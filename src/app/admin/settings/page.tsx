@@ -0,0 +1,211 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getSecuritySettings,
+  updateSecuritySettings,
+  getRegistrationSettings,
+  updateRegistrationSettings,
+  getExamSettings,
+  updateExamSettings,
+  SecuritySettingsOutput,
+} from "@/ai/flows/settings-flow";
+
+type TwoFactorRole = SecuritySettingsOutput['require_two_factor_roles'][number];
+
+const twoFactorRoles: { role: TwoFactorRole; label: string; description: string }[] = [
+  { role: "admin", label: "Require for admins", description: "Admins can reset any password and delete any test." },
+  { role: "teacher", label: "Require for teachers", description: "Teachers can create, grade and delete their tests." },
+];
+
+export default function AdminSettingsPage() {
+  const [settings, setSettings] = useState<SecuritySettingsOutput | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [allowedDomains, setAllowedDomains] = useState<string | null>(null);
+  const [savingDomains, setSavingDomains] = useState(false);
+  const [graceMinutes, setGraceMinutes] = useState<string | null>(null);
+  const [savingGrace, setSavingGrace] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    async function fetchSettings() {
+      try {
+        const [security, registration, exams] = await Promise.all([
+          getSecuritySettings(),
+          getRegistrationSettings(),
+          getExamSettings(),
+        ]);
+        setSettings(security);
+        setAllowedDomains(registration.allowed_email_domains.join("\n"));
+        setGraceMinutes(String(exams.submission_grace_minutes));
+      } catch (error) {
+        console.error("Failed to fetch settings:", error);
+        toast({ variant: "destructive", title: "Error", description: "Could not fetch settings." });
+      }
+    }
+    fetchSettings();
+  }, [toast]);
+
+  const handleToggle = async (role: TwoFactorRole, required: boolean) => {
+    if (!settings) return;
+    const roles = required
+      ? [...settings.require_two_factor_roles, role]
+      : settings.require_two_factor_roles.filter(r => r !== role);
+    try {
+      setSaving(true);
+      setSettings(await updateSecuritySettings({ ...settings, require_two_factor_roles: roles }));
+      toast({
+        title: "Settings Saved",
+        description: required
+          ? `Every ${role} must now use two-factor authentication.`
+          : `Two-factor authentication is now optional for ${role}s.`,
+      });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Update Failed", description: error.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveDomains = async () => {
+    if (allowedDomains === null) return;
+    try {
+      setSavingDomains(true);
+      const registration = await updateRegistrationSettings({
+        allowed_email_domains: allowedDomains.split(/[\s,]+/),
+      });
+      setAllowedDomains(registration.allowed_email_domains.join("\n"));
+      toast({
+        title: "Settings Saved",
+        description: registration.allowed_email_domains.length > 0
+          ? "Students can only register with the listed email domains."
+          : "Students can register with any email address.",
+      });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Update Failed", description: error.message });
+    } finally {
+      setSavingDomains(false);
+    }
+  };
+
+  const handleSaveGrace = async () => {
+    if (graceMinutes === null) return;
+    try {
+      setSavingGrace(true);
+      const exams = await updateExamSettings({ submission_grace_minutes: Number(graceMinutes) });
+      setGraceMinutes(String(exams.submission_grace_minutes));
+      toast({
+        title: "Settings Saved",
+        description: `Submissions are accepted up to ${exams.submission_grace_minutes} minutes after a test closes.`,
+      });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Update Failed", description: "Enter a whole number of minutes from 0 to 120." });
+    } finally {
+      setSavingGrace(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8 max-w-2xl">
+      <Card>
+        <CardHeader>
+          <CardTitle>Two-Factor Authentication</CardTitle>
+          <CardDescription>
+            Teachers and admins can always turn on two-factor authentication from their profile. Requiring it makes
+            everyone with that role set it up before they can use ExamZen.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {!settings ? (
+            <p>Loading settings...</p>
+          ) : (
+            twoFactorRoles.map(({ role, label, description }) => (
+              <div key={role} className="flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor={`require-2fa-${role}`}>{label}</Label>
+                  <p className="text-sm text-muted-foreground">{description}</p>
+                </div>
+                <Switch
+                  id={`require-2fa-${role}`}
+                  checked={settings.require_two_factor_roles.includes(role)}
+                  disabled={saving}
+                  onCheckedChange={(checked) => handleToggle(role, checked)}
+                />
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Student Registration</CardTitle>
+          <CardDescription>
+            New students must confirm their email address before taking exams. To only accept your school&apos;s
+            addresses, list the allowed email domains below, one per line. Leave it empty to accept any address.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {allowedDomains === null ? (
+            <p>Loading settings...</p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="allowed-domains">Allowed email domains</Label>
+                <Textarea
+                  id="allowed-domains"
+                  placeholder={"school.edu\nstudents.school.edu"}
+                  value={allowedDomains}
+                  onChange={(e) => setAllowedDomains(e.target.value)}
+                />
+              </div>
+              <Button onClick={handleSaveDomains} disabled={savingDomains}>
+                {savingDomains ? "Saving..." : "Save Domains"}
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Exams</CardTitle>
+          <CardDescription>
+            Teachers can give a test opening and closing times. Students who started before it closed can still
+            submit during the grace period, e.g. while their answers upload.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {graceMinutes === null ? (
+            <p>Loading settings...</p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="grace-minutes">Grace period (minutes)</Label>
+                <Input
+                  id="grace-minutes"
+                  type="number"
+                  min={0}
+                  max={120}
+                  className="max-w-[10rem]"
+                  value={graceMinutes}
+                  onChange={(e) => setGraceMinutes(e.target.value)}
+                />
+              </div>
+              <Button onClick={handleSaveGrace} disabled={savingGrace}>
+                {savingGrace ? "Saving..." : "Save Grace Period"}
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
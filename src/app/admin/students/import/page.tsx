@@ -0,0 +1,183 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { previewRosterImport, commitRosterImport, RosterImportResult, RosterRowResult } from "@/ai/flows/roster-import-flow";
+import { toCsv } from "@/lib/csv";
+import { ArrowLeft, Download, FileUp } from "lucide-react";
+
+const TEMPLATE_HEADER = ["username", "email", "class", "section", "password"];
+
+function downloadCsv(fileName: string, csv: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const getActionBadge = (row: RosterRowResult) => {
+  switch (row.action) {
+    case "create": return <Badge className="bg-green-600 hover:bg-green-700">Create</Badge>;
+    case "update": return <Badge className="bg-blue-600 hover:bg-blue-700">Update</Badge>;
+    case "skip": return <Badge variant="secondary">Skip</Badge>;
+    default: return <Badge variant="destructive">Error</Badge>;
+  }
+};
+
+export default function ImportStudentsPage() {
+  const [csv, setCsv] = useState<string | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [result, setResult] = useState<RosterImportResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const counts = (result?.rows ?? []).reduce(
+    (totals, row) => ({ ...totals, [row.action]: totals[row.action] + 1 }),
+    { create: 0, update: 0, skip: 0, error: 0 } as Record<RosterRowResult["action"], number>
+  );
+
+  const handleFileChange = async (file: File | undefined) => {
+    setResult(null);
+    if (!file) {
+      setCsv(null);
+      return;
+    }
+    setFileName(file.name);
+    setCsv(await file.text());
+  };
+
+  const run = async (action: (csv: string) => Promise<RosterImportResult>) => {
+    if (!csv) return;
+    try {
+      setBusy(true);
+      const imported = await action(csv);
+      setResult(imported);
+      if (imported.committed) {
+        toast({ title: "Roster Imported", description: "Download the report for the outcome of every row." });
+      }
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Import Failed", description: error.message });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDownloadReport = () => {
+    if (!result) return;
+    downloadCsv(
+      `roster-${result.committed ? "import" : "preview"}-report.csv`,
+      toCsv(
+        ["line", "username", "email", "class", "section", "result", "changes", "message"],
+        result.rows.map(row => [
+          row.line, row.username, row.email, row.class, row.section, row.action, row.changes?.join(" "), row.message,
+        ])
+      )
+    );
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h2 className="text-3xl font-bold font-headline">Import Students</h2>
+          <p className="text-muted-foreground">Create or update student accounts from a CSV roster.</p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/admin/students">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Students
+          </Link>
+        </Button>
+      </div>
+
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle>Roster File</CardTitle>
+          <CardDescription>
+            Columns: username, email, class, section and an optional password. Students are matched by email:
+            new emails are created, existing students have their name and class updated. The class and section must
+            match a class set up for this academic year. Students imported without a password are emailed a link to
+            choose one.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2 max-w-md">
+            <Label htmlFor="roster-file">CSV file</Label>
+            <Input id="roster-file" type="file" accept=".csv,text/csv" onChange={e => handleFileChange(e.target.files?.[0])} />
+          </div>
+          <Button variant="link" className="px-0" onClick={() => downloadCsv("roster-template.csv", toCsv(TEMPLATE_HEADER, []))}>
+            Download a template
+          </Button>
+        </CardContent>
+        <CardFooter className="gap-2">
+          <Button onClick={() => run(previewRosterImport)} disabled={!csv || busy}>
+            <FileUp className="mr-2 h-4 w-4" />
+            {busy && !result ? "Checking..." : "Preview Import"}
+          </Button>
+        </CardFooter>
+      </Card>
+
+      {result && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{result.committed ? "Import Results" : "Preview"} — {fileName}</CardTitle>
+            <CardDescription>
+              {counts.create} to create, {counts.update} to update, {counts.skip} unchanged, {counts.error} with errors.
+              {!result.committed && " Nothing has been saved yet. Rows with errors will be left out."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Line</TableHead>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Class</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.rows.map((row) => (
+                  <TableRow key={row.line}>
+                    <TableCell>{row.line}</TableCell>
+                    <TableCell>
+                      <p className="font-medium">{row.username || "—"}</p>
+                      <p className="text-xs text-muted-foreground">{row.email || "—"}</p>
+                    </TableCell>
+                    <TableCell>{row.class}{row.section && ` - ${row.section}`}</TableCell>
+                    <TableCell>{getActionBadge(row)}</TableCell>
+                    <TableCell className="text-sm">
+                      {row.changes && <p>Changes: {row.changes.join(", ")}</p>}
+                      {row.message && <p className="text-muted-foreground">{row.message}</p>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+          <CardFooter className="gap-2">
+            {!result.committed && (
+              <Button onClick={() => run(commitRosterImport)} disabled={busy || counts.create + counts.update === 0}>
+                {busy ? "Importing..." : `Import ${counts.create + counts.update} Students`}
+              </Button>
+            )}
+            <Button variant="outline" onClick={handleDownloadReport}>
+              <Download className="mr-2 h-4 w-4" />
+              Download Report
+            </Button>
+          </CardFooter>
+        </Card>
+      )}
+    </>
+  );
+}
@@ -2,6 +2,8 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -17,6 +19,9 @@ import {
   DropdownMenuItem,
   DropdownMenuLabel,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import {
@@ -30,13 +35,26 @@ import {
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
-import { getStudents, updateUserStatus, adminUpdatePassword, UserOutput } from "@/ai/flows/user-flow";
-import { MoreHorizontal, Ban, MicOff, Lock, KeyRound, ShieldCheck, UserCheck, Mic, LockOpen, CheckCircle } from "lucide-react";
+import { getStudents, updateUserStatus, adminUpdatePassword, getRecentFailedLogins, unlockUser, UserOutput, FailedLoginOutput } from "@/ai/flows/user-flow";
+import { PasswordSchema } from "@/ai/schemas/user-schemas";
+import { adminResendVerificationEmail, forceVerifyEmail } from "@/ai/flows/email-verification-flow";
+import { signOutUserEverywhere } from "@/ai/flows/session-flow";
+import { impersonateUser } from "@/ai/flows/impersonation-flow";
+import { getEffectiveStatus, isEmailVerified } from "@/lib/user-status";
+import { MoreHorizontal, Ban, MicOff, Lock, KeyRound, ShieldCheck, UserCheck, Mic, LockOpen, CheckCircle, Mail, MailCheck, LogOut, Eye, Upload } from "lucide-react";
 
 type Student = UserOutput;
 
+// Lock durations offered in the actions menu; null locks until an admin unlocks.
+const lockDurations: { label: string; hours: number | null }[] = [
+  { label: "For 1 hour", hours: 1 },
+  { label: "For 24 hours", hours: 24 },
+  { label: "For 7 days", hours: 24 * 7 },
+  { label: "Until unlocked", hours: null },
+];
+
 const passwordFormSchema = z.object({
-  newPassword: z.string().min(6, "Password must be at least 6 characters."),
+  newPassword: PasswordSchema,
   confirmPassword: z.string(),
 }).refine(data => data.newPassword === data.confirmPassword, {
   message: "Passwords do not match.",
@@ -47,10 +65,12 @@ type PasswordFormValues = z.infer<typeof passwordFormSchema>;
 
 export default function ManageStudentsPage() {
   const [students, setStudents] = useState<Student[]>([]);
+  const [failedLogins, setFailedLogins] = useState<FailedLoginOutput[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
   const [isPasswordDialogOpen, setIsPasswordDialogOpen] = useState(false);
   const { toast } = useToast();
+  const router = useRouter();
 
   const passwordForm = useForm<PasswordFormValues>({
     resolver: zodResolver(passwordFormSchema),
@@ -60,8 +80,11 @@ export default function ManageStudentsPage() {
   async function fetchStudents() {
     try {
       setLoading(true);
-      const fetchedStudents = await getStudents();
-      setStudents(fetchedStudents);
+      const [fetchedStudents, fetchedFailedLogins] = await Promise.all([getStudents(), getRecentFailedLogins()]);
+      // Show expired locks as active
+      setStudents(fetchedStudents.map(s => ({ ...s, status: getEffectiveStatus(s) })));
+      const studentIds = new Set(fetchedStudents.map(s => s.id));
+      setFailedLogins(fetchedFailedLogins.filter(f => f.user_id && studentIds.has(f.user_id)));
     } catch (error) {
       console.error("Failed to fetch students:", error);
       toast({ variant: "destructive", title: "Error", description: "Could not fetch students." });
@@ -74,9 +97,10 @@ export default function ManageStudentsPage() {
     fetchStudents();
   }, []);
 
-  const handleStatusChange = async (userId: string, status: Student['status']) => {
+  const handleStatusChange = async (userId: string, status: Student['status'], lockHours?: number | null) => {
     try {
-      await updateUserStatus({ userId, status: status! });
+      const lockedUntil = lockHours ? new Date(Date.now() + lockHours * 60 * 60 * 1000).toISOString() : undefined;
+      await updateUserStatus({ userId, status: status!, lockedUntil });
       toast({ title: "Status Updated", description: `User status has been changed to ${status}.` });
       fetchStudents(); // Refresh list
     } catch (error: any) {
@@ -84,6 +108,54 @@ export default function ManageStudentsPage() {
     }
   };
 
+  const handleUnlock = async (student: Student) => {
+    try {
+      await unlockUser(student.id);
+      toast({ title: "Account Unlocked", description: `${student.username} can sign in again.` });
+      fetchStudents(); // Refresh list
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Unlock Failed", description: error.message });
+    }
+  };
+
+  const handleResendVerification = async (student: Student) => {
+    try {
+      await adminResendVerificationEmail(student.id);
+      toast({ title: "Verification Email Sent", description: `A new link was sent to ${student.email}.` });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Could Not Send Email", description: error.message });
+    }
+  };
+
+  const handleForceVerify = async (student: Student) => {
+    try {
+      await forceVerifyEmail(student.id);
+      toast({ title: "Email Verified", description: `${student.username} can now take exams.` });
+      fetchStudents(); // Refresh list
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Update Failed", description: error.message });
+    }
+  };
+
+  const handleSignOutEverywhere = async (student: Student) => {
+    try {
+      const count = await signOutUserEverywhere(student.id);
+      toast({ title: "Signed Out Everywhere", description: `${count} session${count === 1 ? "" : "s"} ended for ${student.username}.` });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Sign Out Failed", description: error.message });
+    }
+  };
+
+  const handleImpersonate = async (student: Student) => {
+    try {
+      const role = await impersonateUser(student.id);
+      router.push(`/${role}/dashboard`);
+      router.refresh();
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Could Not View as Student", description: error.message });
+    }
+  };
+
   const handlePasswordUpdate = async (values: PasswordFormValues) => {
     if (!selectedStudent) return;
     try {
@@ -96,160 +168,277 @@ export default function ManageStudentsPage() {
     }
   };
   
-  const getStatusBadge = (status: Student['status']) => {
-    switch (status) {
+  const getStatusBadge = (student: Student) => {
+    switch (student.status) {
       case 'banned': return <Badge variant="destructive">Banned</Badge>;
       case 'muted': return <Badge variant="secondary" className="bg-yellow-500 text-black hover:bg-yellow-600">Muted</Badge>;
-      case 'locked': return <Badge className="bg-orange-500 hover:bg-orange-600">Locked</Badge>;
+      case 'locked': return (
+        <div className="space-y-1">
+          <Badge className="bg-orange-500 hover:bg-orange-600">Locked</Badge>
+          {student.locked_until && (
+            <p className="text-xs text-muted-foreground">Until {new Date(student.locked_until).toLocaleString()}</p>
+          )}
+          <Button variant="outline" size="sm" className="h-7" onClick={() => handleUnlock(student)}>
+            <LockOpen className="mr-1 h-3 w-3" />
+            Unlock
+          </Button>
+        </div>
+      );
       default: return <Badge className="bg-green-600 hover:bg-green-700">Active</Badge>;
     }
   };
 
+  const getFailedLoginSummary = (student: Student) => {
+    const attempts = failedLogins.filter(f => f.user_id === student.id);
+    if (attempts.length === 0) return <span className="text-muted-foreground">None</span>;
+    return (
+      <div>
+        <p className="font-medium">{attempts.length}</p>
+        <p className="text-xs text-muted-foreground">Last {new Date(attempts[0].created_at).toLocaleString()}</p>
+      </div>
+    );
+  };
+
   return (
-    <Card>
-      <CardHeader>
-        <CardTitle>Manage Students</CardTitle>
-        <CardDescription>View all registered students and manage their accounts.</CardDescription>
-      </CardHeader>
-      <CardContent>
-        {loading ? (
-          <p>Loading students...</p>
-        ) : (
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Student</TableHead>
-                <TableHead>Email</TableHead>
-                <TableHead>Status</TableHead>
-                <TableHead className="text-right">Actions</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {students.map((student) => (
-                <TableRow key={student.id}>
-                  <TableCell className="font-medium">
-                    <div className="flex items-center gap-3">
-                      <Avatar>
-                        <AvatarImage src={student.profile_pic_url} alt={student.username} />
-                        <AvatarFallback>{student.username.charAt(0)}</AvatarFallback>
-                      </Avatar>
-                      {student.username}
-                    </div>
-                  </TableCell>
-                  <TableCell>{student.email}</TableCell>
-                  <TableCell>{getStatusBadge(student.status)}</TableCell>
-                  <TableCell className="text-right">
-                    <DropdownMenu>
-                      <DropdownMenuTrigger asChild>
-                        <Button variant="ghost" className="h-8 w-8 p-0">
-                          <span className="sr-only">Open menu</span>
-                          <MoreHorizontal className="h-4 w-4" />
-                        </Button>
-                      </DropdownMenuTrigger>
-                      <DropdownMenuContent align="end">
-                        <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                         {student.status === 'banned' && (
-                            <DropdownMenuItem onClick={() => handleStatusChange(student.id, 'active')}>
-                                <CheckCircle className="mr-2 h-4 w-4" />
-                                <span>Unban</span>
-                            </DropdownMenuItem>
-                        )}
-                         {student.status === 'muted' && (
-                            <DropdownMenuItem onClick={() => handleStatusChange(student.id, 'active')}>
-                                <Mic className="mr-2 h-4 w-4" />
-                                <span>Unmute</span>
-                            </DropdownMenuItem>
-                        )}
-                         {student.status === 'locked' && (
-                            <DropdownMenuItem onClick={() => handleStatusChange(student.id, 'active')}>
-                                <LockOpen className="mr-2 h-4 w-4" />
-                                <span>Unlock</span>
-                            </DropdownMenuItem>
-                        )}
-                        
-                        {student.status === 'active' && (
-                            <>
-                                <DropdownMenuSeparator />
-                                <DropdownMenuLabel>Restrict</DropdownMenuLabel>
-                                <DropdownMenuItem onClick={() => handleStatusChange(student.id, 'muted')}>
-                                  <MicOff className="mr-2 h-4 w-4" />
-                                  <span>Mute</span>
-                                </DropdownMenuItem>
-                                <DropdownMenuItem onClick={() => handleStatusChange(student.id, 'locked')}>
-                                  <Lock className="mr-2 h-4 w-4" />
-                                  <span>Lock</span>
-                                </DropdownMenuItem>
-                                <DropdownMenuItem onClick={() => handleStatusChange(student.id, 'banned')} className="text-destructive focus:text-destructive">
-                                  <Ban className="mr-2 h-4 w-4" />
-                                  <span>Ban</span>
-                                </DropdownMenuItem>
-                            </>
-                        )}
-
-                        <DropdownMenuSeparator />
-                         <DropdownMenuItem onClick={() => {
-                          setSelectedStudent(student);
-                          passwordForm.reset();
-                          setIsPasswordDialogOpen(true);
-                        }}>
-                          <KeyRound className="mr-2 h-4 w-4" />
-                          <span>Change Password</span>
-                        </DropdownMenuItem>
-                      </DropdownMenuContent>
-                    </DropdownMenu>
-                  </TableCell>
+    <>
+      <Card className="mb-8">
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle>Manage Students</CardTitle>
+              <CardDescription>View all registered students and manage their accounts.</CardDescription>
+            </div>
+            <Button variant="outline" asChild>
+              <Link href="/admin/students/import">
+                <Upload className="mr-2 h-4 w-4" />
+                Import CSV
+              </Link>
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p>Loading students...</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Class</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Failed Logins (24h)</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {students.map((student) => (
+                  <TableRow key={student.id}>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-3">
+                        <Avatar>
+                          <AvatarImage src={student.profile_pic_url} alt={student.username} />
+                          <AvatarFallback>{student.username.charAt(0)}</AvatarFallback>
+                        </Avatar>
+                        {student.username}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {student.email}
+                      {!isEmailVerified(student) && (
+                        <div><Badge variant="outline" className="mt-1">Unverified</Badge></div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {student.class_id
+                        ? `${student.class}-${student.section}`
+                        : <Badge variant="outline">Not enrolled</Badge>}
+                    </TableCell>
+                    <TableCell>{getStatusBadge(student)}</TableCell>
+                    <TableCell>{getFailedLoginSummary(student)}</TableCell>
+                    <TableCell className="text-right">
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" className="h-8 w-8 p-0">
+                            <span className="sr-only">Open menu</span>
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                           {student.status === 'banned' && (
+                              <DropdownMenuItem onClick={() => handleStatusChange(student.id, 'active')}>
+                                  <CheckCircle className="mr-2 h-4 w-4" />
+                                  <span>Unban</span>
+                              </DropdownMenuItem>
+                          )}
+                           {student.status === 'muted' && (
+                              <DropdownMenuItem onClick={() => handleStatusChange(student.id, 'active')}>
+                                  <Mic className="mr-2 h-4 w-4" />
+                                  <span>Unmute</span>
+                              </DropdownMenuItem>
+                          )}
+                           {student.status === 'locked' && (
+                              <DropdownMenuItem onClick={() => handleUnlock(student)}>
+                                  <LockOpen className="mr-2 h-4 w-4" />
+                                  <span>Unlock</span>
+                              </DropdownMenuItem>
+                          )}
+                          
+                          {student.status === 'active' && (
+                              <>
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuLabel>Restrict</DropdownMenuLabel>
+                                  <DropdownMenuItem onClick={() => handleStatusChange(student.id, 'muted')}>
+                                    <MicOff className="mr-2 h-4 w-4" />
+                                    <span>Mute</span>
+                                  </DropdownMenuItem>
+                                  <DropdownMenuSub>
+                                    <DropdownMenuSubTrigger>
+                                      <Lock className="mr-2 h-4 w-4" />
+                                      <span>Lock</span>
+                                    </DropdownMenuSubTrigger>
+                                    <DropdownMenuSubContent>
+                                      {lockDurations.map(({ label, hours }) => (
+                                        <DropdownMenuItem key={label} onClick={() => handleStatusChange(student.id, 'locked', hours)}>
+                                          {label}
+                                        </DropdownMenuItem>
+                                      ))}
+                                    </DropdownMenuSubContent>
+                                  </DropdownMenuSub>
+                                  <DropdownMenuItem onClick={() => handleStatusChange(student.id, 'banned')} className="text-destructive focus:text-destructive">
+                                    <Ban className="mr-2 h-4 w-4" />
+                                    <span>Ban</span>
+                                  </DropdownMenuItem>
+                              </>
+                          )}
+
+                          {!isEmailVerified(student) && (
+                              <>
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuLabel>Email</DropdownMenuLabel>
+                                  <DropdownMenuItem onClick={() => handleResendVerification(student)}>
+                                    <Mail className="mr-2 h-4 w-4" />
+                                    <span>Resend Verification</span>
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem onClick={() => handleForceVerify(student)}>
+                                    <MailCheck className="mr-2 h-4 w-4" />
+                                    <span>Mark as Verified</span>
+                                  </DropdownMenuItem>
+                              </>
+                          )}
+
+                          <DropdownMenuSeparator />
+                           <DropdownMenuItem onClick={() => {
+                            setSelectedStudent(student);
+                            passwordForm.reset();
+                            setIsPasswordDialogOpen(true);
+                          }}>
+                            <KeyRound className="mr-2 h-4 w-4" />
+                            <span>Change Password</span>
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => handleImpersonate(student)}>
+                            <Eye className="mr-2 h-4 w-4" />
+                            <span>View as Student</span>
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => handleSignOutEverywhere(student)}>
+                            <LogOut className="mr-2 h-4 w-4" />
+                            <span>Sign Out Everywhere</span>
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+
+        <Dialog open={isPasswordDialogOpen} onOpenChange={setIsPasswordDialogOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Change Password for {selectedStudent?.username}</DialogTitle>
+              <DialogDescription>
+                Enter a new password for the user. They will not be notified of this change.
+              </DialogDescription>
+            </DialogHeader>
+            <Form {...passwordForm}>
+              <form onSubmit={passwordForm.handleSubmit(handlePasswordUpdate)} className="space-y-4 py-4">
+                <FormField
+                  control={passwordForm.control}
+                  name="newPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={passwordForm.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm New Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <DialogFooter>
+                  <Button type="submit" disabled={passwordForm.formState.isSubmitting}>
+                    {passwordForm.formState.isSubmitting ? "Updating..." : "Update Password"}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Failed Sign-ins</CardTitle>
+          <CardDescription>
+            Wrong passwords entered for student accounts in the last 24 hours. Repeated failures lock the account automatically.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p>Loading attempts...</p>
+          ) : failedLogins.length === 0 ? (
+            <p className="text-muted-foreground">No failed sign-ins in the last 24 hours.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Student</TableHead>
+                  <TableHead>IP Address</TableHead>
                 </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        )}
-      </CardContent>
-
-      <Dialog open={isPasswordDialogOpen} onOpenChange={setIsPasswordDialogOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Change Password for {selectedStudent?.username}</DialogTitle>
-            <DialogDescription>
-              Enter a new password for the user. They will not be notified of this change.
-            </DialogDescription>
-          </DialogHeader>
-          <Form {...passwordForm}>
-            <form onSubmit={passwordForm.handleSubmit(handlePasswordUpdate)} className="space-y-4 py-4">
-              <FormField
-                control={passwordForm.control}
-                name="newPassword"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>New Password</FormLabel>
-                    <FormControl>
-                      <Input type="password" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              <FormField
-                control={passwordForm.control}
-                name="confirmPassword"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Confirm New Password</FormLabel>
-                    <FormControl>
-                      <Input type="password" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              <DialogFooter>
-                <Button type="submit" disabled={passwordForm.formState.isSubmitting}>
-                  {passwordForm.formState.isSubmitting ? "Updating..." : "Update Password"}
-                </Button>
-              </DialogFooter>
-            </form>
-          </Form>
-        </DialogContent>
-      </Dialog>
-    </Card>
+              </TableHeader>
+              <TableBody>
+                {failedLogins.map((attempt) => (
+                  <TableRow key={attempt.id}>
+                    <TableCell>{new Date(attempt.created_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      {students.find(s => s.id === attempt.user_id)?.username ?? attempt.email}
+                      <p className="text-xs text-muted-foreground">{attempt.email}</p>
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{attempt.ip}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </>
   );
 }
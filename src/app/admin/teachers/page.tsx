@@ -2,6 +2,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -21,8 +22,12 @@ import {
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
-import { getTeachers, createTeacher, UserOutput as Teacher } from "@/ai/flows/user-flow";
-import { PlusCircle } from "lucide-react";
+import { getTeachers, UserOutput as Teacher } from "@/ai/flows/user-flow";
+import { signOutUserEverywhere } from "@/ai/flows/session-flow";
+import { impersonateUser } from "@/ai/flows/impersonation-flow";
+import { inviteTeacher, getPendingInvitations, resendInvitation, revokeInvitation, InvitationOutput } from "@/ai/flows/invitation-flow";
+import { Badge } from "@/components/ui/badge";
+import { Eye, LogOut, PlusCircle, Send, XCircle } from "lucide-react";
 
 const formSchema = z.object({
   username: z.string().min(2, "Username is required."),
@@ -33,9 +38,11 @@ type FormValues = z.infer<typeof formSchema>;
 
 export default function ManageTeachersPage() {
   const [teachers, setTeachers] = useState<Teacher[]>([]);
+  const [invitations, setInvitations] = useState<InvitationOutput[]>([]);
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const { toast } = useToast();
+  const router = useRouter();
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -48,8 +55,12 @@ export default function ManageTeachersPage() {
   async function fetchTeachers() {
     try {
       setLoading(true);
-      const fetchedTeachers = await getTeachers();
+      const [fetchedTeachers, fetchedInvitations] = await Promise.all([
+        getTeachers(),
+        getPendingInvitations(),
+      ]);
       setTeachers(fetchedTeachers);
+      setInvitations(fetchedInvitations);
     } catch (error) {
       console.error("Failed to fetch teachers:", error);
       toast({ variant: "destructive", title: "Error", description: "Could not fetch teachers." });
@@ -64,10 +75,10 @@ export default function ManageTeachersPage() {
 
   async function onSubmit(values: FormValues) {
     try {
-      await createTeacher(values);
+      await inviteTeacher(values);
       toast({
-        title: "Teacher Created",
-        description: `An account for ${values.username} has been created.`,
+        title: "Invitation Sent",
+        description: `${values.username} has been emailed a link to set up their account.`,
       });
       setIsDialogOpen(false);
       form.reset();
@@ -75,31 +86,70 @@ export default function ManageTeachersPage() {
     } catch (error: any) {
       toast({
         variant: "destructive",
-        title: "Creation Failed",
+        title: "Invitation Failed",
         description: error.message || "An unexpected error occurred.",
       });
     }
   }
 
+  const handleResend = async (invitation: InvitationOutput) => {
+    try {
+      await resendInvitation(invitation.id);
+      toast({ title: "Invitation Resent", description: `A new link has been sent to ${invitation.email}.` });
+      fetchTeachers();
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Resend Failed", description: error.message });
+    }
+  };
+
+  const handleRevoke = async (invitation: InvitationOutput) => {
+    try {
+      await revokeInvitation(invitation.id);
+      toast({ title: "Invitation Revoked", description: `The link sent to ${invitation.email} no longer works.` });
+      fetchTeachers();
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Revoke Failed", description: error.message });
+    }
+  };
+
+  const handleSignOutEverywhere = async (teacher: Teacher) => {
+    try {
+      const count = await signOutUserEverywhere(teacher.id);
+      toast({ title: "Signed Out Everywhere", description: `${count} session${count === 1 ? "" : "s"} ended for ${teacher.username}.` });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Sign Out Failed", description: error.message });
+    }
+  };
+
+  const handleImpersonate = async (teacher: Teacher) => {
+    try {
+      const role = await impersonateUser(teacher.id);
+      router.push(`/${role}/dashboard`);
+      router.refresh();
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Could Not View as Teacher", description: error.message });
+    }
+  };
+
   return (
     <>
       <div className="flex items-center justify-between mb-8">
         <div>
           <h2 className="text-3xl font-bold font-headline">Manage Teachers</h2>
-          <p className="text-muted-foreground">Add new teachers or view existing ones.</p>
+          <p className="text-muted-foreground">Invite new teachers or view existing ones.</p>
         </div>
         <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
           <DialogTrigger asChild>
             <Button>
               <PlusCircle className="mr-2 h-4 w-4" />
-              Add Teacher
+              Invite Teacher
             </Button>
           </DialogTrigger>
           <DialogContent>
             <DialogHeader>
-              <DialogTitle>Add a New Teacher</DialogTitle>
+              <DialogTitle>Invite a New Teacher</DialogTitle>
               <DialogDescription>
-                Create a new teacher account. A default password will be assigned.
+                The teacher will receive a single-use link to set their own password. The link expires after 7 days.
               </DialogDescription>
             </DialogHeader>
             <Form {...form}>
@@ -132,7 +182,7 @@ export default function ManageTeachersPage() {
                 />
                 <DialogFooter>
                   <Button type="submit" disabled={form.formState.isSubmitting}>
-                    {form.formState.isSubmitting ? "Creating..." : "Create Teacher"}
+                    {form.formState.isSubmitting ? "Sending..." : "Send Invitation"}
                   </Button>
                 </DialogFooter>
               </form>
@@ -141,6 +191,50 @@ export default function ManageTeachersPage() {
         </Dialog>
       </div>
 
+      {invitations.length > 0 && (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>Pending Invitations</CardTitle>
+            <CardDescription>Invitations that have not been accepted yet.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invitations.map((invitation) => (
+                  <TableRow key={invitation.id}>
+                    <TableCell className="font-medium">{invitation.username}</TableCell>
+                    <TableCell>{invitation.email}</TableCell>
+                    <TableCell>
+                      {invitation.expired
+                        ? <Badge variant="secondary">Expired</Badge>
+                        : new Date(invitation.expires_at).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => handleResend(invitation)}>
+                        <Send className="mr-2 h-4 w-4" />
+                        Resend
+                      </Button>
+                      <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" onClick={() => handleRevoke(invitation)}>
+                        <XCircle className="mr-2 h-4 w-4" />
+                        Revoke
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Teacher Accounts</CardTitle>
@@ -156,6 +250,7 @@ export default function ManageTeachersPage() {
                   <TableHead>Name</TableHead>
                   <TableHead>Email</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -164,6 +259,16 @@ export default function ManageTeachersPage() {
                     <TableCell className="font-medium">{teacher.username}</TableCell>
                     <TableCell>{teacher.email}</TableCell>
                     <TableCell className="capitalize">{teacher.status}</TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => handleImpersonate(teacher)}>
+                        <Eye className="mr-2 h-4 w-4" />
+                        View as Teacher
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleSignOutEverywhere(teacher)}>
+                        <LogOut className="mr-2 h-4 w-4" />
+                        Sign Out Everywhere
+                      </Button>
+                    </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -0,0 +1,34 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { completeSingleSignOn } from '@/ai/flows/oidc-flow';
+
+const DASHBOARDS = {
+  student: '/student/dashboard',
+  teacher: '/teacher/dashboard',
+  admin: '/admin/dashboard',
+};
+
+// The identity provider redirects here after the user signs in (or cancels).
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const loginUrl = new URL('/login', request.url);
+
+  const state = params.get('state');
+  const code = params.get('code');
+  if (params.get('error') || !state || !code) {
+    loginUrl.searchParams.set('sso_error', params.get('error_description') || 'Single sign-on was cancelled.');
+    return NextResponse.redirect(loginUrl);
+  }
+
+  try {
+    const result = await completeSingleSignOn({ state, code });
+    if (result.status === 'two_factor_required') {
+      loginUrl.searchParams.set('two_factor', '1');
+      return NextResponse.redirect(loginUrl);
+    }
+    return NextResponse.redirect(new URL(DASHBOARDS[result.user.role], request.url));
+  } catch (error: any) {
+    console.error('Single sign-on failed:', error);
+    loginUrl.searchParams.set('sso_error', error.message || 'Single sign-on failed.');
+    return NextResponse.redirect(loginUrl);
+  }
+}
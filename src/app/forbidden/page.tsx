@@ -0,0 +1,7 @@
+import { Forbidden } from "@/components/forbidden";
+import { getCurrentUser } from "@/lib/session";
+
+export default async function ForbiddenPage() {
+  const user = await getCurrentUser();
+  return <Forbidden homeHref={user ? `/${user.role}/dashboard` : "/login"} />;
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { useForm, SubmitHandler } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { ExamZenLogo } from "@/components/icons";
+import { useToast } from "@/hooks/use-toast";
+import { requestPasswordReset } from "@/ai/flows/password-reset-flow";
+import { ThemeToggle } from "@/components/theme-toggle";
+
+const formSchema = z.object({
+  email: z.string().email("Invalid email address."),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+export default function ForgotPasswordForm() {
+  const searchParams = useSearchParams();
+  const { toast } = useToast();
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const loginHref = `/login?role=${searchParams.get("role") || "student"}`;
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  const onSubmit: SubmitHandler<FormValues> = async (values) => {
+    try {
+      await requestPasswordReset(values.email);
+      setSentTo(values.email);
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Request Failed",
+        description: error.message || "An unexpected error occurred.",
+      });
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background p-4 relative">
+      <div className="absolute top-4 right-4">
+        <ThemeToggle />
+      </div>
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2">
+            <ExamZenLogo className="h-12 w-12 text-primary" />
+          </div>
+          <CardTitle className="text-2xl font-headline">Forgot Your Password?</CardTitle>
+          <CardDescription>Enter your email and we will send you a link to choose a new one.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sentTo ? (
+            <div className="text-center space-y-4">
+              <p className="text-muted-foreground">
+                If an account exists for {sentTo}, a reset link is on its way. The link expires in one hour.
+              </p>
+              <Link href={loginHref} className="underline text-sm">Back to login</Link>
+            </div>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input type="email" placeholder="m@example.com" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? "Sending..." : "Send Reset Link"}
+                </Button>
+                <div className="text-center text-sm">
+                  Remembered it?{" "}
+                  <Link href={loginHref} className="underline">Login</Link>
+                </div>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+import { Suspense } from "react";
+import ForgotPasswordForm from "./forgot-password-form";
+
+export default function ForgotPasswordPage() {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <ForgotPasswordForm />
+    </Suspense>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm, SubmitHandler } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { ExamZenLogo } from "@/components/icons";
+import { useToast } from "@/hooks/use-toast";
+import { getInvitation, acceptInvitation } from "@/ai/flows/invitation-flow";
+import { PasswordSchema } from "@/ai/schemas/user-schemas";
+import { ThemeToggle } from "@/components/theme-toggle";
+
+const formSchema = z.object({
+  username: z.string().min(2, "Name must be at least 2 characters."),
+  profile_pic_url: z.string().url("Please enter a valid URL.").or(z.literal("")),
+  password: PasswordSchema,
+  confirmPassword: z.string(),
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Passwords do not match.",
+  path: ["confirmPassword"],
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+export default function InviteForm({ token }: { token: string }) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [email, setEmail] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      username: "",
+      profile_pic_url: "",
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  useEffect(() => {
+    async function fetchInvitation() {
+      try {
+        const invitation = await getInvitation(token);
+        if (invitation) {
+          setEmail(invitation.email);
+          form.setValue("username", invitation.username);
+        }
+      } catch (error) {
+        console.error("Failed to load invitation:", error);
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchInvitation();
+  }, [token, form]);
+
+  const onSubmit: SubmitHandler<FormValues> = async (values) => {
+    try {
+      await acceptInvitation({
+        token,
+        username: values.username,
+        password: values.password,
+        profile_pic_url: values.profile_pic_url || undefined,
+      });
+      toast({
+        title: "Welcome to ExamZen!",
+        description: "Your teacher account is ready.",
+      });
+      router.push("/teacher/dashboard");
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Could Not Accept Invitation",
+        description: error.message || "An unexpected error occurred.",
+      });
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background p-4 relative">
+      <div className="absolute top-4 right-4">
+        <ThemeToggle />
+      </div>
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2">
+            <ExamZenLogo className="h-12 w-12 text-primary" />
+          </div>
+          <CardTitle className="text-2xl font-headline">Set Up Your Teacher Account</CardTitle>
+          <CardDescription>
+            {email ? `You were invited as ${email}. Choose a password to finish.` : "Accept your invitation to ExamZen."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-center text-muted-foreground">Checking your invitation...</p>
+          ) : !email ? (
+            <div className="text-center space-y-4">
+              <p className="text-muted-foreground">This invitation link is invalid, has expired or has already been used. Ask your administrator for a new one.</p>
+              <Link href="/login?role=teacher" className="underline text-sm">Go to login</Link>
+            </div>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Full Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Your Name" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="profile_pic_url"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Profile Picture URL (optional)</FormLabel>
+                      <FormControl>
+                        <Input placeholder="https://example.com/image.png" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? "Setting up..." : "Create Account"}
+                </Button>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
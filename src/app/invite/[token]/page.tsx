@@ -0,0 +1,11 @@
+import { Suspense } from "react";
+import InviteForm from "./invite-form";
+
+export default async function InvitePage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <InviteForm token={token} />
+    </Suspense>
+  );
+}
@@ -15,7 +15,9 @@ import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ExamZenLogo } from "@/components/icons";
 import { useToast } from "@/hooks/use-toast";
-import { loginUser } from "@/ai/flows/user-flow";
+import { loginUser, UserOutput } from "@/ai/flows/user-flow";
+import { completeTwoFactorLogin } from "@/ai/flows/two-factor-flow";
+import { beginSingleSignOn, getSingleSignOnProvider } from "@/ai/flows/oidc-flow";
 import { ThemeToggle } from "@/components/theme-toggle";
 
 const formSchema = z.object({
@@ -25,12 +27,21 @@ const formSchema = z.object({
 
 type FormValues = z.infer<typeof formSchema>;
 
+const codeFormSchema = z.object({
+  code: z.string().min(6, "Enter the 6-digit code or a recovery code."),
+});
+
+type CodeFormValues = z.infer<typeof codeFormSchema>;
+
 export default function AuthForm() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const { toast } = useToast();
   const defaultTab = searchParams.get("role") || "student";
   const [currentTab, setCurrentTab] = React.useState(defaultTab);
+  // Single sign-on redirects back here with two_factor=1 when the account also needs a code.
+  const [needsCode, setNeedsCode] = React.useState(searchParams.get("two_factor") === "1");
+  const [ssoProvider, setSsoProvider] = React.useState<{ name: string } | null>(null);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -40,27 +51,49 @@ export default function AuthForm() {
     },
   });
 
+  const codeForm = useForm<CodeFormValues>({
+    resolver: zodResolver(codeFormSchema),
+    defaultValues: {
+      code: "",
+    },
+  });
+
+  useEffect(() => {
+    getSingleSignOnProvider().then(setSsoProvider).catch(() => setSsoProvider(null));
+
+    const ssoError = searchParams.get("sso_error");
+    if (ssoError) {
+      toast({ variant: "destructive", title: "Single Sign-On Failed", description: ssoError });
+    }
+  }, []);
+
+  const finishLogin = ({ username, role }: Pick<UserOutput, 'username' | 'role'>) => {
+    toast({
+      title: "Login Successful!",
+      description: `Welcome back, ${username}!`,
+    });
+
+    // Redirect on success
+    if (role === 'teacher') {
+        router.push("/teacher/dashboard");
+    } else if (role === 'admin') {
+        router.push("/admin/dashboard");
+    } else {
+        router.push("/student/dashboard");
+    }
+  };
+
   const onSubmit: SubmitHandler<FormValues> = async (values) => {
     const role = currentTab as 'student' | 'teacher' | 'admin';
 
     try {
-      const user = await loginUser({ email: values.email, password: values.password });
-
-      if (user && user.role === role) {
-        toast({
-          title: "Login Successful!",
-          description: `Welcome back, ${user.username}!`,
-        });
-        
-        // Redirect on success
-        if (role === 'teacher') {
-            router.push("/teacher/dashboard");
-        } else if (role === 'admin') {
-            router.push("/admin/dashboard");
-        } else {
-            router.push("/student/dashboard");
-        }
+      const result = await loginUser({ email: values.email, password: values.password, role });
 
+      if (result?.status === 'two_factor_required') {
+        codeForm.reset();
+        setNeedsCode(true);
+      } else if (result) {
+        finishLogin(result.user);
       } else {
         throw new Error("Invalid credentials or role mismatch.");
       }
@@ -74,7 +107,67 @@ export default function AuthForm() {
     }
   };
 
-  const renderForm = (role: "student" | "teacher" | "admin") => (
+  const onCodeSubmit: SubmitHandler<CodeFormValues> = async (values) => {
+    try {
+      const user = await completeTwoFactorLogin(values.code);
+      finishLogin(user);
+    } catch (error: any) {
+        codeForm.reset();
+        toast({
+            variant: "destructive",
+            title: "Verification Failed",
+            description: error.message || "An unexpected error occurred.",
+        });
+    }
+  };
+
+  const handleSingleSignOn = async () => {
+    try {
+      window.location.assign(await beginSingleSignOn());
+    } catch (error: any) {
+      toast({
+          variant: "destructive",
+          title: "Single Sign-On Failed",
+          description: error.message || "An unexpected error occurred.",
+      });
+    }
+  };
+
+  const cancelCode = () => {
+    setNeedsCode(false);
+    form.reset();
+  };
+
+  const renderCodeForm = () => (
+    <Form {...codeForm}>
+      <form onSubmit={codeForm.handleSubmit(onCodeSubmit)} className="space-y-4">
+        <FormField
+          control={codeForm.control}
+          name="code"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Authentication Code</FormLabel>
+              <FormControl>
+                <Input autoComplete="one-time-code" placeholder="123456" autoFocus {...field} />
+              </FormControl>
+              <p className="text-xs text-muted-foreground">
+                Enter the code from your authenticator app. Lost your device? Use one of your recovery codes instead.
+              </p>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={codeForm.formState.isSubmitting}>
+          {codeForm.formState.isSubmitting ? 'Verifying...' : 'Verify'}
+        </Button>
+        <Button type="button" variant="ghost" className="w-full" onClick={cancelCode}>
+          Back to login
+        </Button>
+      </form>
+    </Form>
+  )
+
+  const renderForm = (role: "student" | "teacher" | "admin") => needsCode ? renderCodeForm() : (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
         <FormField
@@ -99,7 +192,12 @@ export default function AuthForm() {
           name="password"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Password</FormLabel>
+              <div className="flex items-center justify-between">
+                <FormLabel>Password</FormLabel>
+                <Link href={`/forgot-password?role=${role}`} className="text-sm underline">
+                  Forgot password?
+                </Link>
+              </div>
               <FormControl>
                 <Input type="password" {...field} />
               </FormControl>
@@ -110,6 +208,17 @@ export default function AuthForm() {
         <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
           {form.formState.isSubmitting ? 'Logging in...' : 'Login'}
         </Button>
+        {ssoProvider && (
+          <>
+            <div className="relative text-center text-xs uppercase text-muted-foreground">
+              <span className="bg-card px-2 relative z-10">or</span>
+              <div className="absolute inset-x-0 top-1/2 border-t" />
+            </div>
+            <Button type="button" variant="outline" className="w-full" onClick={handleSingleSignOn}>
+              Sign in with {ssoProvider.name}
+            </Button>
+          </>
+        )}
       </form>
     </Form>
   )
@@ -119,7 +228,7 @@ export default function AuthForm() {
        <div className="absolute top-4 right-4">
         <ThemeToggle />
       </div>
-      <Tabs defaultValue={defaultTab} onValueChange={setCurrentTab} className="w-full max-w-md">
+      <Tabs defaultValue={defaultTab} onValueChange={(tab) => { setCurrentTab(tab); setNeedsCode(false); }} className="w-full max-w-md">
         <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="student">Student</TabsTrigger>
           <TabsTrigger value="teacher">Teacher</TabsTrigger>
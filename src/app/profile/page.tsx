@@ -5,7 +5,6 @@ import { useEffect, useState, Suspense } from "react";
 import { useForm, SubmitHandler } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
-import { useSearchParams } from "next/navigation";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
@@ -15,16 +14,11 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useToast } from "@/hooks/use-toast";
 import { getProfile, ProfileOutput } from "@/ai/flows/profile-flow";
 import { updateUser, updatePassword } from "@/ai/flows/user-flow";
+import { PasswordSchema } from "@/ai/schemas/user-schemas";
 import { Upload, KeyRound, User, Briefcase, GraduationCap } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
-
-// In a real app, this would come from the user's session
-// For demo purposes, we map roles to mock IDs
-const MOCK_USER_IDS: Record<string, string> = {
-    student: "663d2740984534f369d7a87e", 
-    teacher: "663d2740984534f369d7a87d",
-    admin: "663d2740984534f369d7a87c"
-};
+import { TwoFactorSettings } from "@/components/two-factor-settings";
+import { ActiveSessions } from "@/components/active-sessions";
 
 const profileFormSchema = z.object({
   username: z.string().min(2, "Username is required"),
@@ -36,7 +30,7 @@ type ProfileFormValues = z.infer<typeof profileFormSchema>;
 
 const passwordFormSchema = z.object({
   currentPassword: z.string().min(1, "Current password is required."),
-  newPassword: z.string().min(6, "New password must be at least 6 characters."),
+  newPassword: PasswordSchema,
   confirmPassword: z.string(),
 }).refine(data => data.newPassword === data.confirmPassword, {
   message: "Passwords do not match.",
@@ -50,9 +44,6 @@ function ProfilePageContent() {
   const [user, setUser] = useState<ProfileOutput | null>(null);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
-  const searchParams = useSearchParams();
-  const role = searchParams.get('role') as keyof typeof MOCK_USER_IDS || 'student';
-  const userId = MOCK_USER_IDS[role];
 
   const profileForm = useForm<ProfileFormValues>({
     resolver: zodResolver(profileFormSchema),
@@ -74,14 +65,9 @@ function ProfilePageContent() {
 
   useEffect(() => {
     async function fetchUser() {
-      if (!userId) {
-          setLoading(false);
-          toast({ variant: "destructive", title: "Error", description: "Invalid user role specified." });
-          return;
-      }
       try {
         setLoading(true);
-        const fetchedUser = await getProfile(userId); 
+        const fetchedUser = await getProfile();
         if (!fetchedUser) throw new Error("User not found");
         
         setUser(fetchedUser);
@@ -98,17 +84,17 @@ function ProfilePageContent() {
       }
     }
     fetchUser();
-  }, [profileForm, toast, userId]);
+  }, [profileForm, toast]);
 
   const onProfileSubmit: SubmitHandler<ProfileFormValues> = async (values) => {
     if (!user) return;
     try {
-      await updateUser({ id: user.id, ...values });
+      await updateUser(values);
       toast({
         title: "Profile Updated",
         description: "Your information has been successfully updated.",
       });
-      const updatedUser = await getProfile(userId);
+      const updatedUser = await getProfile();
       if (!updatedUser) throw new Error("User not found after update");
       setUser(updatedUser);
       profileForm.reset({
@@ -129,7 +115,6 @@ function ProfilePageContent() {
     if (!user) return;
     try {
       await updatePassword({
-        userId: user.id,
         currentPassword: values.currentPassword,
         newPassword: values.newPassword,
       });
@@ -326,6 +311,10 @@ function ProfilePageContent() {
           </form>
         </Form>
       </Card>
+
+      {user.role !== 'student' && <TwoFactorSettings />}
+
+      <ActiveSessions />
     </div>
   );
 }
@@ -2,6 +2,7 @@
 "use client";
 
 import Link from "next/link";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { useForm, SubmitHandler } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -9,20 +10,21 @@ import * as z from "zod";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ExamZenLogo } from "@/components/icons";
 import { useToast } from "@/hooks/use-toast";
 import { registerStudent } from "@/ai/flows/user-flow";
+import { getClassOptions, ClassOption } from "@/ai/flows/class-flow";
+import { PasswordSchema } from "@/ai/schemas/user-schemas";
 import { ThemeToggle } from "@/components/theme-toggle";
 
 const formSchema = z.object({
   username: z.string().min(2, "Username must be at least 2 characters."),
   email: z.string().email("Invalid email address."),
-  password: z.string().min(6, "Password must be at least 6 characters."),
-  class: z.string({ required_error: "Please select a class." }),
-  section: z.string({ required_error: "Please select a section." }),
+  password: PasswordSchema,
+  classId: z.string({ required_error: "Please select your class." }),
 });
 
 type FormValues = z.infer<typeof formSchema>;
@@ -30,6 +32,15 @@ type FormValues = z.infer<typeof formSchema>;
 export default function RegisterForm() {
   const router = useRouter();
   const { toast } = useToast();
+  const [classes, setClasses] = useState<ClassOption[]>([]);
+  const [loadingClasses, setLoadingClasses] = useState(true);
+
+  useEffect(() => {
+    getClassOptions()
+      .then(setClasses)
+      .catch(() => toast({ variant: "destructive", title: "Error", description: "Could not load the list of classes." }))
+      .finally(() => setLoadingClasses(false));
+  }, []);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -40,12 +51,14 @@ export default function RegisterForm() {
     },
   });
 
-  const onSubmit: SubmitHandler<FormValues> = async (values) => {
+  const onSubmit: SubmitHandler<FormValues> = async ({ classId, ...values }) => {
+    const schoolClass = classes.find(c => c.id === classId);
+    if (!schoolClass) return;
     try {
-      await registerStudent({ ...values, role: 'student' });
+      await registerStudent({ ...values, class: schoolClass.grade, section: schoolClass.section, role: 'student' });
       toast({
         title: "Account Created!",
-        description: "You have been successfully registered. Please login.",
+        description: "We've emailed you a link to confirm your address. Please login.",
       });
       router.push(`/login?role=student`);
     } catch (error: any) {
@@ -99,52 +112,31 @@ export default function RegisterForm() {
                           </FormItem>
                       )}
                     />
-                    <div className="grid grid-cols-2 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="class"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Class</FormLabel>
-                            <Select onValueChange={field.onChange} defaultValue={field.value}>
-                              <FormControl>
-                                <SelectTrigger>
-                                  <SelectValue placeholder="Select Class" />
-                                </SelectTrigger>
-                              </FormControl>
-                              <SelectContent>
-                                {Array.from({ length: 12 }, (_, i) => i + 1).map(c => (
-                                  <SelectItem key={c} value={String(c)}>Class {c}</SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={form.control}
-                        name="section"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Section</FormLabel>
-                            <Select onValueChange={field.onChange} defaultValue={field.value}>
-                              <FormControl>
-                                <SelectTrigger>
-                                  <SelectValue placeholder="Select Section" />
-                                </SelectTrigger>
-                              </FormControl>
-                              <SelectContent>
-                                {['A', 'B', 'C', 'D', 'E'].map(s => (
-                                  <SelectItem key={s} value={s}>Section {s}</SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
+                    <FormField
+                      control={form.control}
+                      name="classId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Class</FormLabel>
+                          <Select onValueChange={field.onChange} defaultValue={field.value} disabled={classes.length === 0}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder={loadingClasses ? "Loading classes..." : "Select your class"} />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {classes.map(c => (
+                                <SelectItem key={c.id} value={c.id}>Class {c.grade} - Section {c.section}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {!loadingClasses && classes.length === 0 && (
+                            <FormDescription>Your school hasn&apos;t set up classes yet. Please check back later.</FormDescription>
+                          )}
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                     <FormField
                       control={form.control}
                       name="password"
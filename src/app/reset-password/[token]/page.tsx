@@ -0,0 +1,11 @@
+import { Suspense } from "react";
+import ResetPasswordForm from "./reset-password-form";
+
+export default async function ResetPasswordPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <ResetPasswordForm token={token} />
+    </Suspense>
+  );
+}
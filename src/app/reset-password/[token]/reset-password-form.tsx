@@ -0,0 +1,137 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm, SubmitHandler } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { ExamZenLogo } from "@/components/icons";
+import { useToast } from "@/hooks/use-toast";
+import { getPasswordReset, resetPassword } from "@/ai/flows/password-reset-flow";
+import { PasswordSchema } from "@/ai/schemas/user-schemas";
+import { ThemeToggle } from "@/components/theme-toggle";
+
+const formSchema = z.object({
+  password: PasswordSchema,
+  confirmPassword: z.string(),
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Passwords do not match.",
+  path: ["confirmPassword"],
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+export default function ResetPasswordForm({ token }: { token: string }) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [email, setEmail] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  useEffect(() => {
+    async function fetchReset() {
+      try {
+        const reset = await getPasswordReset(token);
+        setEmail(reset?.email ?? null);
+      } catch (error) {
+        console.error("Failed to check reset link:", error);
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchReset();
+  }, [token]);
+
+  const onSubmit: SubmitHandler<FormValues> = async (values) => {
+    try {
+      await resetPassword({ token, newPassword: values.password });
+      toast({
+        title: "Password Reset",
+        description: "Your password has been changed. Please login with your new password.",
+      });
+      router.push("/login");
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Reset Failed",
+        description: error.message || "An unexpected error occurred.",
+      });
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background p-4 relative">
+      <div className="absolute top-4 right-4">
+        <ThemeToggle />
+      </div>
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2">
+            <ExamZenLogo className="h-12 w-12 text-primary" />
+          </div>
+          <CardTitle className="text-2xl font-headline">Choose a New Password</CardTitle>
+          <CardDescription>
+            {email ? `Resetting the password for ${email}.` : "Reset your ExamZen password."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-center text-muted-foreground">Checking your reset link...</p>
+          ) : !email ? (
+            <div className="text-center space-y-4">
+              <p className="text-muted-foreground">This reset link is invalid, has expired or has already been used.</p>
+              <Link href="/forgot-password" className="underline text-sm">Request a new link</Link>
+            </div>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm New Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? "Saving..." : "Reset Password"}
+                </Button>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
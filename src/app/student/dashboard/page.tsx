@@ -9,6 +9,7 @@ import { Clock, BookOpen, ArrowRight } from "lucide-react";
 import { getTests, TestOutput } from "@/ai/flows/test-flow";
 import { getUserById } from "@/ai/flows/user-flow";
 import { useToast } from "@/hooks/use-toast";
+import { formatTestTime, getTestWindowStatus, TestWindowStatus } from "@/lib/test-window";
 
 type TestWithTeacher = TestOutput & { teacherName: string };
 
@@ -42,6 +43,63 @@ export default function StudentDashboard() {
     fetchTests();
   }, [toast]);
 
+  const groups: { status: TestWindowStatus; title: string; tests: TestWithTeacher[] }[] = [
+    { status: "open", title: "Open Now", tests: [] },
+    { status: "upcoming", title: "Upcoming", tests: [] },
+    { status: "closed", title: "Closed", tests: [] },
+  ];
+  for (const test of availableTests) {
+    groups.find(group => group.status === getTestWindowStatus(test))!.tests.push(test);
+  }
+
+  const renderTestCard = (test: TestWithTeacher, status: TestWindowStatus, index: number) => (
+    <Card
+      key={test.id}
+      className="flex flex-col animate-slide-in-up"
+      style={{ animationDelay: `${index * 100}ms`}}
+    >
+      <CardHeader>
+        <CardTitle className="font-headline">{test.title}</CardTitle>
+        <CardDescription className="line-clamp-2 h-[40px]">{test.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="flex-grow space-y-2">
+        <div className="flex items-center text-sm text-muted-foreground space-x-4">
+          <div className="flex items-center">
+            <Clock className="mr-1.5 h-4 w-4" />
+            <span>{test.time_limit} mins</span>
+          </div>
+          <div className="flex items-center">
+            <BookOpen className="mr-1.5 h-4 w-4" />
+            <span>{test.teacherName}</span>
+          </div>
+        </div>
+        {status === "upcoming" && test.opens_at && (
+          <p className="text-sm text-muted-foreground">Opens {formatTestTime(test.opens_at)}</p>
+        )}
+        {status === "open" && test.closes_at && (
+          <p className="text-sm text-muted-foreground">Closes {formatTestTime(test.closes_at)}</p>
+        )}
+        {status === "closed" && test.closes_at && (
+          <p className="text-sm text-muted-foreground">Closed {formatTestTime(test.closes_at)}</p>
+        )}
+      </CardContent>
+      <CardFooter>
+        {status === "open" ? (
+          <Button asChild className="w-full">
+            <Link href={`/student/exam/${test.id}`}>
+              Start Test
+              <ArrowRight className="ml-2 h-4 w-4" />
+            </Link>
+          </Button>
+        ) : (
+          <Button className="w-full" variant="secondary" disabled>
+            {status === "upcoming" ? "Not Open Yet" : "Closed"}
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+
   return (
     <div className="space-y-8 animate-fade-in">
       <div>
@@ -52,40 +110,14 @@ export default function StudentDashboard() {
       {loading ? (
         <p>Loading tests...</p>
       ) : availableTests.length > 0 ? (
-        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-          {availableTests.map((test, index) => (
-            <Card 
-              key={test.id} 
-              className="flex flex-col animate-slide-in-up"
-              style={{ animationDelay: `${index * 100}ms`}}
-            >
-              <CardHeader>
-                <CardTitle className="font-headline">{test.title}</CardTitle>
-                <CardDescription className="line-clamp-2 h-[40px]">{test.description}</CardDescription>
-              </CardHeader>
-              <CardContent className="flex-grow">
-                <div className="flex items-center text-sm text-muted-foreground space-x-4">
-                  <div className="flex items-center">
-                    <Clock className="mr-1.5 h-4 w-4" />
-                    <span>{test.time_limit} mins</span>
-                  </div>
-                  <div className="flex items-center">
-                    <BookOpen className="mr-1.5 h-4 w-4" />
-                    <span>{test.teacherName}</span>
-                  </div>
-                </div>
-              </CardContent>
-              <CardFooter>
-                <Button asChild className="w-full">
-                  <Link href={`/student/exam/${test.id}`}>
-                    Start Test
-                    <ArrowRight className="ml-2 h-4 w-4" />
-                  </Link>
-                </Button>
-              </CardFooter>
-            </Card>
-          ))}
-        </div>
+        groups.filter(group => group.tests.length > 0).map(group => (
+          <section key={group.status} className="space-y-4">
+            <h3 className="text-xl font-semibold">{group.title}</h3>
+            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+              {group.tests.map((test, index) => renderTestCard(test, group.status, index))}
+            </div>
+          </section>
+        ))
       ) : (
         <div className="text-center py-12 border-2 border-dashed rounded-lg">
           <h3 className="text-xl font-semibold">No Tests Available</h3>
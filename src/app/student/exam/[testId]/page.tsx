@@ -8,19 +8,19 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Textarea } from "@/components/ui/textarea";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { AlertDialog, AlertDialogAction, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Clock, UploadCloud, Badge } from "lucide-react";
 import { Input } from "@/components/ui/input";
-import { QuestionOutput, getQuestionsByTest } from "@/ai/flows/question-flow";
+import { StudentQuestionOutput, getExamQuestions } from "@/ai/flows/question-flow";
 import { getTestById, TestOutput } from "@/ai/flows/test-flow";
 import { submitTest } from "@/ai/flows/submission-flow";
 
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
 const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/jpg", "image/png"];
-const MOCK_STUDENT_ID = "663d2740984534f369d7a87e";
 
 const toBase64 = (file: File): Promise<string> =>
   new Promise((resolve, reject) => {
@@ -32,6 +32,7 @@ const toBase64 = (file: File): Promise<string> =>
 
 type Answer = {
     text?: string;
+    options?: string[]; // For multi-select questions
     image?: {
         file: File;
         preview: string;
@@ -42,7 +43,7 @@ type Answer = {
 export default function ExamPage({ params }: { params: { testId: string } }) {
   const router = useRouter();
   const { toast } = useToast();
-  const [testData, setTestData] = useState<(TestOutput & {questions: QuestionOutput[]}) | null>(null);
+  const [testData, setTestData] = useState<(TestOutput & {questions: StudentQuestionOutput[]}) | null>(null);
   const [answers, setAnswers] = useState<Record<string, Answer>>({});
   const [timeLeft, setTimeLeft] = useState<number | null>(null);
   const [showTimeoutAlert, setShowTimeoutAlert] = useState(false);
@@ -55,7 +56,7 @@ export default function ExamPage({ params }: { params: { testId: string } }) {
         setLoading(true);
         const [testDetails, questions] = await Promise.all([
             getTestById(params.testId),
-            getQuestionsByTest(params.testId)
+            getExamQuestions(params.testId)
         ]);
 
         if (!testDetails) {
@@ -65,11 +66,15 @@ export default function ExamPage({ params }: { params: { testId: string } }) {
         }
         
         setTestData({ ...testDetails, questions });
-        setTimeLeft(testDetails.time_limit * 60);
+        // Finish before the test closes, even if that leaves less than the time limit.
+        const secondsUntilClose = testDetails.closes_at
+          ? Math.floor((new Date(testDetails.closes_at).getTime() - Date.now()) / 1000)
+          : Infinity;
+        setTimeLeft(Math.min(testDetails.time_limit * 60, secondsUntilClose));
 
-      } catch (error) {
+      } catch (error: any) {
         console.error("Failed to load test:", error);
-        toast({ variant: "destructive", title: "Error", description: "Could not load the test." });
+        toast({ variant: "destructive", title: "Could not load the test", description: error.message });
         router.push('/student/dashboard');
       } finally {
         setLoading(false);
@@ -95,6 +100,13 @@ export default function ExamPage({ params }: { params: { testId: string } }) {
     setAnswers((prev) => ({ ...prev, [questionId]: {...prev[questionId], text: value }}));
   };
 
+  const handleOptionToggle = (questionId: string, option: string, checked: boolean) => {
+    setAnswers((prev) => {
+      const picked = prev[questionId]?.options ?? [];
+      return { ...prev, [questionId]: { ...prev[questionId], options: checked ? [...picked, option] : picked.filter(o => o !== option) } };
+    });
+  };
+
   const handleImageChange = async (questionId: string, e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -117,18 +129,19 @@ export default function ExamPage({ params }: { params: { testId: string } }) {
     if (isSubmitting || !testData) return;
     setIsSubmitting(true);
 
-    const processedAnswers = Object.entries(answers).map(([questionId, answer]) => {
-      return { 
-        questionId, 
-        text: answer.text, 
-        imageUrl: answer.image?.base64 
-      };
-    });
+    // Multi-select questions whose boxes were all cleared are left out, like untouched ones.
+    const processedAnswers = Object.entries(answers)
+      .filter(([, answer]) => !answer.options || answer.options.length > 0)
+      .map(([questionId, answer]) => ({
+        questionId,
+        text: answer.text,
+        imageUrl: answer.image?.base64,
+        options: answer.options,
+      }));
 
     try {
         await submitTest({
             testId: params.testId,
-            studentId: MOCK_STUDENT_ID,
             answers: processedAnswers,
         });
 
@@ -212,6 +225,20 @@ export default function ExamPage({ params }: { params: { testId: string } }) {
                     </div>
                   ))}
                 </RadioGroup>
+              ) : q.type === 'multi_select' ? (
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">Select all that apply.</p>
+                  {q.options.map((option, i) => (
+                    <div key={i} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`${q.id}-${i}`}
+                        checked={answers[q.id]?.options?.includes(option) ?? false}
+                        onCheckedChange={(checked) => handleOptionToggle(q.id, option, checked === true)}
+                      />
+                      <Label htmlFor={`${q.id}-${i}`}>{option}</Label>
+                    </div>
+                  ))}
+                </div>
               ) : (
                 <div className="space-y-4">
                   {q.answer_format === 'text' && (
@@ -0,0 +1,29 @@
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { getCurrentUser } from "@/lib/session";
+import { isEmailVerified } from "@/lib/user-status";
+
+// Exams can only be started once the student has confirmed their email address.
+// The student layout above already shows the notice with the resend button.
+export default async function ExamLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/login?role=student");
+  }
+  if (!isEmailVerified(user)) {
+    return (
+      <div className="text-center space-y-4 py-12">
+        <p className="text-muted-foreground">Verify your email address to start this exam.</p>
+        <Button asChild variant="outline">
+          <Link href="/student/dashboard">Back to dashboard</Link>
+        </Button>
+      </div>
+    );
+  }
+  return children;
+}
@@ -1,10 +1,23 @@
+import { redirect } from "next/navigation";
 import { DashboardLayout } from "@/components/dashboard-layout";
+import { Forbidden } from "@/components/forbidden";
+import { EmailVerificationNotice } from "@/components/email-verification-notice";
+import { getCurrentUser, getImpersonator } from "@/lib/session";
+import { isEmailVerified } from "@/lib/user-status";
 
-export default function StudentLayout({
+export default async function StudentLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/login?role=student");
+  }
+  if (user.role !== "student") {
+    return <Forbidden homeHref={`/${user.role}/dashboard`} />;
+  }
+
   const navItems = [
     { href: "/student/dashboard", label: "Dashboard", icon: "LayoutDashboard" },
     { href: "/student/results", label: "My Results", icon: "CheckSquare" },
@@ -13,9 +26,12 @@ export default function StudentLayout({
   return (
     <DashboardLayout
       navItems={navItems}
-      userName="Alex Doe"
+      userName={user.username}
+      userEmail={user.email}
       userRole="Student"
+      impersonatorName={(await getImpersonator())?.username}
     >
+      {!isEmailVerified(user) && <EmailVerificationNotice email={user.email} />}
       {children}
     </DashboardLayout>
   );
@@ -12,9 +12,6 @@ import { getSubmissionsByStudent, SubmissionDetails } from "@/ai/flows/submissio
 import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from "@/components/ui/skeleton";
 
-// In a real app, you would get this from the user's session
-const MOCK_STUDENT_ID = "663d2740984534f369d7a87e";
-
 export default function StudentResultsPage() {
   const [submissions, setSubmissions] = useState<SubmissionDetails[]>([]);
   const [loading, setLoading] = useState(true);
@@ -24,7 +21,7 @@ export default function StudentResultsPage() {
     async function fetchSubmissions() {
       try {
         setLoading(true);
-        const data = await getSubmissionsByStudent(MOCK_STUDENT_ID);
+        const data = await getSubmissionsByStudent();
         setSubmissions(data);
       } catch (error) {
         console.error("Failed to fetch results:", error);
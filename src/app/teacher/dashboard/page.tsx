@@ -3,20 +3,21 @@
 
 import { useState, useEffect } from "react";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import Image from "next/image";
 import { Button, buttonVariants } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
-import { FileText, Clock, PlusCircle, Book, MoreVertical, Trash2, FileCheck } from "lucide-react";
-import { getTeacherTests, deleteTest } from "@/ai/flows/test-flow";
+import { FileText, Clock, PlusCircle, Book, MoreVertical, Trash2, FileCheck, Send, Undo2, Lock, Archive, Pencil, Copy, GitBranch, History, Library } from "lucide-react";
+import { getTeacherTests, deleteTest, setTestStatus, duplicateTest, createTestVersion } from "@/ai/flows/test-flow";
 import { TestOutput as Test } from "@/ai/flows/test-flow";
 import { getQuestionsByTest } from "@/ai/flows/question-flow";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from "@/components/ui/skeleton";
-
-// In a real app, you would get the logged-in teacher's ID from the session
-const MOCK_TEACHER_ID = "663d2740984534f369d7a87d";
+import { Badge } from "@/components/ui/badge";
+import type { TestStatus } from "@/lib/types";
+import { SaveToBankDialog } from "@/components/save-to-bank-dialog";
 
 type TestWithQuestionCount = Test & { questionCount: number };
 
@@ -28,18 +29,32 @@ const subjectImageMap: Record<string, string> = {
     "English": "/subjects/english.jpg",
 };
 
+const statusBadges: Record<TestStatus, { label: string; variant: "default" | "secondary" | "outline" }> = {
+    draft: { label: "Draft", variant: "outline" },
+    published: { label: "Published", variant: "default" },
+    closed: { label: "Closed", variant: "secondary" },
+    archived: { label: "Archived", variant: "secondary" },
+};
+
+// Tests saved before statuses existed count as published.
+function statusOf(test: Test): TestStatus {
+    return test.status ?? "published";
+}
+
 
 export default function TeacherDashboard() {
   const [tests, setTests] = useState<TestWithQuestionCount[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedTest, setSelectedTest] = useState<TestWithQuestionCount | null>(null);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [testToBank, setTestToBank] = useState<TestWithQuestionCount | null>(null);
   const { toast } = useToast();
+  const router = useRouter();
 
   async function fetchTests() {
     try {
       setLoading(true);
-      const fetchedTests = await getTeacherTests(MOCK_TEACHER_ID);
+      const fetchedTests = await getTeacherTests();
       const testsWithCounts = await Promise.all(
         fetchedTests.map(async (test) => {
           const questions = await getQuestionsByTest(test.id);
@@ -73,6 +88,39 @@ export default function TeacherDashboard() {
     }
   };
 
+  const handleStatusChange = async (test: TestWithQuestionCount, status: TestStatus) => {
+    try {
+      await setTestStatus(test.id, status);
+      toast({ title: "Test Updated", description: `"${test.title}" is now ${statusBadges[status].label.toLowerCase()}.` });
+      fetchTests();
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    }
+  };
+
+  const handleDuplicate = async (test: TestWithQuestionCount) => {
+    try {
+      const copy = await duplicateTest(test.id);
+      toast({ title: "Test Duplicated", description: `"${copy.title}" was saved as a draft.` });
+      fetchTests();
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    }
+  };
+
+  const handleNewVersion = async (test: TestWithQuestionCount) => {
+    try {
+      const version = await createTestVersion(test.id);
+      toast({ title: "Version Created", description: `Version ${version.version} is a draft. Publish it when your changes are ready.` });
+      router.push(`/teacher/tests/${version.id}/edit`);
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    }
+  };
+
+  // Archived tests go to the end of the list.
+  const sortedTests = [...tests.filter(test => statusOf(test) !== "archived"), ...tests.filter(test => statusOf(test) === "archived")];
+
   const TestCardSkeleton = () => (
     <Card className="flex flex-col overflow-hidden">
       <Skeleton className="h-40 w-full" />
@@ -114,7 +162,7 @@ export default function TeacherDashboard() {
           </div>
         ) : tests.length > 0 ? (
           <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {tests.map((test, index) => (
+            {sortedTests.map((test, index) => (
               <Card 
                 key={test.id} 
                 className="flex flex-col overflow-hidden animate-slide-in-up"
@@ -134,7 +182,13 @@ export default function TeacherDashboard() {
                   </div>
                 <CardHeader>
                     <div className="flex justify-between items-start">
-                        <CardTitle className="font-headline">{test.title}</CardTitle>
+                        <div className="space-y-2">
+                            <CardTitle className="font-headline">{test.title}</CardTitle>
+                            <div className="flex gap-2">
+                                <Badge variant={statusBadges[statusOf(test)].variant}>{statusBadges[statusOf(test)].label}</Badge>
+                                {(test.version ?? 1) > 1 && <Badge variant="outline">v{test.version}</Badge>}
+                            </div>
+                        </div>
                         <DropdownMenu>
                             <DropdownMenuTrigger asChild>
                                 <Button variant="ghost" size="icon" className="h-8 w-8 flex-shrink-0">
@@ -148,6 +202,58 @@ export default function TeacherDashboard() {
                                         View Submissions
                                     </Link>
                                 </DropdownMenuItem>
+                                {statusOf(test) !== "archived" && (
+                                    <DropdownMenuItem asChild>
+                                        <Link href={`/teacher/tests/${test.id}/edit`}>
+                                            <Pencil className="mr-2 h-4 w-4" />
+                                            Edit
+                                        </Link>
+                                    </DropdownMenuItem>
+                                )}
+                                <DropdownMenuItem onClick={() => handleDuplicate(test)}>
+                                    <Copy className="mr-2 h-4 w-4" />
+                                    Duplicate
+                                </DropdownMenuItem>
+                                {statusOf(test) !== "draft" && (
+                                    <DropdownMenuItem onClick={() => handleNewVersion(test)}>
+                                        <GitBranch className="mr-2 h-4 w-4" />
+                                        New Version
+                                    </DropdownMenuItem>
+                                )}
+                                <DropdownMenuItem onClick={() => setTestToBank(test)}>
+                                    <Library className="mr-2 h-4 w-4" />
+                                    Save to Question Bank
+                                </DropdownMenuItem>
+                                <DropdownMenuItem asChild>
+                                    <Link href={`/teacher/tests/${test.id}/versions`}>
+                                        <History className="mr-2 h-4 w-4" />
+                                        Version History
+                                    </Link>
+                                </DropdownMenuItem>
+                                {statusOf(test) === "draft" && (
+                                    <DropdownMenuItem onClick={() => handleStatusChange(test, "published")}>
+                                        <Send className="mr-2 h-4 w-4" />
+                                        Publish
+                                    </DropdownMenuItem>
+                                )}
+                                {statusOf(test) === "published" && (
+                                    <>
+                                        <DropdownMenuItem onClick={() => handleStatusChange(test, "draft")}>
+                                            <Undo2 className="mr-2 h-4 w-4" />
+                                            Unpublish
+                                        </DropdownMenuItem>
+                                        <DropdownMenuItem onClick={() => handleStatusChange(test, "closed")}>
+                                            <Lock className="mr-2 h-4 w-4" />
+                                            Close Now
+                                        </DropdownMenuItem>
+                                    </>
+                                )}
+                                {(statusOf(test) === "draft" || statusOf(test) === "closed") && (
+                                    <DropdownMenuItem onClick={() => handleStatusChange(test, "archived")}>
+                                        <Archive className="mr-2 h-4 w-4" />
+                                        Archive
+                                    </DropdownMenuItem>
+                                )}
                                 <DropdownMenuItem 
                                     className="text-destructive focus:text-destructive"
                                     onClick={() => {
@@ -216,6 +322,7 @@ export default function TeacherDashboard() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+      <SaveToBankDialog test={testToBank} onOpenChange={(open) => !open && setTestToBank(null)} />
     </>
   );
 }
@@ -1,25 +1,41 @@
-
+import { redirect } from "next/navigation";
 import { DashboardLayout } from "@/components/dashboard-layout";
+import { Forbidden } from "@/components/forbidden";
+import { TwoFactorSetupRequired } from "@/components/two-factor-settings";
+import { getCurrentUser, getImpersonator } from "@/lib/session";
+import { isTwoFactorSetupRequired } from "@/lib/two-factor";
 
-export default function TeacherLayout({
+export default async function TeacherLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/login?role=teacher");
+  }
+  if (user.role !== "teacher") {
+    return <Forbidden homeHref={`/${user.role}/dashboard`} />;
+  }
+
   const navItems = [
     { href: "/teacher/dashboard", label: "Dashboard", icon: "LayoutDashboard" },
     { href: "/teacher/tests", label: "Manage Tests", icon: "BookCopy" },
     { href: "/teacher/submitted", label: "Submitted", icon: "FileCheck" },
     { href: "/teacher/tests/create", label: "Create Test", icon: "PlusCircle" },
+    { href: "/teacher/question-bank", label: "Question Bank", icon: "Library" },
   ];
 
   return (
     <DashboardLayout
       navItems={navItems}
-      userName="Prof. Eleanor"
+      userName={user.username}
+      userEmail={user.email}
       userRole="Teacher"
+      impersonatorName={(await getImpersonator())?.username}
     >
-      {children}
+      {/* Nothing else is usable until a required 2FA enrollment is finished */}
+      {(await isTwoFactorSetupRequired(user)) ? <TwoFactorSetupRequired /> : children}
     </DashboardLayout>
   );
 }
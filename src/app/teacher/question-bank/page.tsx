@@ -0,0 +1,498 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { searchQuestionBank, createBankQuestion, updateBankQuestion, deleteBankQuestion, BankQuestionOutput } from "@/ai/flows/question-bank-flow";
+import { subjects } from "@/components/test-form";
+import { Pencil, PlusCircle, Trash2, X } from "lucide-react";
+
+const ANY = "any";
+
+const formSchema = z.object({
+  subject: z.enum(subjects, { required_error: "Please select a subject." }),
+  difficulty: z.enum(["easy", "medium", "hard"]),
+  tags: z.string(), // comma-separated
+  shared: z.boolean(),
+  type: z.enum(["mcq", "multi_select", "subjective"]),
+  question_text: z.string().min(1, "Question text cannot be empty."),
+  marks: z.coerce.number().int().positive("Marks must be a positive number."),
+  answer_format: z.enum(["text", "image"]).optional(),
+  options: z.array(z.object({ value: z.string().min(1, "Option cannot be empty.") })),
+  correct_answer: z.string().optional(),
+  correct_answers: z.array(z.string()),
+  scoring: z.enum(["all_or_nothing", "partial", "penalty"]),
+}).refine(data => data.type === "subjective" || data.options.length >= 2, {
+  message: "MCQ must have at least 2 options.",
+  path: ["options"],
+}).refine(data => data.type !== "mcq" || (!!data.correct_answer && data.options.some(o => o.value === data.correct_answer)), {
+  message: "You must select a valid correct answer for MCQ.",
+  path: ["correct_answer"],
+}).refine(data => data.type !== "multi_select" || (data.correct_answers.length > 0 && data.correct_answers.every(answer => data.options.some(o => o.value === answer))), {
+  message: "Select at least one correct answer from the options.",
+  path: ["correct_answers"],
+}).refine(data => data.type !== "subjective" || !!data.answer_format, {
+  message: "Please select an answer format for subjective questions.",
+  path: ["answer_format"],
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+const emptyQuestion: FormValues = {
+  subject: subjects[0],
+  difficulty: "medium",
+  tags: "",
+  shared: false,
+  type: "mcq",
+  question_text: "",
+  marks: 5,
+  answer_format: undefined,
+  options: [{ value: "" }, { value: "" }],
+  correct_answer: undefined,
+  correct_answers: [],
+  scoring: "all_or_nothing",
+};
+
+export default function QuestionBankPage() {
+  const [questions, setQuestions] = useState<BankQuestionOutput[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [subject, setSubject] = useState(ANY);
+  const [difficulty, setDifficulty] = useState(ANY);
+  const [type, setType] = useState(ANY);
+  const [tag, setTag] = useState("");
+  const [ownOnly, setOwnOnly] = useState(false);
+  const [editingQuestion, setEditingQuestion] = useState<BankQuestionOutput | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [questionToDelete, setQuestionToDelete] = useState<BankQuestionOutput | null>(null);
+  const { toast } = useToast();
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: emptyQuestion,
+  });
+  const { fields: optionFields, append: appendOption, remove: removeOption } = useFieldArray({ control: form.control, name: "options" });
+  const watchType = form.watch("type");
+
+  async function fetchQuestions() {
+    try {
+      setLoading(true);
+      setQuestions(await searchQuestionBank({
+        search: search.trim() || undefined,
+        subject: subject === ANY ? undefined : subject,
+        difficulty: difficulty === ANY ? undefined : difficulty as BankQuestionOutput["difficulty"],
+        type: type === ANY ? undefined : type as BankQuestionOutput["type"],
+        tag: tag.trim() || undefined,
+        ownOnly,
+      }));
+    } catch (error) {
+      console.error("Failed to search the question bank:", error);
+      toast({ variant: "destructive", title: "Error", description: "Could not load the question bank." });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    // Wait for the teacher to stop typing before searching.
+    const timeout = setTimeout(fetchQuestions, 300);
+    return () => clearTimeout(timeout);
+  }, [search, subject, difficulty, type, tag, ownOnly]);
+
+  const openDialog = (question: BankQuestionOutput | null) => {
+    setEditingQuestion(question);
+    form.reset(question ? {
+      subject: question.subject as FormValues["subject"],
+      difficulty: question.difficulty,
+      tags: question.tags.join(", "),
+      shared: question.shared,
+      type: question.type,
+      question_text: question.question_text,
+      marks: question.marks,
+      answer_format: question.answer_format,
+      options: (question.options ?? ["", ""]).map(value => ({ value })),
+      correct_answer: question.correct_answer,
+      correct_answers: question.correct_answers ?? [],
+      scoring: question.scoring ?? "all_or_nothing",
+    } : emptyQuestion);
+    setIsDialogOpen(true);
+  };
+
+  async function onSubmit(values: FormValues) {
+    const input = {
+      ...values,
+      tags: values.tags.split(",").map(t => t.trim()).filter(Boolean),
+      options: values.type !== "subjective" ? values.options.map(option => option.value) : undefined,
+      correct_answer: values.type === "mcq" ? values.correct_answer : undefined,
+      correct_answers: values.type === "multi_select"
+        ? values.options.map(option => option.value).filter(option => values.correct_answers.includes(option))
+        : undefined,
+      scoring: values.type === "multi_select" ? values.scoring : undefined,
+      answer_format: values.type === "subjective" ? values.answer_format : undefined,
+      // Images are kept when editing; the bank form doesn't upload new ones.
+      image_url: editingQuestion?.image_url,
+    };
+    try {
+      if (editingQuestion) {
+        await updateBankQuestion(editingQuestion.id, input);
+      } else {
+        await createBankQuestion(input);
+      }
+      toast({ title: editingQuestion ? "Question Updated" : "Question Added", description: "The question bank has been updated." });
+      setIsDialogOpen(false);
+      fetchQuestions();
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Could Not Save Question", description: error.message });
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!questionToDelete) return;
+    try {
+      await deleteBankQuestion(questionToDelete.id);
+      toast({ title: "Question Deleted", description: "Tests that used it keep their own copy." });
+      fetchQuestions();
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    } finally {
+      setQuestionToDelete(null);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h2 className="text-3xl font-bold font-headline">Question Bank</h2>
+          <p className="text-muted-foreground">Keep questions to reuse across tests, and share them with other teachers.</p>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <PlusCircle className="mr-2 h-4 w-4" />
+          New Question
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Questions</CardTitle>
+          <CardDescription>Your own questions and those other teachers shared.</CardDescription>
+          <div className="grid gap-2 pt-2 md:grid-cols-6">
+            <Input className="md:col-span-2" placeholder="Search question text" value={search} onChange={(e) => setSearch(e.target.value)} />
+            <Select value={subject} onValueChange={setSubject}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>All subjects</SelectItem>
+                {subjects.map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={difficulty} onValueChange={setDifficulty}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any difficulty</SelectItem>
+                <SelectItem value="easy">Easy</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="hard">Hard</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={type} onValueChange={setType}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>All types</SelectItem>
+                <SelectItem value="mcq">MCQ</SelectItem>
+                <SelectItem value="multi_select">Multi-select</SelectItem>
+                <SelectItem value="subjective">Subjective</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input placeholder="Topic tag" value={tag} onChange={(e) => setTag(e.target.value)} />
+          </div>
+          <div className="flex items-center gap-2 pt-2">
+            <Switch id="own-only" checked={ownOnly} onCheckedChange={setOwnOnly} />
+            <Label htmlFor="own-only">Only my questions</Label>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {loading ? (
+            <p>Loading questions...</p>
+          ) : questions.length === 0 ? (
+            <p className="text-muted-foreground">No questions match. Add one, or save questions from a test on your dashboard.</p>
+          ) : questions.map(question => (
+            <div key={question.id} className="rounded-md border p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-2">
+                  <p className="font-medium">{question.question_text || "Image question"}</p>
+                  <div className="flex flex-wrap gap-1">
+                    <Badge variant="secondary">{question.subject}</Badge>
+                    <Badge variant="secondary" className="uppercase">{question.type.replace("_", " ")}</Badge>
+                    <Badge variant="outline" className="capitalize">{question.difficulty}</Badge>
+                    <Badge variant="outline">{question.marks} marks</Badge>
+                    {question.tags.map(t => <Badge key={t} variant="outline">#{t}</Badge>)}
+                    {question.shared && <Badge variant="outline">Shared</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {question.editable ? "Added by you" : `Shared by ${question.owner_name}`}
+                    {" · "}Used in {question.usage.test_count} test(s)
+                    {" · "}Answered {question.usage.answer_count} time(s)
+                    {question.usage.correct_rate !== null && ` · ${question.usage.correct_rate}% correct`}
+                  </p>
+                </div>
+                {question.editable && (
+                  <div className="flex flex-shrink-0">
+                    <Button variant="ghost" size="icon" onClick={() => openDialog(question)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive" onClick={() => setQuestionToDelete(question)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingQuestion ? "Edit Question" : "New Question"}</DialogTitle>
+            <DialogDescription>Tests that already use this question keep their own copy.</DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-2">
+              <FormField
+                control={form.control}
+                name="question_text"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Question</FormLabel>
+                    <FormControl><Textarea rows={2} placeholder="Enter question text..." {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-4 gap-4">
+                <FormField
+                  control={form.control}
+                  name="subject"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Subject</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                        <SelectContent>
+                          {subjects.map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                        <SelectContent>
+                          <SelectItem value="mcq">MCQ</SelectItem>
+                          <SelectItem value="multi_select">Select all that apply</SelectItem>
+                          <SelectItem value="subjective">Subjective</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="difficulty"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Difficulty</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                        <SelectContent>
+                          <SelectItem value="easy">Easy</SelectItem>
+                          <SelectItem value="medium">Medium</SelectItem>
+                          <SelectItem value="hard">Hard</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="marks"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Marks</FormLabel>
+                      <FormControl><Input type="number" {...field} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {watchType === "mcq" ? (
+                <FormField
+                  control={form.control}
+                  name="correct_answer"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Options & Correct Answer</FormLabel>
+                      <RadioGroup onValueChange={field.onChange} value={field.value} className="space-y-2">
+                        {optionFields.map((option, optIndex) => (
+                          <div key={option.id} className="flex items-center gap-2">
+                            <RadioGroupItem value={form.watch(`options.${optIndex}.value`)} />
+                            <Input {...form.register(`options.${optIndex}.value`)} placeholder={`Option ${optIndex + 1}`} />
+                            <Button type="button" variant="ghost" size="icon" disabled={optionFields.length <= 2} onClick={() => removeOption(optIndex)}>
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))}
+                      </RadioGroup>
+                      <Button type="button" variant="outline" size="sm" onClick={() => appendOption({ value: "" })}>
+                        <PlusCircle className="mr-2 h-4 w-4" /> Add Option
+                      </Button>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : watchType === "multi_select" ? (
+                <>
+                  <FormField
+                    control={form.control}
+                    name="correct_answers"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Options & Correct Answers</FormLabel>
+                        <div className="space-y-2">
+                          {optionFields.map((option, optIndex) => {
+                            const value = form.watch(`options.${optIndex}.value`);
+                            return (
+                              <div key={option.id} className="flex items-center gap-2">
+                                <Checkbox
+                                  checked={!!value && field.value.includes(value)}
+                                  onCheckedChange={(checked) => field.onChange(checked === true ? [...field.value, value] : field.value.filter(answer => answer !== value))}
+                                />
+                                <Input {...form.register(`options.${optIndex}.value`)} placeholder={`Option ${optIndex + 1}`} />
+                                <Button type="button" variant="ghost" size="icon" disabled={optionFields.length <= 2} onClick={() => removeOption(optIndex)}>
+                                  <X className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            );
+                          })}
+                        </div>
+                        <Button type="button" variant="outline" size="sm" onClick={() => appendOption({ value: "" })}>
+                          <PlusCircle className="mr-2 h-4 w-4" /> Add Option
+                        </Button>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="scoring"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Scoring</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                          <SelectContent>
+                            <SelectItem value="all_or_nothing">All or nothing</SelectItem>
+                            <SelectItem value="partial">Partial credit per option</SelectItem>
+                            <SelectItem value="penalty">Penalty for wrong picks</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </>
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="answer_format"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Answer Format</FormLabel>
+                      <RadioGroup onValueChange={field.onChange} value={field.value} className="flex items-center gap-4">
+                        <label className="flex items-center gap-2 text-sm"><RadioGroupItem value="text" /> Text</label>
+                        <label className="flex items-center gap-2 text-sm"><RadioGroupItem value="image" /> Image Upload</label>
+                      </RadioGroup>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="tags"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Topic Tags</FormLabel>
+                    <FormControl><Input placeholder="e.g., algebra, linear equations" {...field} /></FormControl>
+                    <FormDescription>Separate tags with commas.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="shared"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                    <FormLabel>Share with other teachers</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? "Saving..." : "Save Question"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!questionToDelete} onOpenChange={(open) => !open && setQuestionToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this question?</AlertDialogTitle>
+            <AlertDialogDescription>
+              It will be removed from the bank{questionToDelete?.shared ? " for every teacher" : ""}. Tests that already use it keep their own copy.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className={buttonVariants({ variant: "destructive" })}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
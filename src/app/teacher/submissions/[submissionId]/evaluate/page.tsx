@@ -75,7 +75,7 @@ export default function EvaluateSubmissionPage({ params }: { params: { submissio
   );
   if (!data) return <div>Could not load submission data.</div>;
 
-  const { submission, student, test, questions, questionStats } = data;
+  const { submission, student, test, questions, questionStats, shownOrder } = data;
 
   const getAnswerForQuestion = (questionId: string) => {
     return submission.answers.find(a => a.question_id === questionId);
@@ -120,7 +120,10 @@ export default function EvaluateSubmissionPage({ params }: { params: { submissio
         {questions.map((q, index) => {
             const answer = getAnswerForQuestion(q.id);
             const stats = getStatsForQuestion(q.id);
-            const isCorrect = q.type === 'mcq' && answer?.answer_text === q.correct_answer;
+            const isCorrect = q.type === 'mcq'
+                ? answer?.answer_text === q.correct_answer
+                : q.type === 'multi_select' && answer?.credit === 1;
+            const partialCredit = q.type === 'multi_select' && answer?.credit ? Math.round(answer.credit * 100) : 0;
 
             return (
                 <Card key={q.id}>
@@ -131,14 +134,21 @@ export default function EvaluateSubmissionPage({ params }: { params: { submissio
                                 <CardTitle className="text-xl">Question {index + 1}</CardTitle>
                                 <Badge variant="outline">{q.marks} Mark{q.marks > 1 ? 's' : ''}</Badge>
                                </div>
+                                {shownOrder && shownOrder.includes(q.id) && shownOrder.indexOf(q.id) !== index && (
+                                    <p className="text-xs text-muted-foreground mt-1">Shown to the student as question {shownOrder.indexOf(q.id) + 1}</p>
+                                )}
                                 <CardDescription className="mt-2">{q.question_text}</CardDescription>
                                 {q.image_url && <Image src={q.image_url} alt="Question" width={300} height={150} className="mt-2 rounded-md border" />}
                             </div>
-                            {q.type === 'mcq' && (
-                                <Badge variant={isCorrect ? "default" : "destructive"} className={isCorrect ? "bg-green-600" : ""}>
-                                    {isCorrect ? <CheckCircle className="mr-2 h-4 w-4" /> : <XCircle className="mr-2 h-4 w-4" />}
-                                    {isCorrect ? 'Correct' : 'Incorrect'}
-                                </Badge>
+                            {q.type !== 'subjective' && (
+                                isCorrect || partialCredit === 0 ? (
+                                    <Badge variant={isCorrect ? "default" : "destructive"} className={isCorrect ? "bg-green-600" : ""}>
+                                        {isCorrect ? <CheckCircle className="mr-2 h-4 w-4" /> : <XCircle className="mr-2 h-4 w-4" />}
+                                        {isCorrect ? 'Correct' : 'Incorrect'}
+                                    </Badge>
+                                ) : (
+                                    <Badge variant="secondary">Partly correct ({partialCredit}%)</Badge>
+                                )
                             )}
                         </div>
                     </CardHeader>
@@ -158,6 +168,9 @@ export default function EvaluateSubmissionPage({ params }: { params: { submissio
                              {q.type === 'mcq' && !isCorrect && (
                                 <p className="text-sm text-green-700 font-medium">Correct Answer: {q.correct_answer}</p>
                              )}
+                             {q.type === 'multi_select' && !isCorrect && (
+                                <p className="text-sm text-green-700 font-medium">Correct Answers: {q.correct_answers.join(', ')}</p>
+                             )}
                        </div>
                        {stats && (
                         <p className="text-xs text-muted-foreground mt-3 text-right">
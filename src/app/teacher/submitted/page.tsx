@@ -13,9 +13,6 @@ import { getAllSubmissionsByTeacher, SubmissionDetails } from "@/ai/flows/submis
 import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from "@/components/ui/skeleton";
 
-// In a real app, you would get this from the user's session
-const MOCK_TEACHER_ID = "663d2740984534f369d7a87d";
-
 export default function SubmittedPage() {
   const [submissions, setSubmissions] = useState<SubmissionDetails[]>([]);
   const [loading, setLoading] = useState(true);
@@ -25,7 +22,7 @@ export default function SubmittedPage() {
     async function fetchData() {
       try {
         setLoading(true);
-        const fetchedSubmissions = await getAllSubmissionsByTeacher(MOCK_TEACHER_ID);
+        const fetchedSubmissions = await getAllSubmissionsByTeacher();
         setSubmissions(fetchedSubmissions);
       } catch (error) {
         console.error("Failed to fetch submissions:", error);
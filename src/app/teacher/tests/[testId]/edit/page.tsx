@@ -0,0 +1,231 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { createTestVersion, getTestById, updateTest } from "@/ai/flows/test-flow";
+import { createQuestion, deleteQuestion, getQuestionsByTest, reorderQuestions, updateQuestion, QuestionOutput } from "@/ai/flows/question-flow";
+import { getSubmissionsByTest } from "@/ai/flows/submission-flow";
+import { TestForm, TestFormQuestion, TestFormValues, toDateTimeLocal, toIsoTimestamp } from "@/components/test-form";
+
+type PendingSave = { values: TestFormValues; questions: TestFormQuestion[] };
+
+// The fields compared to tell whether a saved question was edited.
+function questionFields(question: Partial<QuestionOutput> | TestFormQuestion) {
+  return {
+    question_text: question.question_text,
+    marks: Number(question.marks),
+    type: question.type,
+    answer_format: question.type === "subjective" ? question.answer_format : undefined,
+    options: question.type === "mcq" || question.type === "multi_select" ? question.options : undefined,
+    correct_answer: question.type === "mcq" ? question.correct_answer : undefined,
+    correct_answers: question.type === "multi_select" ? question.correct_answers : undefined,
+    scoring: question.type === "multi_select" ? question.scoring : undefined,
+    image_url: question.image_url,
+    pool_id: question.pool_id,
+    difficulty: question.difficulty,
+    tags: question.tags,
+  };
+}
+
+export default function EditTestPage({ params }: { params: { testId: string } }) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [defaultValues, setDefaultValues] = useState<TestFormValues | null>(null);
+  const [savedQuestions, setSavedQuestions] = useState<QuestionOutput[]>([]);
+  const [submissionCount, setSubmissionCount] = useState(0);
+  const [pendingSave, setPendingSave] = useState<PendingSave | null>(null);
+
+  useEffect(() => {
+    async function fetchData() {
+      try {
+        const [test, questions, submissions] = await Promise.all([
+          getTestById(params.testId),
+          getQuestionsByTest(params.testId),
+          getSubmissionsByTest(params.testId),
+        ]);
+        if (!test) {
+          toast({ variant: "destructive", title: "Error", description: "Test not found." });
+          return;
+        }
+        setSavedQuestions(questions);
+        setSubmissionCount(submissions.length);
+        setDefaultValues({
+          title: test.title,
+          description: test.description,
+          subject: test.subject as TestFormValues["subject"],
+          time_limit: test.time_limit,
+          assigned_class_ids: test.assigned_class_ids ?? [],
+          assigned_student_ids: test.assigned_student_ids ?? [],
+          opens_at: toDateTimeLocal(test.opens_at),
+          closes_at: toDateTimeLocal(test.closes_at),
+          question_pools: test.question_pools ?? [],
+          shuffle_questions: test.shuffle_questions ?? false,
+          shuffle_options: test.shuffle_options ?? false,
+          questions: questions.map(question => ({
+            id: question.id,
+            type: question.type,
+            question_text: question.question_text,
+            marks: question.marks,
+            image_url: question.image_url,
+            answer_format: question.type === "subjective" ? question.answer_format : undefined,
+            options: question.type !== "subjective" ? question.options.map(value => ({ value })) : undefined,
+            correct_answer: question.type === "mcq" ? question.correct_answer : undefined,
+            correct_answers: question.type === "multi_select" ? question.correct_answers : undefined,
+            scoring: question.type === "multi_select" ? question.scoring : undefined,
+            pool_id: question.pool_id,
+            difficulty: question.difficulty,
+            tags: question.tags?.join(", "),
+          })),
+        });
+      } catch (error: any) {
+        toast({ variant: "destructive", title: "Error", description: error.message });
+      }
+    }
+    fetchData();
+  }, [params.testId]);
+
+  // Questions whose answer key or scoring rule the teacher changed; their submissions get re-scored.
+  const changedAnswerKeys = (questions: TestFormQuestion[]) =>
+    questions.filter(question => {
+      const saved = savedQuestions.find(q => q.id === question.id);
+      if (saved?.type === "mcq" && question.type === "mcq") {
+        return saved.correct_answer !== question.correct_answer;
+      }
+      if (saved?.type === "multi_select" && question.type === "multi_select") {
+        return JSON.stringify(saved.correct_answers) !== JSON.stringify(question.correct_answers) || saved.scoring !== question.scoring;
+      }
+      return false;
+    });
+
+  async function save({ values, questions }: PendingSave) {
+    try {
+      const { questions: _, opens_at, closes_at, ...details } = values;
+      await updateTest({
+        ...details,
+        testId: params.testId,
+        opens_at: toIsoTimestamp(opens_at),
+        closes_at: toIsoTimestamp(closes_at),
+      });
+
+      let rescored = 0;
+      const questionIds: string[] = [];
+      for (const { id, ...question } of questions) {
+        const saved = savedQuestions.find(q => q.id === id);
+        if (!id || !saved) {
+          const created = await createQuestion({ ...question, test_id: params.testId });
+          questionIds.push(created.id);
+          continue;
+        }
+        if (JSON.stringify(questionFields(saved)) !== JSON.stringify(questionFields(question))) {
+          const result = await updateQuestion({ ...question, questionId: id });
+          rescored += result.rescored_submissions;
+        }
+        questionIds.push(id);
+      }
+      // Removed last, so the test never ends up without questions.
+      for (const saved of savedQuestions.filter(q => !questionIds.includes(q.id))) {
+        await deleteQuestion(saved.id);
+      }
+      if (questionIds.join() !== savedQuestions.map(q => q.id).join()) {
+        await reorderQuestions(params.testId, questionIds);
+      }
+
+      toast({
+        title: "Test Updated",
+        description: rescored > 0
+          ? `"${values.title}" was saved and ${rescored} submission(s) were re-scored.`
+          : `"${values.title}" was saved.`,
+      });
+      router.push(`/teacher/dashboard`);
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Failed to Update Test",
+        description: error.message || "An unexpected error occurred.",
+      });
+    }
+  }
+
+  async function handleNewVersion() {
+    try {
+      const version = await createTestVersion(params.testId);
+      toast({ title: "Version Created", description: `Version ${version.version} is a draft. Publish it when your changes are ready.` });
+      router.push(`/teacher/tests/${version.id}/edit`);
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    }
+  }
+
+  async function onSubmit(values: TestFormValues, questions: TestFormQuestion[]) {
+    if (submissionCount > 0 && changedAnswerKeys(questions).length > 0) {
+      setPendingSave({ values, questions });
+      return;
+    }
+    await save({ values, questions });
+  }
+
+  if (!defaultValues) {
+    return (
+      <div className="space-y-8">
+        <Skeleton className="h-10 w-1/3" />
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <Skeleton className="h-96" />
+          <Skeleton className="h-96 lg:col-span-2" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <TestForm
+        key={params.testId}
+        heading="Edit Test"
+        description="Fix details and questions. Saved changes apply to students straight away."
+        defaultValues={defaultValues}
+        questionsLocked={submissionCount > 0}
+        onSubmit={onSubmit}
+        renderActions={(isSubmitting) => (
+          <div className="flex gap-2">
+            {submissionCount > 0 && (
+              <Button type="button" size="lg" variant="outline" disabled={isSubmitting} onClick={handleNewVersion}>
+                Create New Version
+              </Button>
+            )}
+            <Button type="submit" size="lg" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </div>
+        )}
+      />
+      <AlertDialog open={!!pendingSave} onOpenChange={(open) => !open && setPendingSave(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Change the answer key?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {submissionCount} student(s) have already submitted this test. Their answers to {pendingSave ? changedAnswerKeys(pendingSave.questions).length : 0} question(s)
+              will be marked again and their MCQ scores updated. Final scores you gave by hand for written answers are not changed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className={buttonVariants({ variant: "destructive" })}
+              onClick={() => {
+                if (pendingSave) save(pendingSave);
+                setPendingSave(null);
+              }}
+            >
+              Save and Re-score
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,206 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Eye, Pencil } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getTestVersions, getTestVersionDiff, TestVersion, TestVersionDiff } from "@/ai/flows/test-flow";
+import { QuestionOutput } from "@/ai/flows/question-flow";
+import { formatTestTime } from "@/lib/test-window";
+
+const changeBadges: Record<TestVersionDiff["questions"][number]["change"], { label: string; className: string }> = {
+  added: { label: "Added", className: "bg-green-600/80 hover:bg-green-600" },
+  removed: { label: "Removed", className: "bg-destructive/80 hover:bg-destructive" },
+  changed: { label: "Changed", className: "bg-amber-500/80 hover:bg-amber-500" },
+  unchanged: { label: "Unchanged", className: "" },
+};
+
+const fieldLabels: Record<string, string> = {
+  title: "Title",
+  description: "Description",
+  subject: "Subject",
+  time_limit: "Time limit",
+  question_text: "Text",
+  type: "Type",
+  marks: "Marks",
+  answer_format: "Answer format",
+  options: "Options",
+  correct_answer: "Correct answer",
+  correct_answers: "Correct answers",
+  scoring: "Scoring",
+  image_url: "Image",
+};
+
+function describeQuestion(question: QuestionOutput, field: string): string {
+  if (field === "image_url") return question.image_url ? "Image attached" : "No image";
+  const value = (question as Record<string, unknown>)[field];
+  if (Array.isArray(value)) return value.join(" / ");
+  return value === undefined ? "—" : String(value);
+}
+
+export default function TestVersionsPage({ params }: { params: { testId: string } }) {
+  const [versions, setVersions] = useState<TestVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fromId, setFromId] = useState("");
+  const [toId, setToId] = useState("");
+  const [diff, setDiff] = useState<TestVersionDiff | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    async function fetchVersions() {
+      try {
+        setLoading(true);
+        const fetchedVersions = await getTestVersions(params.testId);
+        setVersions(fetchedVersions);
+        // Start by comparing the two most recent versions.
+        if (fetchedVersions.length > 1) {
+          setFromId(fetchedVersions[fetchedVersions.length - 2].id);
+          setToId(fetchedVersions[fetchedVersions.length - 1].id);
+        }
+      } catch (error: any) {
+        toast({ variant: "destructive", title: "Error", description: error.message });
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchVersions();
+  }, [params.testId]);
+
+  useEffect(() => {
+    if (!fromId || !toId || fromId === toId) {
+      setDiff(null);
+      return;
+    }
+    getTestVersionDiff(fromId, toId)
+      .then(setDiff)
+      .catch((error: any) => toast({ variant: "destructive", title: "Error", description: error.message }));
+  }, [fromId, toId]);
+
+  const versionPicker = (value: string, onChange: (id: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-40"><SelectValue placeholder="Version" /></SelectTrigger>
+      <SelectContent>
+        {versions.map(version => (
+          <SelectItem key={version.id} value={version.id}>Version {version.version ?? 1}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader>
+          {loading ? <Skeleton className="h-8 w-1/2" /> : (
+            <CardTitle className="font-headline text-2xl">{versions[versions.length - 1]?.title ?? "Version History"}</CardTitle>
+          )}
+          <CardDescription>Each version keeps its own questions, so submissions stay with the questions students answered.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Submissions</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...versions].reverse().map(version => (
+                  <TableRow key={version.id}>
+                    <TableCell className="font-medium">Version {version.version ?? 1}</TableCell>
+                    <TableCell><Badge variant="outline" className="capitalize">{version.status ?? "published"}</Badge></TableCell>
+                    <TableCell>{version.created_at ? formatTestTime(version.created_at) : "—"}</TableCell>
+                    <TableCell>{version.submission_count}</TableCell>
+                    <TableCell className="text-right space-x-2">
+                      {version.status !== "archived" && (
+                        <Button asChild variant="outline" size="sm">
+                          <Link href={`/teacher/tests/${version.id}/edit`}>
+                            <Pencil className="mr-2 h-4 w-4" />
+                            Edit
+                          </Link>
+                        </Button>
+                      )}
+                      <Button asChild variant="outline" size="sm">
+                        <Link href={`/teacher/tests/${version.id}/submissions`}>
+                          <Eye className="mr-2 h-4 w-4" />
+                          Submissions
+                        </Link>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {versions.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Compare Versions</CardTitle>
+            <CardDescription>Questions are matched to the question they were copied from.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-center gap-4">
+              {versionPicker(fromId, setFromId)}
+              <span className="text-muted-foreground">to</span>
+              {versionPicker(toId, setToId)}
+            </div>
+            {fromId === toId ? (
+              <p className="text-sm text-muted-foreground">Choose two different versions.</p>
+            ) : diff && (
+              <>
+                {diff.details.length > 0 && (
+                  <div className="space-y-1">
+                    <h4 className="font-semibold">Test details</h4>
+                    {diff.details.map(change => (
+                      <p key={change.field} className="text-sm">
+                        <span className="font-medium">{fieldLabels[change.field] ?? change.field}:</span>{" "}
+                        <span className="line-through text-muted-foreground">{change.before}</span> → {change.after}
+                      </p>
+                    ))}
+                  </div>
+                )}
+                <div className="space-y-3">
+                  <h4 className="font-semibold">Questions</h4>
+                  {diff.questions.map((change, index) => {
+                    const question = change.after ?? change.before!;
+                    return (
+                      <div key={index} className="rounded-md border p-3 space-y-2">
+                        <div className="flex items-start justify-between gap-4">
+                          <p className="text-sm">{question.question_text || "Image question"}</p>
+                          <Badge variant={change.change === "unchanged" ? "outline" : "default"} className={changeBadges[change.change].className}>
+                            {changeBadges[change.change].label}
+                          </Badge>
+                        </div>
+                        {change.changed_fields.map(field => (
+                          <p key={field} className="text-sm">
+                            <span className="font-medium">{fieldLabels[field] ?? field}:</span>{" "}
+                            <span className="line-through text-muted-foreground">{describeQuestion(change.before!, field)}</span> → {describeQuestion(change.after!, field)}
+                          </p>
+                        ))}
+                      </div>
+                    );
+                  })}
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -6,14 +6,12 @@ import Link from "next/link";
 import { Button, buttonVariants } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Eye, Trash2, PlusCircle } from "lucide-react";
+import { Eye, Pencil, Trash2, PlusCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { getTeacherTests, deleteTest, TestOutput as Test } from "@/ai/flows/test-flow";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { getQuestionsByTest } from "@/ai/flows/question-flow";
 
-const MOCK_TEACHER_ID = "663d2740984534f369d7a87d";
-
 type TestWithQuestionCount = Test & { questionCount: number };
 
 export default function ManageTeacherTestsPage() {
@@ -26,7 +24,7 @@ export default function ManageTeacherTestsPage() {
   async function fetchTests() {
     try {
       setLoading(true);
-      const fetchedTests = await getTeacherTests(MOCK_TEACHER_ID);
+      const fetchedTests = await getTeacherTests();
       const testsWithCounts = await Promise.all(
         fetchedTests.map(async (test) => {
           const questions = await getQuestionsByTest(test.id);
@@ -103,6 +101,14 @@ export default function ManageTeacherTestsPage() {
                           Submissions
                         </Link>
                       </Button>
+                      {test.status !== "archived" && (
+                        <Button asChild variant="outline" size="sm">
+                          <Link href={`/teacher/tests/${test.id}/edit`}>
+                            <Pencil className="mr-2 h-4 w-4" />
+                            Edit
+                          </Link>
+                        </Button>
+                      )}
                        <Button 
                         variant="ghost" 
                         size="icon" 
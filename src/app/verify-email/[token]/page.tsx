@@ -0,0 +1,11 @@
+import { Suspense } from "react";
+import VerifyEmailStatus from "./verify-email-status";
+
+export default async function VerifyEmailPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <VerifyEmailStatus token={token} />
+    </Suspense>
+  );
+}
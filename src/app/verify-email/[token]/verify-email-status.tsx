@@ -0,0 +1,59 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ExamZenLogo } from "@/components/icons";
+import { verifyEmail } from "@/ai/flows/email-verification-flow";
+import { ThemeToggle } from "@/components/theme-toggle";
+
+export default function VerifyEmailStatus({ token }: { token: string }) {
+  const [verified, setVerified] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    async function confirmEmail() {
+      try {
+        setVerified(await verifyEmail(token));
+      } catch (error) {
+        console.error("Failed to verify email:", error);
+        setVerified(false);
+      }
+    }
+    confirmEmail();
+  }, [token]);
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background p-4 relative">
+      <div className="absolute top-4 right-4">
+        <ThemeToggle />
+      </div>
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2">
+            <ExamZenLogo className="h-12 w-12 text-primary" />
+          </div>
+          <CardTitle className="text-2xl font-headline">Email Verification</CardTitle>
+          <CardDescription>Confirming your email address for ExamZen.</CardDescription>
+        </CardHeader>
+        <CardContent className="text-center space-y-4">
+          {verified === null ? (
+            <p className="text-muted-foreground">Verifying...</p>
+          ) : verified ? (
+            <>
+              <p>Your email address is confirmed. You can now take exams.</p>
+              <Link href="/student/dashboard" className="underline text-sm">Go to your dashboard</Link>
+            </>
+          ) : (
+            <>
+              <p className="text-muted-foreground">
+                This verification link is invalid, has expired or has already been used. Sign in to request a new one.
+              </p>
+              <Link href="/login?role=student" className="underline text-sm">Go to login</Link>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
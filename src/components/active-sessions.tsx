@@ -0,0 +1,121 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { getMySessions, revokeOtherSessions, revokeSession, SessionOutput } from "@/ai/flows/session-flow";
+import { Monitor, Smartphone } from "lucide-react";
+
+// Turns a user agent string into something like "Chrome on Windows".
+function describeUserAgent(userAgent?: string): string {
+  if (!userAgent) return "Unknown device";
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge"
+    : /OPR\//.test(userAgent) ? "Opera"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : "Browser";
+  const os =
+    /Windows/.test(userAgent) ? "Windows"
+    : /Android/.test(userAgent) ? "Android"
+    : /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : "unknown OS";
+  return `${browser} on ${os}`;
+}
+
+const isMobile = (userAgent?: string) => !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent);
+
+// The "Devices & sessions" section of the profile page.
+export function ActiveSessions() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<SessionOutput[] | null>(null);
+
+  async function fetchSessions() {
+    try {
+      setSessions(await getMySessions());
+    } catch (error) {
+      console.error("Failed to fetch sessions:", error);
+      toast({ variant: "destructive", title: "Error", description: "Could not load your sessions." });
+    }
+  }
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const handleRevoke = async (session: SessionOutput) => {
+    try {
+      await revokeSession(session.id);
+      if (session.current) {
+        router.push("/login");
+        return;
+      }
+      toast({ title: "Session Ended", description: "That device has been signed out." });
+      fetchSessions();
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Could Not Sign Out", description: error.message });
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    try {
+      const count = await revokeOtherSessions();
+      toast({ title: "Signed Out Other Devices", description: `${count} other session${count === 1 ? "" : "s"} ended.` });
+      fetchSessions();
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Could Not Sign Out", description: error.message });
+    }
+  };
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle>Devices &amp; Sessions</CardTitle>
+        <CardDescription>Places where you are signed in. End any session you don&apos;t recognise.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!sessions ? (
+          <p className="text-muted-foreground">Loading sessions...</p>
+        ) : (
+          <ul className="divide-y">
+            {sessions.map((session) => {
+              const Icon = isMobile(session.user_agent) ? Smartphone : Monitor;
+              return (
+                <li key={session.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="flex items-start gap-3">
+                    <Icon className="h-5 w-5 mt-0.5 text-muted-foreground" />
+                    <div>
+                      <p className="font-medium">
+                        {describeUserAgent(session.user_agent)}
+                        {session.current && <Badge variant="secondary" className="ml-2">This device</Badge>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {session.ip ?? "Unknown IP"} · Signed in {new Date(session.created_at).toLocaleString()}
+                        {session.last_seen_at && ` · Last seen ${new Date(session.last_seen_at).toLocaleString()}`}
+                      </p>
+                    </div>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => handleRevoke(session)}>
+                    {session.current ? "Sign out" : "Revoke"}
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+      {sessions && sessions.length > 1 && (
+        <CardFooter>
+          <Button variant="destructive" onClick={handleRevokeOthers}>Sign Out All Other Devices</Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
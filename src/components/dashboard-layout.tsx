@@ -2,7 +2,7 @@
 "use client";
 
 import Link from "next/link";
-import { usePathname } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import {
@@ -26,9 +26,11 @@ import {
   SidebarInset,
 } from "@/components/ui/sidebar";
 import { ExamZenLogo } from "./icons";
-import { LogOut, Settings, LayoutDashboard, PlusCircle, CheckSquare, UserCog, Users, FileCheck, BookCopy } from "lucide-react";
+import { LogOut, Settings, LayoutDashboard, PlusCircle, CheckSquare, UserCog, Users, FileCheck, BookCopy, ScrollText, School, Library } from "lucide-react";
 import type { LucideIcon } from "lucide-react";
 import { ThemeToggle } from "./theme-toggle";
+import { ImpersonationBanner } from "./impersonation-banner";
+import { logoutUser } from "@/ai/flows/user-flow";
 
 const iconMap: Record<string, LucideIcon> = {
   LayoutDashboard,
@@ -38,6 +40,10 @@ const iconMap: Record<string, LucideIcon> = {
   Users,
   FileCheck,
   BookCopy,
+  Settings,
+  ScrollText,
+  School,
+  Library,
 };
 
 type NavItem = {
@@ -51,11 +57,19 @@ type DashboardLayoutProps = {
   children: React.ReactNode;
   navItems: NavItem[];
   userName: string;
+  userEmail: string;
   userRole: string;
+  impersonatorName?: string; // set while an admin is viewing as this user
 };
 
-export function DashboardLayout({ children, navItems, userName, userRole }: DashboardLayoutProps) {
+export function DashboardLayout({ children, navItems, userName, userEmail, userRole, impersonatorName }: DashboardLayoutProps) {
   const pathname = usePathname();
+  const router = useRouter();
+
+  const handleLogout = async () => {
+    await logoutUser();
+    router.push(`/login?role=${userRole.toLowerCase()}`);
+  };
 
   return (
     <SidebarProvider>
@@ -105,23 +119,21 @@ export function DashboardLayout({ children, navItems, userName, userRole }: Dash
                 <div className="flex flex-col space-y-1">
                   <p className="text-sm font-medium leading-none">{userName}</p>
                   <p className="text-xs leading-none text-muted-foreground">
-                    {userName.split(' ').join('.').toLowerCase()}@examzen.com
+                    {userEmail}
                   </p>
                 </div>
               </DropdownMenuLabel>
               <DropdownMenuSeparator />
               <DropdownMenuItem asChild>
-                 <Link href={`/profile?role=${userRole.toLowerCase()}`}>
+                 <Link href="/profile">
                     <Settings className="mr-2 h-4 w-4" />
                     <span>Profile Settings</span>
                 </Link>
               </DropdownMenuItem>
               <DropdownMenuSeparator />
-               <DropdownMenuItem asChild>
-                <Link href="/">
-                    <LogOut className="mr-2 h-4 w-4" />
-                    <span>Log out</span>
-                </Link>
+               <DropdownMenuItem onClick={handleLogout}>
+                <LogOut className="mr-2 h-4 w-4" />
+                <span>Log out</span>
               </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
@@ -142,6 +154,9 @@ export function DashboardLayout({ children, navItems, userName, userRole }: Dash
         <main className="flex-1 p-4 sm:p-6 lg:p-8">
           {children}
         </main>
+        {impersonatorName && (
+          <ImpersonationBanner userName={userName} userRole={userRole} adminName={impersonatorName} />
+        )}
       </SidebarInset>
     </SidebarProvider>
   );
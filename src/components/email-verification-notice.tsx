@@ -0,0 +1,41 @@
+"use client";
+
+import { useState } from "react";
+import { MailWarning } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { resendVerificationEmail } from "@/ai/flows/email-verification-flow";
+
+// Reminds a student who hasn't confirmed their email and lets them ask for a new link.
+export function EmailVerificationNotice({ email }: { email: string }) {
+  const [sending, setSending] = useState(false);
+  const { toast } = useToast();
+
+  const handleResend = async () => {
+    try {
+      setSending(true);
+      await resendVerificationEmail();
+      toast({ title: "Verification Email Sent", description: `Check the inbox for ${email}.` });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Could Not Send Email", description: error.message });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Alert className="mb-6">
+      <MailWarning className="h-4 w-4" />
+      <AlertTitle>Please verify your email address</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>
+          We sent a confirmation link to {email}. You can take exams once your email is verified.
+        </p>
+        <Button variant="outline" size="sm" onClick={handleResend} disabled={sending}>
+          {sending ? "Sending..." : "Resend Email"}
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,29 @@
+import Link from "next/link";
+import { ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+type ForbiddenProps = {
+  homeHref?: string;
+};
+
+export function Forbidden({ homeHref = "/login" }: ForbiddenProps) {
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background p-4">
+      <Card className="w-full max-w-md text-center">
+        <CardHeader>
+          <div className="mx-auto mb-2">
+            <ShieldAlert className="h-12 w-12 text-destructive" />
+          </div>
+          <CardTitle className="text-2xl font-headline">403 - Access Denied</CardTitle>
+          <CardDescription>Your account does not have permission to view this page.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild>
+            <Link href={homeHref}>Go to my dashboard</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
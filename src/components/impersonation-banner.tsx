@@ -0,0 +1,48 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { stopImpersonation } from "@/ai/flows/impersonation-flow";
+import { Eye } from "lucide-react";
+
+type ImpersonationBannerProps = {
+  userName: string;
+  userRole: string;
+  adminName: string;
+};
+
+// Shown on every page while an admin is viewing the app as another user.
+export function ImpersonationBanner({ userName, userRole, adminName }: ImpersonationBannerProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [exiting, setExiting] = useState(false);
+
+  const handleExit = async () => {
+    try {
+      setExiting(true);
+      const restored = await stopImpersonation();
+      router.push(restored ? `/admin/${userRole === "Teacher" ? "teachers" : "students"}` : "/login?role=admin");
+      router.refresh();
+    } catch (error: any) {
+      setExiting(false);
+      toast({ variant: "destructive", title: "Could Not Exit", description: error.message });
+    }
+  };
+
+  return (
+    <div className="sticky bottom-0 z-20 flex flex-wrap items-center justify-between gap-2 bg-amber-500 px-4 py-2 text-sm text-black">
+      <p className="flex items-center gap-2">
+        <Eye className="h-4 w-4" />
+        <span>
+          {adminName}, you are viewing ExamZen as <strong>{userName}</strong> ({userRole.toLowerCase()}).
+          Password changes, exam submissions and other irreversible actions are disabled.
+        </span>
+      </p>
+      <Button size="sm" variant="outline" className="h-7 bg-transparent border-black/40 hover:bg-black/10" onClick={handleExit} disabled={exiting}>
+        {exiting ? "Exiting..." : "Exit impersonation"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { searchQuestionBank, BankQuestionOutput } from "@/ai/flows/question-bank-flow";
+
+const ANY = "any";
+
+type QuestionBankPickerProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  subject?: string;
+  onAdd: (questions: BankQuestionOutput[]) => void;
+};
+
+// Chooses questions from the bank to copy into a test.
+export function QuestionBankPicker({ open, onOpenChange, subject, onAdd }: QuestionBankPickerProps) {
+  const [questions, setQuestions] = useState<BankQuestionOutput[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [search, setSearch] = useState("");
+  const [tag, setTag] = useState("");
+  const [difficulty, setDifficulty] = useState(ANY);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    // Wait for the teacher to stop typing before searching.
+    const timeout = setTimeout(() => {
+      setLoading(true);
+      searchQuestionBank({
+        search: search.trim() || undefined,
+        subject,
+        tag: tag.trim() || undefined,
+        difficulty: difficulty === ANY ? undefined : difficulty as BankQuestionOutput["difficulty"],
+      })
+        .then(setQuestions)
+        .catch(() => toast({ variant: "destructive", title: "Error", description: "Could not search the question bank." }))
+        .finally(() => setLoading(false));
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [open, search, tag, difficulty, subject]);
+
+  const handleAdd = () => {
+    onAdd(questions.filter(question => selectedIds.includes(question.id)));
+    setSelectedIds([]);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Add from Question Bank</DialogTitle>
+          <DialogDescription>
+            {subject ? `Showing ${subject} questions. ` : ""}The test gets its own copy, so later changes in the bank won't affect it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-3 gap-2">
+          <Input placeholder="Search question text" value={search} onChange={(e) => setSearch(e.target.value)} />
+          <Input placeholder="Topic tag" value={tag} onChange={(e) => setTag(e.target.value)} />
+          <Select value={difficulty} onValueChange={setDifficulty}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any difficulty</SelectItem>
+              <SelectItem value="easy">Easy</SelectItem>
+              <SelectItem value="medium">Medium</SelectItem>
+              <SelectItem value="hard">Hard</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <ScrollArea className="h-80 rounded-md border p-2">
+          {loading ? (
+            <p className="p-4 text-sm text-muted-foreground">Searching...</p>
+          ) : questions.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">No questions match.</p>
+          ) : questions.map(question => (
+            <label key={question.id} className="flex items-start gap-3 rounded-md p-2 hover:bg-muted/50">
+              <Checkbox
+                className="mt-1"
+                checked={selectedIds.includes(question.id)}
+                onCheckedChange={(checked) => setSelectedIds(ids => checked === true ? [...ids, question.id] : ids.filter(id => id !== question.id))}
+              />
+              <div className="space-y-1">
+                <p className="text-sm">{question.question_text || "Image question"}</p>
+                <div className="flex flex-wrap gap-1">
+                  <Badge variant="secondary" className="uppercase">{question.type.replace("_", " ")}</Badge>
+                  <Badge variant="outline" className="capitalize">{question.difficulty}</Badge>
+                  <Badge variant="outline">{question.marks} marks</Badge>
+                  {question.tags.map(t => <Badge key={t} variant="outline">#{t}</Badge>)}
+                </div>
+              </div>
+            </label>
+          ))}
+        </ScrollArea>
+        <DialogFooter>
+          <Button type="button" onClick={handleAdd} disabled={selectedIds.length === 0}>
+            Add {selectedIds.length > 0 ? selectedIds.length : ""} Question{selectedIds.length === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
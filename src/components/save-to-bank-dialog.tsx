@@ -0,0 +1,112 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { getQuestionsByTest, QuestionOutput } from "@/ai/flows/question-flow";
+import { saveQuestionsToBank } from "@/ai/flows/question-bank-flow";
+
+type SaveToBankDialogProps = {
+  test: { id: string; title: string } | null;
+  onOpenChange: (open: boolean) => void;
+};
+
+// Copies questions of an existing test into the question bank.
+export function SaveToBankDialog({ test, onOpenChange }: SaveToBankDialogProps) {
+  const [questions, setQuestions] = useState<QuestionOutput[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [tags, setTags] = useState("");
+  const [difficulty, setDifficulty] = useState<"easy" | "medium" | "hard">("medium");
+  const [shared, setShared] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!test) return;
+    getQuestionsByTest(test.id)
+      .then(fetchedQuestions => {
+        setQuestions(fetchedQuestions);
+        setSelectedIds(fetchedQuestions.map(question => question.id));
+      })
+      .catch(() => toast({ variant: "destructive", title: "Error", description: "Could not load the questions." }));
+  }, [test?.id]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const { saved, skipped } = await saveQuestionsToBank({
+        questionIds: selectedIds,
+        tags: tags.split(",").map(tag => tag.trim()).filter(Boolean),
+        difficulty,
+        shared,
+      });
+      toast({
+        title: "Saved to Question Bank",
+        description: skipped > 0
+          ? `${saved} question(s) saved. ${skipped} came from the bank already and were skipped.`
+          : `${saved} question(s) saved.`,
+      });
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error", description: error.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!test} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Save to Question Bank</DialogTitle>
+          <DialogDescription>Reuse questions from "{test?.title}" in other tests. They are filed under the test's subject.</DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="h-60 rounded-md border p-2">
+          {questions.map((question, index) => (
+            <label key={question.id} className="flex items-start gap-3 p-2 text-sm">
+              <Checkbox
+                className="mt-0.5"
+                checked={selectedIds.includes(question.id)}
+                onCheckedChange={(checked) => setSelectedIds(ids => checked === true ? [...ids, question.id] : ids.filter(id => id !== question.id))}
+              />
+              <span>{index + 1}. {question.question_text || "Image question"}</span>
+            </label>
+          ))}
+        </ScrollArea>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="bank-tags">Topic tags</Label>
+            <Input id="bank-tags" placeholder="e.g., algebra, equations" value={tags} onChange={(e) => setTags(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Difficulty</Label>
+            <Select value={difficulty} onValueChange={(value) => setDifficulty(value as typeof difficulty)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="easy">Easy</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="hard">Hard</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <Switch checked={shared} onCheckedChange={setShared} />
+          Share with other teachers
+        </label>
+        <DialogFooter>
+          <Button type="button" onClick={handleSave} disabled={saving || selectedIds.length === 0}>
+            {saving ? "Saving..." : `Save ${selectedIds.length} Question(s)`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
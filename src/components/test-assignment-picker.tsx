@@ -0,0 +1,95 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { getClasses, ClassOutput } from "@/ai/flows/class-flow";
+import { getStudents, UserOutput as Student } from "@/ai/flows/user-flow";
+import { getAcademicYear } from "@/lib/classes";
+
+type TestAssignmentPickerProps = {
+  classIds: string[];
+  studentIds: string[];
+  onClassIdsChange: (classIds: string[]) => void;
+  onStudentIdsChange: (studentIds: string[]) => void;
+};
+
+function toggle(ids: string[], id: string, checked: boolean): string[] {
+  return checked ? [...ids, id] : ids.filter(existing => existing !== id);
+}
+
+// Chooses the classes and individual students a test is assigned to.
+export function TestAssignmentPicker({ classIds, studentIds, onClassIdsChange, onStudentIdsChange }: TestAssignmentPickerProps) {
+  const [classes, setClasses] = useState<ClassOutput[]>([]);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [search, setSearch] = useState("");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    Promise.all([getClasses(), getStudents()])
+      .then(([fetchedClasses, fetchedStudents]) => {
+        // Older classes stay selectable if the test already uses them.
+        const academicYear = getAcademicYear();
+        setClasses(fetchedClasses.filter(c => c.academic_year === academicYear || classIds.includes(c.id)));
+        setStudents(fetchedStudents);
+      })
+      .catch(() => toast({ variant: "destructive", title: "Error", description: "Could not load classes and students." }));
+  }, []);
+
+  const query = search.trim().toLowerCase();
+  const matchingStudents = students.filter(student =>
+    studentIds.includes(student.id)
+    || (query && (student.username.toLowerCase().includes(query) || student.email.toLowerCase().includes(query)))
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Classes</Label>
+        {classes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No classes have been set up for this year.</p>
+        ) : (
+          <div className="grid grid-cols-3 gap-2">
+            {classes.map(schoolClass => (
+              <label key={schoolClass.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={classIds.includes(schoolClass.id)}
+                  onCheckedChange={(checked) => onClassIdsChange(toggle(classIds, schoolClass.id, checked === true))}
+                />
+                {schoolClass.name}
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="assignment-student-search">Individual students</Label>
+        <Input
+          id="assignment-student-search"
+          placeholder="Search by name or email"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        {matchingStudents.length > 0 && (
+          <ScrollArea className="h-40 rounded-md border p-2">
+            {matchingStudents.map(student => (
+              <label key={student.id} className="flex items-center gap-2 py-1 text-sm">
+                <Checkbox
+                  checked={studentIds.includes(student.id)}
+                  onCheckedChange={(checked) => onStudentIdsChange(toggle(studentIds, student.id, checked === true))}
+                />
+                <span>{student.username}</span>
+                <span className="text-muted-foreground">
+                  {student.email}{student.class && ` · ${student.class}-${student.section}`}
+                </span>
+              </label>
+            ))}
+          </ScrollArea>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,803 @@
+
+"use client";
+
+import { useState } from "react";
+import { useForm, useFieldArray, Controller, DefaultValues } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import Image from "next/image";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { TestAssignmentPicker } from "@/components/test-assignment-picker";
+import { ArrowDown, ArrowUp, Library, PlusCircle, Trash2, UploadCloud, X } from "lucide-react";
+import { QuestionBankPicker } from "@/components/question-bank-picker";
+import type { BankQuestionOutput } from "@/ai/flows/question-bank-flow";
+import { Separator } from "@/components/ui/separator";
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/jpg", "image/png"];
+
+const toBase64 = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = (error) => reject(error);
+  });
+
+const questionSchema = z.object({
+  id: z.string().optional(), // Set for questions that are already saved
+  bank_question_id: z.string().optional(), // Set for questions added from the question bank
+  type: z.enum(["mcq", "multi_select", "subjective"], { required_error: "Question type is required." }),
+  question_text: z.string(),
+  marks: z.coerce.number().int().positive("Marks must be a positive number."),
+  image: z.any().optional(),
+  image_url: z.string().optional(),
+  answer_format: z.enum(["text", "image"]).optional(),
+  options: z.array(z.object({ value: z.string().min(1, "Option cannot be empty.") })).optional(),
+  correct_answer: z.string().optional(),
+  correct_answers: z.array(z.string()).optional(),
+  scoring: z.enum(["all_or_nothing", "partial", "penalty"]).optional(),
+  pool_id: z.string().optional(),
+  difficulty: z.enum(["easy", "medium", "hard"]).optional(),
+  tags: z.string().optional(), // comma-separated
+}).refine(data => {
+    if (data.type === 'subjective') return !!data.question_text || !!data.image_url;
+    return !!data.question_text;
+}, {
+  message: "Question text cannot be empty.",
+  path: ["question_text"],
+}).refine(data => data.type === 'subjective' || (data.options && data.options.length >= 2), {
+    message: "Add at least 2 options.",
+    path: ["options"],
+}).refine(data => data.type !== 'mcq' || (!!data.correct_answer && data.options?.some(o => o.value === data.correct_answer)), {
+    message: "You must select a valid correct answer for MCQ.",
+    path: ["correct_answer"],
+}).refine(data => data.type !== 'multi_select' || (!!data.correct_answers?.length && data.correct_answers.every(answer => data.options?.some(o => o.value === answer))), {
+    message: "Select at least one correct answer from the options.",
+    path: ["correct_answers"],
+}).refine(data => data.type !== 'multi_select' || !!data.scoring, {
+    message: "Choose how the question is scored.",
+    path: ["scoring"],
+}).refine(data => data.type !== 'subjective' || !!data.answer_format, {
+    message: "Please select an answer format for subjective questions.",
+    path: ["answer_format"],
+});
+
+export const subjects = ["Maths", "Science", "SST", "Hindi", "English"] as const;
+
+const poolSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1, "Name the pool."),
+  draw_count: z.coerce.number().int().positive("Draw at least one question."),
+  stratify_by: z.enum(["difficulty", "tag"]).optional(),
+});
+
+const scoringDescriptions: Record<"all_or_nothing" | "partial" | "penalty", string> = {
+  all_or_nothing: "Full marks only for picking exactly the correct options.",
+  partial: "Credit for each option picked or left out correctly. A blank answer earns nothing.",
+  penalty: "Credit for each correct pick, less the same for each wrong pick, never below zero.",
+};
+
+const NO_POOL = "none";
+const NOT_STRATIFIED = "none";
+
+const testFormSchema = z.object({
+  title: z.string().min(5, "Title must be at least 5 characters long."),
+  description: z.string().min(10, "Description must be at least 10 characters long."),
+  subject: z.enum(subjects, { required_error: "Please select a subject." }),
+  time_limit: z.coerce.number().int().positive("Time limit must be a positive number."),
+  assigned_class_ids: z.array(z.string()),
+  assigned_student_ids: z.array(z.string()),
+  opens_at: z.string(), // datetime-local value in the teacher's time zone; empty for no limit
+  closes_at: z.string(),
+  questions: z.array(questionSchema).min(1, "You must add at least one question."),
+  question_pools: z.array(poolSchema),
+  shuffle_questions: z.boolean(),
+  shuffle_options: z.boolean(),
+}).refine(data => data.question_pools.every(pool => data.questions.filter(q => q.pool_id === pool.id).length >= pool.draw_count), {
+  message: "A pool can't draw more questions than it has.",
+  path: ["question_pools"],
+}).refine(data => data.assigned_class_ids.length > 0 || data.assigned_student_ids.length > 0, {
+  message: "Assign the test to at least one class or student.",
+  path: ["assigned_class_ids"],
+}).refine(data => !data.opens_at || !data.closes_at || new Date(data.opens_at) < new Date(data.closes_at), {
+  message: "The test must close after it opens.",
+  path: ["closes_at"],
+});
+
+// datetime-local values have no zone; the browser reads them as local time.
+export const toIsoTimestamp = (value: string) => (value ? new Date(value).toISOString() : undefined);
+
+// The reverse, for filling the form from a saved test.
+export const toDateTimeLocal = (value?: string) => {
+  if (!value) return "";
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+};
+
+export type TestFormValues = z.infer<typeof testFormSchema>;
+
+// A question as the flows take it: options and tags as plain strings and the image as a data URL.
+export type TestFormQuestion = Omit<TestFormValues["questions"][number], "options" | "image" | "tags"> & { options?: string[]; tags?: string[] };
+
+type TestFormProps = {
+  heading: string;
+  description: string;
+  defaultValues?: DefaultValues<TestFormValues>;
+  // Once students have submitted, questions can be corrected but not added,
+  // removed or changed in kind, marks or options.
+  questionsLocked?: boolean;
+  renderActions: (isSubmitting: boolean) => React.ReactNode;
+  onSubmit: (values: TestFormValues, questions: TestFormQuestion[]) => Promise<void>;
+};
+
+// The test details and questions form, shared by the create and edit pages.
+export function TestForm({ heading, description, defaultValues, questionsLocked = false, renderActions, onSubmit }: TestFormProps) {
+  const { toast } = useToast();
+  // Previews of newly chosen images, by field id so they follow reordering
+  const [previews, setPreviews] = useState<Record<string, string | null>>({});
+  const [isBankOpen, setIsBankOpen] = useState(false);
+
+  const form = useForm<TestFormValues>({
+    resolver: zodResolver(testFormSchema),
+    defaultValues: defaultValues ?? {
+      title: "",
+      description: "",
+      time_limit: 60,
+      assigned_class_ids: [],
+      assigned_student_ids: [],
+      opens_at: "",
+      closes_at: "",
+      questions: [],
+      question_pools: [],
+      shuffle_questions: false,
+      shuffle_options: false,
+    },
+     mode: "onChange",
+  });
+
+  const { fields, append, remove, move } = useFieldArray({
+    control: form.control,
+    name: "questions"
+  });
+
+  const { fields: poolFields, append: appendPool, remove: removePool } = useFieldArray({
+    control: form.control,
+    name: "question_pools",
+  });
+
+  const watchQuestions = form.watch("questions");
+  const watchPools = form.watch("question_pools");
+
+  // Questions of a removed pool are given to every student again.
+  const handleRemovePool = (index: number) => {
+    const poolId = form.getValues(`question_pools.${index}.id`);
+    form.getValues("questions").forEach((question, questionIndex) => {
+      if (question.pool_id === poolId) form.setValue(`questions.${questionIndex}.pool_id`, undefined);
+    });
+    removePool(index);
+  };
+
+  const addFromBank = (bankQuestions: BankQuestionOutput[]) => {
+    append(bankQuestions.map(question => ({
+      bank_question_id: question.id,
+      type: question.type,
+      question_text: question.question_text,
+      marks: question.marks,
+      image_url: question.image_url,
+      answer_format: question.answer_format,
+      options: question.options?.map(value => ({ value })),
+      correct_answer: question.correct_answer,
+      correct_answers: question.correct_answers,
+      scoring: question.scoring,
+      difficulty: question.difficulty,
+      tags: question.tags.join(", "),
+    })));
+  };
+
+  const handleQuestionImageChange = (e: React.ChangeEvent<HTMLInputElement>, fieldId: string) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      if (file.size > MAX_FILE_SIZE) {
+        toast({ variant: "destructive", title: "File too large", description: "Image size cannot exceed 5MB." });
+        return;
+      }
+      if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+        toast({ variant: "destructive", title: "Invalid file type", description: "Please upload a JPG, JPEG, or PNG file."});
+        return;
+      }
+      setPreviews(prev => ({ ...prev, [fieldId]: URL.createObjectURL(file) }));
+    } else {
+      setPreviews(prev => ({ ...prev, [fieldId]: null }));
+    }
+  };
+  
+  // The text box and remove button of an option, shared by MCQ and multi-select questions.
+  const renderOptionInput = (index: number, optIndex: number) => (
+    <>
+      <FormField
+          control={form.control}
+          name={`questions.${index}.options.${optIndex}.value`}
+          render={({ field }) => (
+              <FormItem className="flex-grow">
+                  <FormControl><Input {...field} placeholder={`Option ${optIndex + 1}`} disabled={questionsLocked} /></FormControl>
+              </FormItem>
+          )}
+      />
+      <Button type="button" variant="ghost" size="icon" onClick={() => {
+          const options = form.getValues(`questions.${index}.options`) || [];
+          if(options.length > 2) {
+              const newOptions = options.filter((_, i) => i !== optIndex);
+              form.setValue(`questions.${index}.options`, newOptions);
+          }
+      }} disabled={questionsLocked || (form.getValues(`questions.${index}.options`)?.length ?? 0) <= 2}>
+          <Trash2 className="h-4 w-4" />
+      </Button>
+    </>
+  );
+
+  const renderAddOption = (index: number) => (
+    <Button type="button" variant="outline" size="sm" className="mt-2" disabled={questionsLocked} onClick={() => {
+         const options = form.getValues(`questions.${index}.options`) || [];
+         form.setValue(`questions.${index}.options`, [...options, {value: ''}]);
+    }}>
+        <PlusCircle className="mr-2 h-4 w-4" /> Add Option
+    </Button>
+  );
+
+  async function handleSubmit(values: TestFormValues) {
+    const formattedQuestions = await Promise.all(values.questions.map(async q => {
+        // A newly chosen image replaces the saved one.
+        let imageUrl = q.image_url;
+        if (q.image && q.image[0]) {
+            imageUrl = await toBase64(q.image[0]);
+        }
+        const tags = (q.tags ?? "").split(",").map(tag => tag.trim().toLowerCase()).filter(Boolean);
+        const options = q.options?.map(opt => opt.value);
+        return {
+            ...q,
+            options,
+            // In option order, however they were ticked
+            correct_answers: q.correct_answers && options?.filter(option => q.correct_answers!.includes(option)),
+            image_url: imageUrl,
+            image: undefined, // remove the file object
+            tags: tags.length > 0 ? tags : undefined,
+        };
+    }));
+    await onSubmit(values, formattedQuestions);
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-8">
+        <div className="flex items-center justify-between">
+            <div>
+                <h2 className="text-3xl font-bold font-headline">{heading}</h2>
+                <p className="text-muted-foreground">{description}</p>
+            </div>
+            {renderActions(form.formState.isSubmitting)}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 items-start">
+            {/* Left Column: Test Details */}
+            <div className="lg:col-span-1 space-y-6">
+                 <Card>
+                    <CardHeader><CardTitle>Test Details</CardTitle></CardHeader>
+                    <CardContent className="space-y-4">
+                        <FormField
+                            control={form.control}
+                            name="title"
+                            render={({ field }) => (
+                                <FormItem>
+                                <FormLabel>Test Title</FormLabel>
+                                <FormControl><Input placeholder="e.g., Introduction to Calculus" {...field} /></FormControl>
+                                <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                         <FormField
+                            control={form.control}
+                            name="subject"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Subject</FormLabel>
+                                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                    <FormControl><SelectTrigger><SelectValue placeholder="Select a subject"/></SelectTrigger></FormControl>
+                                    <SelectContent>
+                                        {subjects.map(subject => (
+                                            <SelectItem key={subject} value={subject}>{subject}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                    </Select>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={form.control}
+                            name="description"
+                            render={({ field }) => (
+                                <FormItem>
+                                <FormLabel>Description</FormLabel>
+                                <FormControl><Textarea placeholder="What this test covers." rows={3} {...field} /></FormControl>
+                                <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={form.control}
+                            name="time_limit"
+                            render={({ field }) => (
+                                <FormItem>
+                                <FormLabel>Time Limit (minutes)</FormLabel>
+                                <FormControl><Input type="number" placeholder="60" {...field} /></FormControl>
+                                <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={form.control}
+                            name="opens_at"
+                            render={({ field }) => (
+                                <FormItem>
+                                <FormLabel>Opens (optional)</FormLabel>
+                                <FormControl><Input type="datetime-local" {...field} /></FormControl>
+                                <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={form.control}
+                            name="closes_at"
+                            render={({ field }) => (
+                                <FormItem>
+                                <FormLabel>Closes (optional)</FormLabel>
+                                <FormControl><Input type="datetime-local" {...field} /></FormControl>
+                                <FormDescription>
+                                    Times are in your time zone ({Intl.DateTimeFormat().resolvedOptions().timeZone}). Students see them in theirs.
+                                </FormDescription>
+                                <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={form.control}
+                            name="shuffle_questions"
+                            render={({ field }) => (
+                                <FormItem className="flex items-center gap-2 space-y-0">
+                                <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                                <FormLabel>Shuffle question order</FormLabel>
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={form.control}
+                            name="shuffle_options"
+                            render={({ field }) => (
+                                <FormItem className="flex items-center gap-2 space-y-0">
+                                <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                                <FormLabel>Shuffle MCQ options</FormLabel>
+                                </FormItem>
+                            )}
+                        />
+                        <p className="text-sm text-muted-foreground">Each student gets their own order, which stays the same if they reload the test.</p>
+                    </CardContent>
+                </Card>
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Assign To</CardTitle>
+                        <CardDescription>Only these students will see the test.</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <FormField
+                            control={form.control}
+                            name="assigned_class_ids"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <TestAssignmentPicker
+                                        classIds={field.value}
+                                        studentIds={form.watch("assigned_student_ids")}
+                                        onClassIdsChange={field.onChange}
+                                        onStudentIdsChange={(ids) => form.setValue("assigned_student_ids", ids, { shouldValidate: true })}
+                                    />
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                    </CardContent>
+                </Card>
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Question Pools</CardTitle>
+                        <CardDescription>
+                            Each student gets their own random draw from every pool. Questions outside a pool are given to everyone.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        {poolFields.map((pool, index) => (
+                            <div key={pool.id} className="space-y-2 rounded-md border p-3">
+                                <div className="flex items-start gap-2">
+                                    <FormField
+                                        control={form.control}
+                                        name={`question_pools.${index}.name`}
+                                        render={({ field }) => (
+                                            <FormItem className="flex-grow">
+                                                <FormControl><Input placeholder="e.g., Section A" {...field} disabled={questionsLocked} /></FormControl>
+                                                <FormMessage />
+                                            </FormItem>
+                                        )}
+                                    />
+                                    <Button type="button" variant="ghost" size="icon" onClick={() => handleRemovePool(index)} disabled={questionsLocked}>
+                                        <X className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <FormField
+                                        control={form.control}
+                                        name={`question_pools.${index}.draw_count`}
+                                        render={({ field }) => (
+                                            <FormItem>
+                                                <FormLabel>
+                                                    Draw (of {watchQuestions.filter(q => q.pool_id === watchPools[index]?.id).length})
+                                                </FormLabel>
+                                                <FormControl><Input type="number" {...field} disabled={questionsLocked} /></FormControl>
+                                                <FormMessage />
+                                            </FormItem>
+                                        )}
+                                    />
+                                    <FormField
+                                        control={form.control}
+                                        name={`question_pools.${index}.stratify_by`}
+                                        render={({ field }) => (
+                                            <FormItem>
+                                                <FormLabel>Spread over</FormLabel>
+                                                <Select
+                                                    onValueChange={(value) => field.onChange(value === NOT_STRATIFIED ? undefined : value)}
+                                                    value={field.value ?? NOT_STRATIFIED}
+                                                    disabled={questionsLocked}
+                                                >
+                                                    <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                                                    <SelectContent>
+                                                        <SelectItem value={NOT_STRATIFIED}>Nothing</SelectItem>
+                                                        <SelectItem value="difficulty">Difficulty</SelectItem>
+                                                        <SelectItem value="tag">First tag</SelectItem>
+                                                    </SelectContent>
+                                                </Select>
+                                            </FormItem>
+                                        )}
+                                    />
+                                </div>
+                            </div>
+                        ))}
+                        <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            disabled={questionsLocked}
+                            onClick={() => appendPool({ id: Math.random().toString(36).slice(2, 10), name: `Pool ${poolFields.length + 1}`, draw_count: 1 })}
+                        >
+                            <PlusCircle className="mr-2 h-4 w-4" /> Add Pool
+                        </Button>
+                        <FormMessage>{form.formState.errors.question_pools?.root?.message || form.formState.errors.question_pools?.message}</FormMessage>
+                    </CardContent>
+                </Card>
+            </div>
+
+            {/* Right Column: Questions */}
+            <div className="lg:col-span-2 space-y-6">
+                <Card>
+                    <CardHeader className="flex flex-row items-center justify-between">
+                       <div>
+                         <CardTitle>Questions</CardTitle>
+                         <CardDescription>
+                            {questionsLocked
+                                ? "Students have already submitted this test. You can fix question text and correct answers; create a new version for anything else."
+                                : "Add at least one question to the test."}
+                         </CardDescription>
+                       </div>
+                       <div className="flex gap-2">
+                        <Button type="button" variant="outline" disabled={questionsLocked} onClick={() => setIsBankOpen(true)}>
+                            <Library className="mr-2 h-4 w-4" />
+                            Add from Bank
+                        </Button>
+                        <Button
+                            type="button"
+                            variant="outline"
+                            disabled={questionsLocked}
+                            onClick={() => append({ type: "mcq", question_text: "", marks: 5, options: [{value: ''}, {value: ''}], correct_answer: undefined, answer_format: undefined })}
+                        >
+                            <PlusCircle className="mr-2 h-4 w-4" />
+                            Add Question
+                        </Button>
+                       </div>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        {fields.map((field, index) => (
+                            <Card key={field.id} className="p-4 relative bg-muted/20">
+                                <div className="absolute top-2 right-2 flex">
+                                    <Button type="button" variant="ghost" size="icon" onClick={() => move(index, index - 1)} disabled={index === 0}>
+                                        <ArrowUp className="h-4 w-4" />
+                                    </Button>
+                                    <Button type="button" variant="ghost" size="icon" onClick={() => move(index, index + 1)} disabled={index === fields.length - 1}>
+                                        <ArrowDown className="h-4 w-4" />
+                                    </Button>
+                                    <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} disabled={questionsLocked}>
+                                        <X className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                                <div className="grid grid-cols-1 md:grid-cols-6 gap-4 pt-8">
+                                    <div className="md:col-span-4">
+                                        <FormField
+                                            control={form.control}
+                                            name={`questions.${index}.question_text`}
+                                            render={({ field }) => (
+                                                <FormItem>
+                                                <FormLabel>Question {index + 1}</FormLabel>
+                                                <FormControl><Textarea placeholder="Enter question text..." {...field} rows={2} /></FormControl>
+                                                <FormMessage />
+                                                </FormItem>
+                                            )}
+                                        />
+                                    </div>
+                                    <div className="md:col-span-1">
+                                         <FormField
+                                            control={form.control}
+                                            name={`questions.${index}.type`}
+                                            render={({ field }) => (
+                                                <FormItem>
+                                                    <FormLabel>Type</FormLabel>
+                                                    <Select onValueChange={field.onChange} defaultValue={field.value} disabled={questionsLocked}>
+                                                    <FormControl><SelectTrigger><SelectValue/></SelectTrigger></FormControl>
+                                                    <SelectContent>
+                                                        <SelectItem value="mcq">MCQ</SelectItem>
+                                                        <SelectItem value="multi_select">Select all that apply</SelectItem>
+                                                        <SelectItem value="subjective">Subjective</SelectItem>
+                                                    </SelectContent>
+                                                    </Select>
+                                                    <FormMessage />
+                                                </FormItem>
+                                            )}
+                                        />
+                                    </div>
+                                    <div className="md:col-span-1">
+                                        <FormField
+                                            control={form.control}
+                                            name={`questions.${index}.marks`}
+                                            render={({ field }) => (
+                                                <FormItem>
+                                                <FormLabel>Marks</FormLabel>
+                                                <FormControl><Input type="number" {...field} disabled={questionsLocked} /></FormControl>
+                                                <FormMessage />
+                                                </FormItem>
+                                            )}
+                                        />
+                                    </div>
+                                </div>
+                                {watchPools.length > 0 && (
+                                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+                                        <FormField
+                                            control={form.control}
+                                            name={`questions.${index}.pool_id`}
+                                            render={({ field }) => (
+                                                <FormItem>
+                                                    <FormLabel>Pool</FormLabel>
+                                                    <Select
+                                                        onValueChange={(value) => field.onChange(value === NO_POOL ? undefined : value)}
+                                                        value={field.value ?? NO_POOL}
+                                                        disabled={questionsLocked}
+                                                    >
+                                                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                                                        <SelectContent>
+                                                            <SelectItem value={NO_POOL}>Every student</SelectItem>
+                                                            {watchPools.map(pool => (
+                                                                <SelectItem key={pool.id} value={pool.id}>{pool.name || "Unnamed pool"}</SelectItem>
+                                                            ))}
+                                                        </SelectContent>
+                                                    </Select>
+                                                </FormItem>
+                                            )}
+                                        />
+                                        <FormField
+                                            control={form.control}
+                                            name={`questions.${index}.difficulty`}
+                                            render={({ field }) => (
+                                                <FormItem>
+                                                    <FormLabel>Difficulty</FormLabel>
+                                                    <Select onValueChange={field.onChange} value={field.value} disabled={questionsLocked}>
+                                                        <FormControl><SelectTrigger><SelectValue placeholder="Not set" /></SelectTrigger></FormControl>
+                                                        <SelectContent>
+                                                            <SelectItem value="easy">Easy</SelectItem>
+                                                            <SelectItem value="medium">Medium</SelectItem>
+                                                            <SelectItem value="hard">Hard</SelectItem>
+                                                        </SelectContent>
+                                                    </Select>
+                                                </FormItem>
+                                            )}
+                                        />
+                                        <FormField
+                                            control={form.control}
+                                            name={`questions.${index}.tags`}
+                                            render={({ field }) => (
+                                                <FormItem>
+                                                    <FormLabel>Tags</FormLabel>
+                                                    <FormControl><Input placeholder="e.g., algebra" {...field} value={field.value ?? ""} disabled={questionsLocked} /></FormControl>
+                                                </FormItem>
+                                            )}
+                                        />
+                                    </div>
+                                )}
+                                <div className="mt-4">
+                                  <FormField
+                                    control={form.control}
+                                    name={`questions.${index}.image`}
+                                    render={({ field: imageField }) => (
+                                        <FormItem>
+                                        <FormLabel>Optional Question Image</FormLabel>
+                                        <FormControl>
+                                          <label className="flex flex-col items-center justify-center w-full h-32 border-2 border-dashed rounded-lg cursor-pointer bg-card hover:bg-muted/50">
+                                              {(previews[field.id] ?? watchQuestions[index]?.image_url) ? (
+                                                  <Image src={(previews[field.id] ?? watchQuestions[index]?.image_url)!} alt="Preview" width={200} height={120} className="object-contain h-full w-full p-2" />
+                                              ) : (
+                                              <div className="flex flex-col items-center justify-center pt-5 pb-6">
+                                                  <UploadCloud className="w-8 h-8 mb-2 text-muted-foreground" />
+                                                  <p className="text-xs text-muted-foreground">Upload an image (PNG, JPG)</p>
+                                              </div>
+                                              )}
+                                              <Input 
+                                                  type="file" className="hidden" accept=".jpg,.jpeg,.png"
+                                                  onChange={(e) => {
+                                                      imageField.onChange(e.target.files);
+                                                      handleQuestionImageChange(e, field.id);
+                                                  }}
+                                              />
+                                          </label>
+                                        </FormControl>
+                                        <FormMessage />
+                                        </FormItem>
+                                    )}
+                                  />
+                                </div>
+
+                                <div className="mt-4">
+                                 {watchQuestions[index]?.type === 'subjective' && (
+                                     <>
+                                        <Separator className="mb-4" />
+                                        <FormField
+                                            control={form.control}
+                                            name={`questions.${index}.answer_format`}
+                                            render={({ field }) => (
+                                                <FormItem>
+                                                    <FormLabel>Answer Format</FormLabel>
+                                                    <FormControl>
+                                                        <RadioGroup
+                                                            onValueChange={field.onChange}
+                                                            defaultValue={field.value}
+                                                            disabled={questionsLocked}
+                                                            className="flex items-center gap-4"
+                                                            >
+                                                            <FormItem className="flex items-center space-x-2">
+                                                                <FormControl>
+                                                                <RadioGroupItem value="text" id={`text-${index}`} />
+                                                                </FormControl>
+                                                                <FormLabel htmlFor={`text-${index}`} className="font-normal">Text</FormLabel>
+                                                            </FormItem>
+                                                            <FormItem className="flex items-center space-x-2">
+                                                                <FormControl>
+                                                                <RadioGroupItem value="image" id={`image-${index}`} />
+                                                                </FormControl>
+                                                                <FormLabel htmlFor={`image-${index}`} className="font-normal">Image Upload</FormLabel>
+                                                            </FormItem>
+                                                        </RadioGroup>
+                                                    </FormControl>
+                                                    <FormMessage />
+                                                </FormItem>
+                                            )}
+                                        />
+                                     </>
+                                 )}
+
+                                {watchQuestions[index]?.type === 'mcq' && (
+                                     <div className="mt-4">
+                                        <Separator className="mb-4" />
+                                        <FormLabel>Options & Correct Answer</FormLabel>
+                                         <FormControl>
+                                            <Controller
+                                                name={`questions.${index}.correct_answer`}
+                                                control={form.control}
+                                                render={({ field: radioField }) => (
+                                                    <RadioGroup onValueChange={radioField.onChange} value={radioField.value} className="space-y-2 mt-2">
+                                                        {(watchQuestions[index].options || []).map((opt, optIndex) => (
+                                                            <div key={optIndex} className="flex items-center gap-2">
+                                                                <FormControl>
+                                                                    <RadioGroupItem value={form.watch(`questions.${index}.options.${optIndex}.value`)} />
+                                                                </FormControl>
+                                                                {renderOptionInput(index, optIndex)}
+                                                            </div>
+                                                        ))}
+                                                    </RadioGroup>
+                                                )}
+                                            />
+                                        </FormControl>
+                                        {renderAddOption(index)}
+                                        <FormMessage>{form.formState.errors.questions?.[index]?.correct_answer?.message}</FormMessage>
+                                     </div>
+                                )}
+
+                                {watchQuestions[index]?.type === 'multi_select' && (
+                                     <div className="mt-4">
+                                        <Separator className="mb-4" />
+                                        <FormLabel>Options & Correct Answers</FormLabel>
+                                        <Controller
+                                            name={`questions.${index}.correct_answers`}
+                                            control={form.control}
+                                            render={({ field: checkboxField }) => (
+                                                <div className="space-y-2 mt-2">
+                                                    {(watchQuestions[index].options || []).map((opt, optIndex) => {
+                                                        const value = form.watch(`questions.${index}.options.${optIndex}.value`);
+                                                        const selected = checkboxField.value ?? [];
+                                                        return (
+                                                            <div key={optIndex} className="flex items-center gap-2">
+                                                                <Checkbox
+                                                                    checked={!!value && selected.includes(value)}
+                                                                    onCheckedChange={(checked) => checkboxField.onChange(
+                                                                        checked === true ? [...selected, value] : selected.filter(answer => answer !== value)
+                                                                    )}
+                                                                />
+                                                                {renderOptionInput(index, optIndex)}
+                                                            </div>
+                                                        );
+                                                    })}
+                                                </div>
+                                            )}
+                                        />
+                                        {renderAddOption(index)}
+                                        <FormMessage>{form.formState.errors.questions?.[index]?.correct_answers?.message}</FormMessage>
+                                        <FormField
+                                            control={form.control}
+                                            name={`questions.${index}.scoring`}
+                                            render={({ field }) => (
+                                                <FormItem className="mt-4 max-w-xs">
+                                                    <FormLabel>Scoring</FormLabel>
+                                                    <Select onValueChange={field.onChange} value={field.value}>
+                                                        <FormControl><SelectTrigger><SelectValue placeholder="Choose a rule" /></SelectTrigger></FormControl>
+                                                        <SelectContent>
+                                                            <SelectItem value="all_or_nothing">All or nothing</SelectItem>
+                                                            <SelectItem value="partial">Partial credit per option</SelectItem>
+                                                            <SelectItem value="penalty">Penalty for wrong picks</SelectItem>
+                                                        </SelectContent>
+                                                    </Select>
+                                                    <FormDescription>{scoringDescriptions[field.value ?? "all_or_nothing"]}</FormDescription>
+                                                    <FormMessage />
+                                                </FormItem>
+                                            )}
+                                        />
+                                     </div>
+                                )}
+                                </div>
+                            </Card>
+                        ))}
+                         <FormMessage>{form.formState.errors.questions?.root?.message || form.formState.errors.questions?.message}</FormMessage>
+                    </CardContent>
+                </Card>
+            </div>
+        </div>
+      </form>
+      <QuestionBankPicker
+        open={isBankOpen}
+        onOpenChange={setIsBankOpen}
+        subject={form.watch("subject")}
+        onAdd={addFromBank}
+      />
+    </Form>
+  );
+}
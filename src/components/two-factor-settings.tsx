@@ -0,0 +1,192 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  TwoFactorEnrollment,
+  TwoFactorStatus,
+} from "@/ai/flows/two-factor-flow";
+import { ShieldCheck } from "lucide-react";
+
+// Enrollment, recovery codes and disabling for the signed-in teacher or admin.
+export function TwoFactorSettings() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  async function fetchStatus() {
+    try {
+      setStatus(await getTwoFactorStatus());
+    } catch (error) {
+      console.error("Failed to fetch two-factor status:", error);
+      toast({ variant: "destructive", title: "Error", description: "Could not load two-factor settings." });
+    }
+  }
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  // Runs an action that needs the code field, clearing it afterwards.
+  const runWithCode = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Two-Factor Authentication", description: error.message });
+    } finally {
+      setCode("");
+      setBusy(false);
+    }
+  };
+
+  const handleBegin = () => runWithCode(async () => {
+    setEnrollment(await beginTwoFactorEnrollment());
+  });
+
+  const handleConfirm = () => runWithCode(async () => {
+    const codes = await confirmTwoFactorEnrollment(code);
+    setEnrollment(null);
+    setRecoveryCodes(codes);
+    toast({ title: "Two-Factor Authentication Enabled", description: "You will be asked for a code when you sign in." });
+    await fetchStatus();
+  });
+
+  const handleRegenerate = () => runWithCode(async () => {
+    setRecoveryCodes(await regenerateRecoveryCodes(code));
+    await fetchStatus();
+  });
+
+  const handleDisable = () => runWithCode(async () => {
+    await disableTwoFactor(code);
+    toast({ title: "Two-Factor Authentication Disabled" });
+    await fetchStatus();
+  });
+
+  // Once the recovery codes are saved, reload so a required-setup screen goes away.
+  const handleCodesSaved = () => {
+    setRecoveryCodes(null);
+    router.refresh();
+  };
+
+  const renderBody = () => {
+    if (!status) {
+      return <p className="text-muted-foreground">Loading...</p>;
+    }
+    if (recoveryCodes) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm">
+            Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose access to your authenticator app. They will not be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 rounded-md border p-4 font-mono text-sm">
+            {recoveryCodes.map(recoveryCode => <span key={recoveryCode}>{recoveryCode}</span>)}
+          </div>
+          <Button onClick={handleCodesSaved}>I have saved these codes</Button>
+        </div>
+      );
+    }
+    if (enrollment) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm">Scan this QR code with an authenticator app, then enter the 6-digit code it shows.</p>
+          <img src={enrollment.qr_code_data_url} alt="Two-factor authentication QR code" className="h-44 w-44 rounded-md border" />
+          <p className="text-xs text-muted-foreground">
+            Can&apos;t scan it? Enter this key instead: <span className="font-mono break-all">{enrollment.secret}</span>
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="totp-code">Code</Label>
+            <Input id="totp-code" autoComplete="one-time-code" placeholder="123456" value={code} onChange={e => setCode(e.target.value)} />
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleConfirm} disabled={busy || !code}>{busy ? "Verifying..." : "Verify and Enable"}</Button>
+            <Button variant="ghost" onClick={() => setEnrollment(null)} disabled={busy}>Cancel</Button>
+          </div>
+        </div>
+      );
+    }
+    if (!status.enabled) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Protect your account with a code from an authenticator app in addition to your password.
+          </p>
+          <Button onClick={handleBegin} disabled={busy}>
+            <ShieldCheck className="mr-2 h-4 w-4" />
+            Set Up Two-Factor Authentication
+          </Button>
+        </div>
+      );
+    }
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          You have {status.recovery_codes_remaining} recovery code{status.recovery_codes_remaining === 1 ? "" : "s"} left.
+          Enter a current code to manage your settings.
+        </p>
+        <div className="space-y-2">
+          <Label htmlFor="totp-manage-code">Authenticator or recovery code</Label>
+          <Input id="totp-manage-code" autoComplete="one-time-code" value={code} onChange={e => setCode(e.target.value)} />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={handleRegenerate} disabled={busy || !code}>New Recovery Codes</Button>
+          {!status.required && (
+            <Button variant="destructive" onClick={handleDisable} disabled={busy || !code}>Disable</Button>
+          )}
+        </div>
+        {status.required && (
+          <p className="text-xs text-muted-foreground">Your administrator requires two-factor authentication for your account.</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle>Two-Factor Authentication</CardTitle>
+            <CardDescription>Require a one-time code when signing in.</CardDescription>
+          </div>
+          {status && (
+            status.enabled
+              ? <Badge className="bg-green-600 hover:bg-green-700">On</Badge>
+              : <Badge variant="outline">Off</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>{renderBody()}</CardContent>
+    </Card>
+  );
+}
+
+// Shown in place of the page content while a required enrollment is pending.
+export function TwoFactorSetupRequired() {
+  return (
+    <div className="max-w-xl mx-auto space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold font-headline">Set Up Two-Factor Authentication</h2>
+        <p className="text-muted-foreground">
+          Your administrator requires two-factor authentication for your account. Finish setting it up to continue.
+        </p>
+      </div>
+      <TwoFactorSettings />
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * @fileOverview Append-only audit trail of administrative, grading and account
+ * changes. Flows record an event after each change they make.
+ */
+import { db } from './db';
+import { getClientIp } from './request';
+import { getSession } from './session';
+import type { AuditAction, AuditEvent, Test, User } from './types';
+
+// These values never appear in the log; a change to them is still recorded.
+const REDACTED_FIELDS = new Set([
+  'password',
+  'newPassword',
+  'totp_secret',
+  'totp_pending_secret',
+  'totp_last_used_step',
+  'recovery_code_hashes',
+  'token_hash',
+]);
+const REDACTED = '[redacted]';
+
+type AuditRecord = {
+  // The signed-in user, or null when the system made the change.
+  actor: Pick<User, 'id' | 'username' | 'role'> | null;
+  action: AuditAction;
+  target: { type: AuditEvent['target_type']; id: string; label?: string };
+  // The state before and after the change; only fields that differ are kept.
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+};
+
+function normalize(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+// Field-level diff of two snapshots. Ids are the target, so they are skipped.
+function diffSnapshots(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): AuditEvent['changes'] {
+  const changes: NonNullable<AuditEvent['changes']> = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  for (const key of keys) {
+    if (key === 'id' || key === '_id') continue;
+    const oldValue = normalize(before?.[key]);
+    const newValue = normalize(after?.[key]);
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+    changes[key] = REDACTED_FIELDS.has(key)
+      ? { before: oldValue === undefined ? undefined : REDACTED, after: newValue === undefined ? undefined : REDACTED }
+      : { before: oldValue, after: newValue };
+  }
+  return Object.keys(changes).length ? changes : undefined;
+}
+
+// The request may be missing when a flow runs outside of Next.js, e.g. from the Genkit developer UI.
+async function getRequestContext(): Promise<{ ip: string; impersonatorId?: string }> {
+  try {
+    const session = await getSession();
+    return { ip: await getClientIp(), impersonatorId: session?.impersonator_id };
+  } catch {
+    return { ip: 'unknown' };
+  }
+}
+
+export async function recordAuditEvent({ actor, action, target, before, after }: AuditRecord): Promise<void> {
+  const { ip, impersonatorId } = await getRequestContext();
+  await db.createAuditEvent({
+    actor_id: actor?.id ?? null,
+    actor_name: actor?.username ?? 'System',
+    actor_role: actor?.role,
+    action,
+    target_type: target.type,
+    target_id: target.id,
+    target_label: target.label,
+    changes: diffSnapshots(before, after),
+    ...(impersonatorId && { impersonator_id: impersonatorId }),
+    ip,
+    created_at: new Date(),
+  });
+}
+
+// Targets shared by many events. Labels keep the log readable after a record is deleted.
+export function userTarget(user: Pick<User, 'id' | 'email'>): AuditRecord['target'] {
+  return { type: 'user', id: user.id, label: user.email };
+}
+
+export function testTarget(test: Pick<Test, 'id' | 'title'>): AuditRecord['target'] {
+  return { type: 'test', id: test.id, label: test.title };
+}
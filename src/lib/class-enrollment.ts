@@ -0,0 +1,23 @@
+/**
+ * @fileOverview Matching typed or imported grades and sections to the classes
+ * set up by an admin.
+ */
+import { db } from './db';
+import { getAcademicYear, normalizeGrade, normalizeSection } from './classes';
+import type { SchoolClass } from './types';
+
+/**
+ * Finds this academic year's class for a grade and section as typed by a
+ * person or an identity provider, or null when there is no such class.
+ */
+export async function findCurrentClass(grade: string | undefined, section: string | undefined): Promise<SchoolClass | null> {
+  const normalizedGrade = normalizeGrade(grade);
+  const normalizedSection = normalizeSection(section);
+  if (!normalizedGrade || !normalizedSection) return null;
+  return db.findClass(normalizedGrade, normalizedSection, getAcademicYear());
+}
+
+// The fields a student record gets when enrolled in a class.
+export function enrollmentFields(schoolClass: SchoolClass) {
+  return { class_id: schoolClass.id, class: schoolClass.grade, section: schoolClass.section };
+}
@@ -0,0 +1,60 @@
+import type { Db } from 'mongodb';
+import { getAcademicYear, normalizeGrade, normalizeSection } from './classes';
+
+const MIGRATION_ID = 'normalize-classes';
+
+/**
+ * One-off migration from the free-text User.class and User.section strings to
+ * the classes collection. Each student whose strings can be read as a grade and
+ * section is enrolled in that class for the current academic year, creating it
+ * if needed. Students with unreadable strings are left for an admin to enroll.
+ */
+export async function migrateClassStrings(db: Db) {
+    const settingsCollection = db.collection<{ _id: string; applied?: string[] }>('settings');
+    const migrations = await settingsCollection.findOne({ _id: 'migrations' });
+    if (migrations?.applied?.includes(MIGRATION_ID)) {
+        return;
+    }
+
+    const classesCollection = db.collection('classes');
+    await classesCollection.createIndex({ grade: 1, section: 1, academic_year: 1 }, { unique: true });
+
+    const usersCollection = db.collection('users');
+    const students = await usersCollection
+        .find({ role: 'student', class_id: { $exists: false }, $or: [{ class: { $exists: true } }, { section: { $exists: true } }] })
+        .project({ class: 1, section: 1 })
+        .toArray();
+
+    const academicYear = getAcademicYear();
+    const classIds = new Map<string, string>();
+    let enrolled = 0;
+    for (const student of students) {
+        const grade = normalizeGrade(student.class);
+        const section = normalizeSection(student.section);
+        if (!grade || !section) continue;
+
+        const key = `${grade}-${section}`;
+        let classId = classIds.get(key);
+        if (!classId) {
+            const schoolClass = await classesCollection.findOneAndUpdate(
+                { grade, section, academic_year: academicYear },
+                { $setOnInsert: { grade, section, academic_year: academicYear, created_at: new Date() } },
+                { upsert: true, returnDocument: 'after' }
+            );
+            classId = schoolClass!._id.toString();
+            classIds.set(key, classId);
+        }
+        await usersCollection.updateOne(
+            { _id: student._id },
+            { $set: { class_id: classId, class: grade, section } }
+        );
+        enrolled++;
+    }
+
+    await settingsCollection.updateOne(
+        { _id: 'migrations' },
+        { $addToSet: { applied: MIGRATION_ID } },
+        { upsert: true }
+    );
+    console.log(`Class migration: enrolled ${enrolled} of ${students.length} students in ${classIds.size} classes.`);
+}
@@ -0,0 +1,37 @@
+/**
+ * @fileOverview Normalizing the grade and section strings students type or
+ * import. Free of server dependencies, so forms can use it too.
+ */
+import type { SchoolClass } from './types';
+
+// Academic years start in April, so 2026-03 is still in 2025-26.
+const ACADEMIC_YEAR_START_MONTH = 3; // 0-based
+
+const ROMAN_NUMERALS = ['i', 'ii', 'iii', 'iv', 'v', 'vi', 'vii', 'viii', 'ix', 'x', 'xi', 'xii'];
+
+export function getAcademicYear(date: Date = new Date()): string {
+  const startYear = date.getMonth() >= ACADEMIC_YEAR_START_MONTH ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Turns "10", "10th", "X", "Class 10" or "grade x" into "10". Returns null for
+ * anything that isn't a grade from 1 to 12.
+ */
+export function normalizeGrade(value: string | undefined): string | null {
+  const text = (value ?? '').trim().toLowerCase()
+    .replace(/^(class|grade|std\.?|standard)\s*/, '')
+    .replace(/\s*(st|nd|rd|th)$/, '');
+  const grade = /^\d+$/.test(text) ? Number(text) : ROMAN_NUMERALS.indexOf(text) + 1;
+  return grade >= 1 && grade <= 12 ? String(grade) : null;
+}
+
+// Turns "a", "Sec A" or "section-b" into "A"/"B". Returns null when nothing is left.
+export function normalizeSection(value: string | undefined): string | null {
+  const text = (value ?? '').trim().toUpperCase().replace(/^(SECTION|SEC\.?)[\s-]*/, '');
+  return /^[A-Z0-9]{1,3}$/.test(text) ? text : null;
+}
+
+export function formatClassName(schoolClass: Pick<SchoolClass, 'grade' | 'section'>): string {
+  return `${schoolClass.grade}-${schoolClass.section}`;
+}
@@ -0,0 +1,59 @@
+/**
+ * @fileOverview Minimal RFC 4180 CSV helpers.
+ */
+
+function escapeCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' ? value : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Cells starting with these would be run as formulas by spreadsheet apps.
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// Builds a CSV document from a header row and data rows, with CRLF line endings.
+export function toCsv(header: string[], rows: unknown[][]): string {
+  return [header, ...rows].map(row => row.map(escapeCell).join(',')).join('\r\n');
+}
+
+// Parses a CSV document into rows of cells. Quoted cells may contain commas,
+// doubled quotes and line breaks. Blank lines are dropped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, ''); // byte order mark added by spreadsheet apps
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+}
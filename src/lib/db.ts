@@ -1,7 +1,7 @@
 
 import { Collection, ObjectId } from 'mongodb';
 import { connectToDatabase } from './mongodb';
-import type { User, Test, Submission, Answer, Question } from './types';
+import type { User, Test, Submission, Answer, Question, Session, Invitation, PasswordReset, FailedLogin, TwoFactorChallenge, OidcLoginState, SecuritySettings, EmailVerification, RegistrationSettings, AuditEvent, SchoolClass, TestAttempt, ExamSettings, BankQuestion, QuestionDifficulty } from './types';
 
 // Helper to get a collection
 async function getCollection<T extends Document>(collectionName: string): Promise<Collection<T>> {
@@ -25,36 +25,79 @@ function toObjectId(id: string): ObjectId {
     }
 }
 
+// Helper to build an update; fields passed as undefined are removed from the document
+function toUpdate(data: Record<string, unknown>) {
+  const cleared = Object.keys(data).filter(key => data[key] === undefined);
+  const fields = Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+  return cleared.length > 0
+    ? { $set: fields, $unset: Object.fromEntries(cleared.map(key => [key, ''])) }
+    : { $set: fields };
+}
+
+// Password hashes and 2FA secrets are left out of user documents unless a method explicitly asks for them
+const withoutSecrets = {
+  projection: { password: 0, totp_secret: 0, totp_pending_secret: 0, totp_last_used_step: 0, recovery_code_hashes: 0 },
+};
+
+// Matches email addresses regardless of case, e.g. an account stored as Jane.Doe@school.edu
+// and the lowercase address an identity provider or roster sends.
+const emailCollation = { locale: 'en', strength: 2 };
+
 export const db = {
   // User methods
   getUsers: async (): Promise<User[]> => {
     const usersCollection = await getCollection<any>('users');
-    const users = await usersCollection.find().toArray();
+    const users = await usersCollection.find({}, withoutSecrets).toArray();
     return users.map(mapId);
   },
   getUsersByRole: async (role: 'teacher' | 'student' | 'admin'): Promise<User[]> => {
     const usersCollection = await getCollection<any>('users');
-    const users = await usersCollection.find({ role }).toArray();
+    const users = await usersCollection.find({ role }, withoutSecrets).toArray();
     return users.map(mapId);
   },
   getUserByEmail: async (email: string): Promise<User | null> => {
     const usersCollection = await getCollection<any>('users');
-    const user = await usersCollection.findOne({ email });
+    const user = await usersCollection.findOne({ email }, { ...withoutSecrets, collation: emailCollation });
     return user ? mapId(user) : null;
   },
+  getUsersByEmails: async (emails: string[]): Promise<User[]> => {
+    const usersCollection = await getCollection<any>('users');
+    const users = await usersCollection.find({ email: { $in: emails } }, { ...withoutSecrets, collation: emailCollation }).toArray();
+    return users.map(user => mapId(user) as User);
+  },
   getUserById: async (id: string): Promise<User | null> => {
     const usersCollection = await getCollection<any>('users');
     if (!ObjectId.isValid(id)) {
       return null;
     }
-    const user = await usersCollection.findOne({ _id: toObjectId(id) });
+    const user = await usersCollection.findOne({ _id: toObjectId(id) }, withoutSecrets);
     return user ? mapId(user) : null;
   },
+  // Only for verifying credentials; the result includes the password hash and 2FA secrets.
+  getUserWithPasswordByEmail: async (email: string): Promise<User | null> => {
+    const usersCollection = await getCollection<any>('users');
+    const user = await usersCollection.findOne({ email });
+    return user ? mapId(user) as User : null;
+  },
+  getUserByOidcSubject: async (issuer: string, subject: string): Promise<User | null> => {
+    const usersCollection = await getCollection<any>('users');
+    const user = await usersCollection.findOne({ oidc_issuer: issuer, oidc_subject: subject }, withoutSecrets);
+    return user ? mapId(user) as User : null;
+  },
+  // Only for verifying credentials; the result includes the password hash and 2FA secrets.
+  getUserWithPasswordById: async (id: string): Promise<User | null> => {
+    const usersCollection = await getCollection<any>('users');
+    if (!ObjectId.isValid(id)) {
+      return null;
+    }
+    const user = await usersCollection.findOne({ _id: toObjectId(id) });
+    return user ? mapId(user) as User : null;
+  },
   createUser: async (data: Omit<User, 'id'>): Promise<User> => {
     const usersCollection = await getCollection<any>('users');
     const result = await usersCollection.insertOne({ ...data });
     const insertedId = result.insertedId;
-    const newUser = await usersCollection.findOne({_id: insertedId});
+    const newUser = await usersCollection.findOne({_id: insertedId}, withoutSecrets);
     if (!newUser) throw new Error("Failed to create and retrieve user.");
     return mapId(newUser);
   },
@@ -63,11 +106,192 @@ export const db = {
     const result = await usersCollection.findOneAndUpdate(
       { _id: toObjectId(id) },
       { $set: data },
-      { returnDocument: 'after' }
+      { returnDocument: 'after', ...withoutSecrets }
     );
     if (!result) throw new Error("User not found");
     return mapId(result);
   },
+  // Locking remembers the status the account had, e.g. muted, so unlockUser can restore it.
+  setUserStatus: async (id: string, status: NonNullable<User['status']>, lockedUntil?: string): Promise<User> => {
+    const usersCollection = await getCollection<any>('users');
+    const update = status === 'locked'
+      ? [{
+          $set: {
+            status_before_lock: { $cond: [{ $eq: ['$status', 'locked'] }, '$status_before_lock', { $ifNull: ['$status', 'active'] }] },
+            status,
+            locked_until: lockedUntil ?? '$$REMOVE',
+          },
+        }]
+      : { $set: { status }, $unset: { locked_until: '', status_before_lock: '' } };
+    const result = await usersCollection.findOneAndUpdate(
+      { _id: toObjectId(id) },
+      update,
+      { returnDocument: 'after', ...withoutSecrets }
+    );
+    if (!result) throw new Error("User not found");
+    return mapId(result) as User;
+  },
+  // Ends a lock, putting back the status the account had before it.
+  unlockUser: async (id: string): Promise<User> => {
+    const usersCollection = await getCollection<any>('users');
+    const result = await usersCollection.findOneAndUpdate(
+      { _id: toObjectId(id), status: 'locked' },
+      [
+        { $set: { status: { $ifNull: ['$status_before_lock', 'active'] } } },
+        { $unset: ['locked_until', 'status_before_lock'] },
+      ],
+      { returnDocument: 'after', ...withoutSecrets }
+    );
+    if (!result) {
+      // Not locked (any more); nothing to restore.
+      const user = await usersCollection.findOne({ _id: toObjectId(id) }, withoutSecrets);
+      if (!user) throw new Error("User not found");
+      return mapId(user) as User;
+    }
+    return mapId(result) as User;
+  },
+  enableTwoFactor: async (id: string, secret: string, recoveryCodeHashes: string[]): Promise<void> => {
+    const usersCollection = await getCollection<any>('users');
+    await usersCollection.updateOne(
+      { _id: toObjectId(id) },
+      {
+        $set: { totp_enabled: true, totp_secret: secret, recovery_code_hashes: recoveryCodeHashes },
+        $unset: { totp_pending_secret: '', totp_last_used_step: '' },
+      }
+    );
+  },
+  disableTwoFactor: async (id: string): Promise<void> => {
+    const usersCollection = await getCollection<any>('users');
+    await usersCollection.updateOne(
+      { _id: toObjectId(id) },
+      {
+        $set: { totp_enabled: false },
+        $unset: { totp_secret: '', totp_pending_secret: '', totp_last_used_step: '', recovery_code_hashes: '' },
+      }
+    );
+  },
+  // Records the time step of an accepted code. Returns false if that step (or a later one)
+  // was already used, which means the code is being replayed.
+  consumeTotpStep: async (id: string, step: number): Promise<boolean> => {
+    const usersCollection = await getCollection<any>('users');
+    const result = await usersCollection.updateOne(
+      { _id: toObjectId(id), totp_last_used_step: { $not: { $gte: step } } },
+      { $set: { totp_last_used_step: step } }
+    );
+    return result.modifiedCount === 1;
+  },
+  // Removes a recovery code so it can only be used once. Returns false if it wasn't there.
+  consumeRecoveryCode: async (id: string, codeHash: string): Promise<boolean> => {
+    const usersCollection = await getCollection<any>('users');
+    const result = await usersCollection.updateOne(
+      { _id: toObjectId(id), recovery_code_hashes: codeHash },
+      [{ $set: { recovery_code_hashes: { $setDifference: ['$recovery_code_hashes', [codeHash]] } } }]
+    );
+    return result.modifiedCount === 1;
+  },
+
+  // Class methods. Grades are compared as numbers, so 9 sorts before 10.
+  getClasses: async (): Promise<SchoolClass[]> => {
+    const classesCollection = await getCollection<any>('classes');
+    const classes = await classesCollection
+      .find()
+      .sort({ academic_year: -1, grade: 1, section: 1 })
+      .collation({ locale: 'en', numericOrdering: true })
+      .toArray();
+    return classes.map(schoolClass => mapId(schoolClass) as SchoolClass);
+  },
+  getClassesByYear: async (academicYear: string): Promise<SchoolClass[]> => {
+    const classesCollection = await getCollection<any>('classes');
+    const classes = await classesCollection
+      .find({ academic_year: academicYear })
+      .sort({ grade: 1, section: 1 })
+      .collation({ locale: 'en', numericOrdering: true })
+      .toArray();
+    return classes.map(schoolClass => mapId(schoolClass) as SchoolClass);
+  },
+  getClassById: async (id: string): Promise<SchoolClass | null> => {
+    const classesCollection = await getCollection<any>('classes');
+    if (!ObjectId.isValid(id)) {
+      return null;
+    }
+    const schoolClass = await classesCollection.findOne({ _id: toObjectId(id) });
+    return schoolClass ? mapId(schoolClass) as SchoolClass : null;
+  },
+  findClass: async (grade: string, section: string, academicYear: string): Promise<SchoolClass | null> => {
+    const classesCollection = await getCollection<any>('classes');
+    const schoolClass = await classesCollection.findOne({ grade, section, academic_year: academicYear });
+    return schoolClass ? mapId(schoolClass) as SchoolClass : null;
+  },
+  createClass: async (data: Omit<SchoolClass, 'id'>): Promise<SchoolClass> => {
+    const classesCollection = await getCollection<any>('classes');
+    const result = await classesCollection.insertOne({ ...data });
+    const newClass = await classesCollection.findOne({ _id: result.insertedId });
+    if (!newClass) throw new Error("Failed to create class.");
+    return mapId(newClass) as SchoolClass;
+  },
+  updateClass: async (id: string, data: Partial<Omit<SchoolClass, 'id' | 'created_at'>>): Promise<SchoolClass> => {
+    const classesCollection = await getCollection<any>('classes');
+    const { homeroom_teacher_id, ...fields } = data;
+    // An empty homeroom teacher id clears the field.
+    const update = 'homeroom_teacher_id' in data && !homeroom_teacher_id
+      ? { $set: fields, $unset: { homeroom_teacher_id: '' } }
+      : { $set: data };
+    const result = await classesCollection.findOneAndUpdate(
+      { _id: toObjectId(id) },
+      update,
+      { returnDocument: 'after' }
+    );
+    if (!result) throw new Error("Class not found");
+    return mapId(result) as SchoolClass;
+  },
+  deleteClass: async (id: string): Promise<void> => {
+    const classesCollection = await getCollection<any>('classes');
+    await classesCollection.deleteOne({ _id: toObjectId(id) });
+  },
+  getStudentsByClass: async (classId: string): Promise<User[]> => {
+    const usersCollection = await getCollection<any>('users');
+    const students = await usersCollection
+      .find({ role: 'student', class_id: classId }, withoutSecrets)
+      .sort({ username: 1 })
+      .toArray();
+    return students.map(student => mapId(student) as User);
+  },
+  // Matches the class and section strings, so it also finds students who were never enrolled in a class.
+  getStudentsByClassSection: async (grade: string, section?: string): Promise<User[]> => {
+    const usersCollection = await getCollection<any>('users');
+    const students = await usersCollection
+      .find({ role: 'student', class: grade, ...(section && { section }) }, withoutSecrets)
+      .sort({ section: 1, username: 1 })
+      .toArray();
+    return students.map(student => mapId(student) as User);
+  },
+  // Number of enrolled students, keyed by class id.
+  countStudentsByClass: async (): Promise<Record<string, number>> => {
+    const usersCollection = await getCollection<any>('users');
+    const counts = await usersCollection.aggregate([
+      { $match: { role: 'student', class_id: { $exists: true } } },
+      { $group: { _id: '$class_id', count: { $sum: 1 } } },
+    ]).toArray();
+    return Object.fromEntries(counts.map(({ _id, count }) => [_id, count]));
+  },
+  // Moves the students into the class, keeping their class and section strings in step.
+  enrollStudents: async (studentIds: string[], schoolClass: SchoolClass): Promise<void> => {
+    const usersCollection = await getCollection<any>('users');
+    await usersCollection.updateMany(
+      { _id: { $in: studentIds.map(toObjectId) }, role: 'student' },
+      { $set: { class_id: schoolClass.id, class: schoolClass.grade, section: schoolClass.section } }
+    );
+  },
+  unenrollStudent: async (studentId: string): Promise<User> => {
+    const usersCollection = await getCollection<any>('users');
+    const result = await usersCollection.findOneAndUpdate(
+      { _id: toObjectId(studentId), role: 'student' },
+      { $unset: { class_id: '', class: '', section: '' } },
+      { returnDocument: 'after', ...withoutSecrets }
+    );
+    if (!result) throw new Error("Student not found");
+    return mapId(result) as User;
+  },
 
   // Test methods
   getTests: async (): Promise<Test[]> => {
@@ -75,11 +299,37 @@ export const db = {
     const tests = await testsCollection.find().toArray();
     return tests.map(mapId);
   },
+  // Published and closed tests assigned to the student's class or to the student,
+  // plus unassigned legacy tests.
+  getTestsForStudent: async (student: Pick<User, 'id' | 'class_id'>): Promise<Test[]> => {
+    const testsCollection = await getCollection<any>('tests');
+    const tests = await testsCollection.find({
+      $and: [
+        { $or: [{ status: { $in: ['published', 'closed'] } }, { status: { $exists: false } }] },
+        {
+          $or: [
+            ...(student.class_id ? [{ assigned_class_ids: student.class_id }] : []),
+            { assigned_student_ids: student.id },
+            { assigned_class_ids: { $exists: false }, assigned_student_ids: { $exists: false } },
+          ],
+        },
+      ],
+    }).toArray();
+    return tests.map(test => mapId(test) as Test);
+  },
   getTestsByTeacher: async (teacherId: string): Promise<Test[]> => {
     const testsCollection = await getCollection<any>('tests');
     const tests = await testsCollection.find({ created_by: teacherId }).toArray();
     return tests.map(mapId);
   },
+  // Every version of a test, oldest first.
+  getTestsByVersionGroup: async (groupId: string): Promise<Test[]> => {
+    const testsCollection = await getCollection<any>('tests');
+    const tests = await testsCollection.find({
+      $or: [{ _id: toObjectId(groupId) }, { version_group_id: groupId }],
+    }).toArray();
+    return tests.map(test => mapId(test) as Test).sort((a, b) => (a.version ?? 1) - (b.version ?? 1));
+  },
   getTestById: async (id: string): Promise<Test | null> => {
     const testsCollection = await getCollection<any>('tests');
     const test = await testsCollection.findOne({ _id: toObjectId(id) });
@@ -92,6 +342,54 @@ export const db = {
     if (!newTest) throw new Error("Failed to create and retrieve test.");
     return mapId(newTest);
   },
+  updateTest: async (id: string, data: Partial<Omit<Test, 'id' | 'created_by'>>): Promise<Test> => {
+    const testsCollection = await getCollection<any>('tests');
+    // Passing opens_at or closes_at as undefined removes that end of the window.
+    const result = await testsCollection.findOneAndUpdate(
+      { _id: toObjectId(id) },
+      toUpdate(data),
+      { returnDocument: 'after' }
+    );
+    if (!result) throw new Error("Test not found");
+    return mapId(result) as Test;
+  },
+  // Records when the student started the test. Only the first start counts.
+  startTestAttempt: async (testId: string, studentId: string): Promise<TestAttempt> => {
+    const attemptsCollection = await getCollection<any>('test_attempts');
+    const attempt = await attemptsCollection.findOneAndUpdate(
+      { test_id: testId, student_id: studentId },
+      { $setOnInsert: { test_id: testId, student_id: studentId, started_at: new Date() } },
+      { upsert: true, returnDocument: 'after' }
+    );
+    return mapId(attempt) as TestAttempt;
+  },
+  getTestAttempt: async (testId: string, studentId: string): Promise<TestAttempt | null> => {
+    const attemptsCollection = await getCollection<any>('test_attempts');
+    const attempt = await attemptsCollection.findOne({ test_id: testId, student_id: studentId });
+    return attempt ? mapId(attempt) as TestAttempt : null;
+  },
+  // Keeps the first draw if two requests race to store one.
+  setTestAttemptQuestions: async (attemptId: string, questionIds: string[]): Promise<TestAttempt> => {
+    const attemptsCollection = await getCollection<any>('test_attempts');
+    await attemptsCollection.updateOne(
+      { _id: toObjectId(attemptId), question_ids: { $exists: false } },
+      { $set: { question_ids: questionIds } }
+    );
+    const attempt = await attemptsCollection.findOne({ _id: toObjectId(attemptId) });
+    if (!attempt) throw new Error("Attempt not found");
+    return mapId(attempt) as TestAttempt;
+  },
+  // Like the draw, the first stored order is kept.
+  setTestAttemptOrder: async (attemptId: string, questionOrder: string[], optionOrders: Record<string, number[]>): Promise<TestAttempt> => {
+    const attemptsCollection = await getCollection<any>('test_attempts');
+    await attemptsCollection.updateOne(
+      { _id: toObjectId(attemptId), question_order: { $exists: false } },
+      { $set: { question_order: questionOrder, option_orders: optionOrders } }
+    );
+    const attempt = await attemptsCollection.findOne({ _id: toObjectId(attemptId) });
+    if (!attempt) throw new Error("Attempt not found");
+    return mapId(attempt) as TestAttempt;
+  },
   deleteTest: async (testId: string): Promise<boolean> => {
     const testOid = toObjectId(testId);
     
@@ -108,6 +406,9 @@ export const db = {
     
     const questionsCollection = await getCollection<any>('questions');
     await questionsCollection.deleteMany({ test_id: testId });
+
+    const attemptsCollection = await getCollection<any>('test_attempts');
+    await attemptsCollection.deleteMany({ test_id: testId });
     
     const testsCollection = await getCollection<any>('tests');
     const result = await testsCollection.deleteOne({ _id: testOid });
@@ -119,9 +420,14 @@ export const db = {
   // Question methods
   getQuestionsByTest: async (testId: string): Promise<Question[]> => {
     const questionsCollection = await getCollection<any>('questions');
-    const questions = await questionsCollection.find({ test_id: testId }).toArray();
+    const questions = await questionsCollection.find({ test_id: testId }).sort({ position: 1, _id: 1 }).toArray();
     return questions.map(mapId);
   },
+  getQuestionById: async (id: string): Promise<Question | null> => {
+    const questionsCollection = await getCollection<any>('questions');
+    const question = await questionsCollection.findOne({ _id: toObjectId(id) });
+    return question ? mapId(question) as Question : null;
+  },
   createQuestion: async (data: Omit<Question, 'id'>): Promise<Question> => {
     const questionsCollection = await getCollection<any>('questions');
     const result = await questionsCollection.insertOne({ ...data });
@@ -129,6 +435,29 @@ export const db = {
     if (!newQuestion) throw new Error("Failed to create question.");
     return mapId(newQuestion);
   },
+  updateQuestion: async (id: string, data: Partial<Omit<Question, 'id' | 'test_id'>>): Promise<Question> => {
+    const questionsCollection = await getCollection<any>('questions');
+    // Fields that no longer apply, e.g. the options of a question that is now subjective, are passed as undefined.
+    const result = await questionsCollection.findOneAndUpdate(
+      { _id: toObjectId(id) },
+      toUpdate(data),
+      { returnDocument: 'after' }
+    );
+    if (!result) throw new Error("Question not found");
+    return mapId(result) as Question;
+  },
+  deleteQuestion: async (id: string): Promise<boolean> => {
+    const questionsCollection = await getCollection<any>('questions');
+    const result = await questionsCollection.deleteOne({ _id: toObjectId(id) });
+    return result.deletedCount === 1;
+  },
+  // Numbers the questions in the given order.
+  setQuestionOrder: async (questionIds: string[]): Promise<void> => {
+    const questionsCollection = await getCollection<any>('questions');
+    await questionsCollection.bulkWrite(questionIds.map((id, position) => ({
+      updateOne: { filter: { _id: toObjectId(id) }, update: { $set: { position } } },
+    })));
+  },
 
   // Submission methods
   getSubmissionsByTest: async (testId: string): Promise<Submission[]> => {
@@ -141,6 +470,11 @@ export const db = {
     const submissions = await submissionsCollection.find({ student_id: studentId }).toArray();
     return submissions.map(mapId);
   },
+  getSubmissionByTestAndStudent: async (testId: string, studentId: string): Promise<Submission | null> => {
+    const submissionsCollection = await getCollection<any>('submissions');
+    const submission = await submissionsCollection.findOne({ test_id: testId, student_id: studentId });
+    return submission ? mapId(submission) as Submission : null;
+  },
   getSubmissionById: async (id: string): Promise<Submission | null> => {
     const submissionsCollection = await getCollection<any>('submissions');
     const submission = await submissionsCollection.findOne({ _id: toObjectId(id) });
@@ -184,4 +518,420 @@ export const db = {
     const answers = await answersCollection.find({ submission_id: submissionId }).toArray();
     return answers.map(mapId);
   },
+  // Marks every answer to an MCQ against a new correct answer.
+  markMcqAnswers: async (questionId: string, correctAnswer: string): Promise<void> => {
+    const answersCollection = await getCollection<any>('answers');
+    await answersCollection.updateMany({ question_id: questionId, answer_text: correctAnswer }, { $set: { is_correct: true } });
+    await answersCollection.updateMany({ question_id: questionId, answer_text: { $ne: correctAnswer } }, { $set: { is_correct: false } });
+  },
+  getAnswersByQuestion: async (questionId: string): Promise<Answer[]> => {
+    const answersCollection = await getCollection<any>('answers');
+    const answers = await answersCollection.find({ question_id: questionId }).toArray();
+    return answers.map(answer => mapId(answer) as Answer);
+  },
+  setAnswerMarks: async (marks: { id: string; is_correct: boolean; credit: number }[]): Promise<void> => {
+    if (marks.length === 0) return;
+    const answersCollection = await getCollection<any>('answers');
+    await answersCollection.bulkWrite(marks.map(({ id, is_correct, credit }) => ({
+      updateOne: { filter: { _id: toObjectId(id) }, update: { $set: { is_correct, credit } } },
+    })));
+  },
+
+  // How often each question was answered, and correctly; questions nobody answered are left out.
+  getAnswerStatsByQuestion: async (questionIds: string[]): Promise<Record<string, { answered: number; correct: number }>> => {
+    const answersCollection = await getCollection<any>('answers');
+    const rows = await answersCollection.aggregate([
+      { $match: { question_id: { $in: questionIds }, $or: [{ answer_text: { $ne: null } }, { answer_image_url: { $ne: null } }] } },
+      { $group: { _id: '$question_id', answered: { $sum: 1 }, correct: { $sum: { $cond: ['$is_correct', 1, 0] } } } },
+    ]).toArray();
+    return Object.fromEntries(rows.map(row => [row._id, { answered: row.answered, correct: row.correct }]));
+  },
+
+  // Question bank methods
+  // The teacher's own questions and those others shared, newest first. search matches the text case-insensitively.
+  searchBankQuestions: async (
+    teacherId: string,
+    filter: { search?: string; subject?: string; tag?: string; difficulty?: QuestionDifficulty; type?: BankQuestion['type']; ownOnly?: boolean }
+  ): Promise<BankQuestion[]> => {
+    const bankCollection = await getCollection<any>('question_bank');
+    const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const query: Record<string, any> = filter.ownOnly
+      ? { owner_id: teacherId }
+      : { $or: [{ owner_id: teacherId }, { shared: true }] };
+    if (filter.search) query.question_text = { $regex: escape(filter.search), $options: 'i' };
+    if (filter.subject) query.subject = filter.subject;
+    if (filter.tag) query.tags = filter.tag.toLowerCase();
+    if (filter.difficulty) query.difficulty = filter.difficulty;
+    if (filter.type) query.type = filter.type;
+    const questions = await bankCollection.find(query).sort({ created_at: -1 }).toArray();
+    return questions.map(question => mapId(question) as BankQuestion);
+  },
+  getBankQuestionById: async (id: string): Promise<BankQuestion | null> => {
+    const bankCollection = await getCollection<any>('question_bank');
+    const question = await bankCollection.findOne({ _id: toObjectId(id) });
+    return question ? mapId(question) as BankQuestion : null;
+  },
+  createBankQuestion: async (data: Omit<BankQuestion, 'id'>): Promise<BankQuestion> => {
+    const bankCollection = await getCollection<any>('question_bank');
+    const result = await bankCollection.insertOne({ ...data });
+    const newQuestion = await bankCollection.findOne({ _id: result.insertedId });
+    if (!newQuestion) throw new Error("Failed to create bank question.");
+    return mapId(newQuestion) as BankQuestion;
+  },
+  updateBankQuestion: async (id: string, data: Partial<Omit<BankQuestion, 'id' | 'owner_id' | 'created_at'>>): Promise<BankQuestion> => {
+    const bankCollection = await getCollection<any>('question_bank');
+    const result = await bankCollection.findOneAndUpdate(
+      { _id: toObjectId(id) },
+      toUpdate(data),
+      { returnDocument: 'after' }
+    );
+    if (!result) throw new Error("Bank question not found");
+    return mapId(result) as BankQuestion;
+  },
+  deleteBankQuestion: async (id: string): Promise<boolean> => {
+    const bankCollection = await getCollection<any>('question_bank');
+    const result = await bankCollection.deleteOne({ _id: toObjectId(id) });
+    return result.deletedCount === 1;
+  },
+  // Test questions that were added from any of the given bank questions.
+  getQuestionsByBankQuestions: async (bankQuestionIds: string[]): Promise<Question[]> => {
+    const questionsCollection = await getCollection<any>('questions');
+    const questions = await questionsCollection.find({ bank_question_id: { $in: bankQuestionIds } }).toArray();
+    return questions.map(question => mapId(question) as Question);
+  },
+
+  // Session methods
+  createSession: async (data: Omit<Session, 'id'>): Promise<Session> => {
+    const sessionsCollection = await getCollection<any>('sessions');
+    const result = await sessionsCollection.insertOne({ ...data });
+    const newSession = await sessionsCollection.findOne({ _id: result.insertedId });
+    if (!newSession) throw new Error("Failed to create session.");
+    return mapId(newSession) as Session;
+  },
+  getSessionById: async (id: string): Promise<Session | null> => {
+    const sessionsCollection = await getCollection<any>('sessions');
+    if (!ObjectId.isValid(id)) {
+      return null;
+    }
+    const session = await sessionsCollection.findOne({ _id: toObjectId(id) });
+    return session ? mapId(session) as Session : null;
+  },
+  // Unexpired sessions of a user, most recently used first.
+  getSessionsByUser: async (userId: string): Promise<Session[]> => {
+    const sessionsCollection = await getCollection<any>('sessions');
+    const sessions = await sessionsCollection
+      .find({ user_id: userId, expires_at: { $gt: new Date() } })
+      .sort({ last_seen_at: -1, created_at: -1 })
+      .toArray();
+    return sessions.map(mapId) as Session[];
+  },
+  touchSession: async (id: string, lastSeenAt: Date): Promise<void> => {
+    const sessionsCollection = await getCollection<any>('sessions');
+    await sessionsCollection.updateOne({ _id: toObjectId(id) }, { $set: { last_seen_at: lastSeenAt } });
+  },
+  deleteSession: async (id: string): Promise<boolean> => {
+    const sessionsCollection = await getCollection<any>('sessions');
+    const result = await sessionsCollection.deleteOne({ _id: toObjectId(id) });
+    return result.deletedCount === 1;
+  },
+  deleteSessionsByUser: async (userId: string, exceptSessionId?: string): Promise<number> => {
+    const sessionsCollection = await getCollection<any>('sessions');
+    const filter = exceptSessionId
+      ? { user_id: userId, _id: { $ne: toObjectId(exceptSessionId) } }
+      : { user_id: userId };
+    const result = await sessionsCollection.deleteMany(filter);
+    return result.deletedCount;
+  },
+
+  // Invitation methods
+  createInvitation: async (data: Omit<Invitation, 'id'>): Promise<Invitation> => {
+    const invitationsCollection = await getCollection<any>('invitations');
+    const result = await invitationsCollection.insertOne({ ...data });
+    const newInvitation = await invitationsCollection.findOne({ _id: result.insertedId });
+    if (!newInvitation) throw new Error("Failed to create invitation.");
+    return mapId(newInvitation) as Invitation;
+  },
+  getInvitationById: async (id: string): Promise<Invitation | null> => {
+    const invitationsCollection = await getCollection<any>('invitations');
+    const invitation = await invitationsCollection.findOne({ _id: toObjectId(id) });
+    return invitation ? mapId(invitation) as Invitation : null;
+  },
+  // Returns the invitation only if it can still be accepted.
+  getOpenInvitationByTokenHash: async (tokenHash: string): Promise<Invitation | null> => {
+    const invitationsCollection = await getCollection<any>('invitations');
+    const invitation = await invitationsCollection.findOne({
+      token_hash: tokenHash,
+      accepted_at: { $exists: false },
+      revoked_at: { $exists: false },
+      expires_at: { $gt: new Date() },
+    });
+    return invitation ? mapId(invitation) as Invitation : null;
+  },
+  getPendingInvitations: async (): Promise<Invitation[]> => {
+    const invitationsCollection = await getCollection<any>('invitations');
+    const invitations = await invitationsCollection
+      .find({ accepted_at: { $exists: false }, revoked_at: { $exists: false } })
+      .sort({ created_at: -1 })
+      .toArray();
+    return invitations.map(mapId) as Invitation[];
+  },
+  updateInvitation: async (id: string, data: Partial<Omit<Invitation, 'id'>>): Promise<Invitation> => {
+    const invitationsCollection = await getCollection<any>('invitations');
+    const result = await invitationsCollection.findOneAndUpdate(
+      { _id: toObjectId(id) },
+      { $set: data },
+      { returnDocument: 'after' }
+    );
+    if (!result) throw new Error("Invitation not found");
+    return mapId(result) as Invitation;
+  },
+  // Atomically marks an open invitation as accepted so a token can only be redeemed once.
+  acceptInvitation: async (tokenHash: string): Promise<Invitation | null> => {
+    const invitationsCollection = await getCollection<any>('invitations');
+    const result = await invitationsCollection.findOneAndUpdate(
+      {
+        token_hash: tokenHash,
+        accepted_at: { $exists: false },
+        revoked_at: { $exists: false },
+        expires_at: { $gt: new Date() },
+      },
+      { $set: { accepted_at: new Date() } },
+      { returnDocument: 'after' }
+    );
+    return result ? mapId(result) as Invitation : null;
+  },
+  // Password reset methods
+  createPasswordReset: async (data: Omit<PasswordReset, 'id'>): Promise<PasswordReset> => {
+    const resetsCollection = await getCollection<any>('password_resets');
+    const result = await resetsCollection.insertOne({ ...data });
+    const newReset = await resetsCollection.findOne({ _id: result.insertedId });
+    if (!newReset) throw new Error("Failed to create password reset.");
+    return mapId(newReset) as PasswordReset;
+  },
+  countPasswordResetsSince: async (email: string, since: Date): Promise<number> => {
+    const resetsCollection = await getCollection<any>('password_resets');
+    return resetsCollection.countDocuments({ email, created_at: { $gte: since } });
+  },
+  // Atomically marks an unused, unexpired reset as used so a token works only once.
+  consumePasswordReset: async (tokenHash: string): Promise<PasswordReset | null> => {
+    const resetsCollection = await getCollection<any>('password_resets');
+    const result = await resetsCollection.findOneAndUpdate(
+      {
+        token_hash: tokenHash,
+        used_at: { $exists: false },
+        expires_at: { $gt: new Date() },
+      },
+      { $set: { used_at: new Date() } },
+      { returnDocument: 'after' }
+    );
+    return result ? mapId(result) as PasswordReset : null;
+  },
+  getOpenPasswordResetByTokenHash: async (tokenHash: string): Promise<PasswordReset | null> => {
+    const resetsCollection = await getCollection<any>('password_resets');
+    const reset = await resetsCollection.findOne({
+      token_hash: tokenHash,
+      used_at: { $exists: false },
+      expires_at: { $gt: new Date() },
+    });
+    return reset ? mapId(reset) as PasswordReset : null;
+  },
+  // Called after a successful reset so older links sent to the user stop working.
+  invalidatePasswordResets: async (userId: string): Promise<void> => {
+    const resetsCollection = await getCollection<any>('password_resets');
+    await resetsCollection.updateMany(
+      { user_id: userId, used_at: { $exists: false } },
+      { $set: { used_at: new Date() } }
+    );
+  },
+  // Failed login methods
+  recordFailedLogin: async (data: Omit<FailedLogin, 'id'>): Promise<void> => {
+    const failedLoginsCollection = await getCollection<any>('failed_logins');
+    await failedLoginsCollection.insertOne({ ...data });
+  },
+  // Newest first. `uncleared` limits the result to failures that still count towards a lock.
+  getFailedLogins: async (
+    filter: { email?: string; ip?: string; uncleared?: boolean },
+    since: Date,
+    limit = 100
+  ): Promise<FailedLogin[]> => {
+    const failedLoginsCollection = await getCollection<any>('failed_logins');
+    const query: Record<string, unknown> = { created_at: { $gte: since } };
+    if (filter.email) query.email = filter.email;
+    if (filter.ip) query.ip = filter.ip;
+    if (filter.uncleared) query.cleared_at = { $exists: false };
+    const failedLogins = await failedLoginsCollection
+      .find(query)
+      .sort({ created_at: -1 })
+      .limit(limit)
+      .toArray();
+    return failedLogins.map(mapId) as FailedLogin[];
+  },
+  clearFailedLogins: async (email: string): Promise<void> => {
+    const failedLoginsCollection = await getCollection<any>('failed_logins');
+    await failedLoginsCollection.updateMany(
+      { email, cleared_at: { $exists: false } },
+      { $set: { cleared_at: new Date() } }
+    );
+  },
+  // Two-factor login challenge methods
+  createTwoFactorChallenge: async (data: Omit<TwoFactorChallenge, 'id'>): Promise<TwoFactorChallenge> => {
+    const challengesCollection = await getCollection<any>('two_factor_challenges');
+    const result = await challengesCollection.insertOne({ ...data });
+    const newChallenge = await challengesCollection.findOne({ _id: result.insertedId });
+    if (!newChallenge) throw new Error("Failed to create two-factor challenge.");
+    return mapId(newChallenge) as TwoFactorChallenge;
+  },
+  getTwoFactorChallengeByTokenHash: async (tokenHash: string): Promise<TwoFactorChallenge | null> => {
+    const challengesCollection = await getCollection<any>('two_factor_challenges');
+    const challenge = await challengesCollection.findOne({ token_hash: tokenHash, expires_at: { $gt: new Date() } });
+    return challenge ? mapId(challenge) as TwoFactorChallenge : null;
+  },
+  incrementTwoFactorChallengeAttempts: async (id: string): Promise<void> => {
+    const challengesCollection = await getCollection<any>('two_factor_challenges');
+    await challengesCollection.updateOne({ _id: toObjectId(id) }, { $inc: { attempts: 1 } });
+  },
+  deleteTwoFactorChallenge: async (id: string): Promise<void> => {
+    const challengesCollection = await getCollection<any>('two_factor_challenges');
+    await challengesCollection.deleteOne({ _id: toObjectId(id) });
+  },
+
+  // OIDC login state methods
+  createOidcLoginState: async (data: Omit<OidcLoginState, 'id'>): Promise<OidcLoginState> => {
+    const statesCollection = await getCollection<any>('oidc_login_states');
+    const result = await statesCollection.insertOne({ ...data });
+    const newState = await statesCollection.findOne({ _id: result.insertedId });
+    if (!newState) throw new Error("Failed to create OIDC login state.");
+    return mapId(newState) as OidcLoginState;
+  },
+  // Deletes and returns an unexpired state, so each authorization response is accepted only once.
+  consumeOidcLoginState: async (stateHash: string): Promise<OidcLoginState | null> => {
+    const statesCollection = await getCollection<any>('oidc_login_states');
+    const state = await statesCollection.findOneAndDelete({ state_hash: stateHash, expires_at: { $gt: new Date() } });
+    return state ? mapId(state) as OidcLoginState : null;
+  },
+
+  // Email verification methods
+  createEmailVerification: async (data: Omit<EmailVerification, 'id'>): Promise<EmailVerification> => {
+    const verificationsCollection = await getCollection<any>('email_verifications');
+    const result = await verificationsCollection.insertOne({ ...data });
+    const newVerification = await verificationsCollection.findOne({ _id: result.insertedId });
+    if (!newVerification) throw new Error("Failed to create email verification.");
+    return mapId(newVerification) as EmailVerification;
+  },
+  countEmailVerificationsSince: async (userId: string, since: Date): Promise<number> => {
+    const verificationsCollection = await getCollection<any>('email_verifications');
+    return verificationsCollection.countDocuments({ user_id: userId, created_at: { $gte: since } });
+  },
+  // Atomically marks an unused, unexpired verification as used so a link works only once.
+  consumeEmailVerification: async (tokenHash: string): Promise<EmailVerification | null> => {
+    const verificationsCollection = await getCollection<any>('email_verifications');
+    const result = await verificationsCollection.findOneAndUpdate(
+      {
+        token_hash: tokenHash,
+        used_at: { $exists: false },
+        expires_at: { $gt: new Date() },
+      },
+      { $set: { used_at: new Date() } },
+      { returnDocument: 'after' }
+    );
+    return result ? mapId(result) as EmailVerification : null;
+  },
+  setEmailVerified: async (userId: string): Promise<void> => {
+    const usersCollection = await getCollection<any>('users');
+    await usersCollection.updateOne({ _id: toObjectId(userId) }, { $set: { email_verified: true } });
+    const verificationsCollection = await getCollection<any>('email_verifications');
+    await verificationsCollection.updateMany(
+      { user_id: userId, used_at: { $exists: false } },
+      { $set: { used_at: new Date() } }
+    );
+  },
+
+  // Settings methods. Settings live in one document per area, keyed by _id.
+  getSecuritySettings: async (): Promise<SecuritySettings> => {
+    const settingsCollection = await getCollection<any>('settings');
+    const settings = await settingsCollection.findOne({ _id: 'security' });
+    return {
+      require_two_factor_roles: settings?.require_two_factor_roles ?? [],
+    };
+  },
+  updateSecuritySettings: async (data: Partial<SecuritySettings>): Promise<SecuritySettings> => {
+    const settingsCollection = await getCollection<any>('settings');
+    const result = await settingsCollection.findOneAndUpdate(
+      { _id: 'security' },
+      { $set: data },
+      { upsert: true, returnDocument: 'after' }
+    );
+    return {
+      require_two_factor_roles: result?.require_two_factor_roles ?? [],
+    };
+  },
+  getExamSettings: async (): Promise<ExamSettings> => {
+    const settingsCollection = await getCollection<any>('settings');
+    const settings = await settingsCollection.findOne({ _id: 'exams' });
+    return {
+      submission_grace_minutes: settings?.submission_grace_minutes ?? 5,
+    };
+  },
+  updateExamSettings: async (data: Partial<ExamSettings>): Promise<ExamSettings> => {
+    const settingsCollection = await getCollection<any>('settings');
+    const result = await settingsCollection.findOneAndUpdate(
+      { _id: 'exams' },
+      { $set: data },
+      { upsert: true, returnDocument: 'after' }
+    );
+    return {
+      submission_grace_minutes: result?.submission_grace_minutes ?? 5,
+    };
+  },
+  getRegistrationSettings: async (): Promise<RegistrationSettings> => {
+    const settingsCollection = await getCollection<any>('settings');
+    const settings = await settingsCollection.findOne({ _id: 'registration' });
+    return {
+      allowed_email_domains: settings?.allowed_email_domains ?? [],
+    };
+  },
+  updateRegistrationSettings: async (data: Partial<RegistrationSettings>): Promise<RegistrationSettings> => {
+    const settingsCollection = await getCollection<any>('settings');
+    const result = await settingsCollection.findOneAndUpdate(
+      { _id: 'registration' },
+      { $set: data },
+      { upsert: true, returnDocument: 'after' }
+    );
+    return {
+      allowed_email_domains: result?.allowed_email_domains ?? [],
+    };
+  },
+
+  // Audit log methods. There are deliberately no methods to change or remove events.
+  createAuditEvent: async (data: Omit<AuditEvent, 'id'>): Promise<void> => {
+    const auditCollection = await getCollection<any>('audit_events');
+    await auditCollection.insertOne({ ...data });
+  },
+  // Newest first. actor and target match names case-insensitively, or an exact id.
+  getAuditEvents: async (
+    filter: { actor?: string; action?: string; targetType?: string; target?: string; from?: Date; to?: Date },
+    limit: number
+  ): Promise<AuditEvent[]> => {
+    const auditCollection = await getCollection<any>('audit_events');
+    const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const query: Record<string, any> = {};
+    const and: Record<string, any>[] = [];
+    if (filter.actor) {
+      and.push({ $or: [{ actor_id: filter.actor }, { actor_name: { $regex: escape(filter.actor), $options: 'i' } }] });
+    }
+    if (filter.target) {
+      and.push({ $or: [{ target_id: filter.target }, { target_label: { $regex: escape(filter.target), $options: 'i' } }] });
+    }
+    if (and.length) query.$and = and;
+    if (filter.action) query.action = filter.action;
+    if (filter.targetType) query.target_type = filter.targetType;
+    if (filter.from || filter.to) {
+      query.created_at = {
+        ...(filter.from && { $gte: filter.from }),
+        ...(filter.to && { $lte: filter.to }),
+      };
+    }
+    const events = await auditCollection.find(query).sort({ created_at: -1 }).limit(limit).toArray();
+    return events.map(event => mapId(event) as AuditEvent);
+  },
 };
@@ -0,0 +1,43 @@
+/**
+ * @fileOverview Sends the link a self-registered student uses to confirm their email.
+ */
+import { db } from './db';
+import type { User } from './types';
+import { generateToken } from './tokens';
+import { absoluteUrl, sendMail } from './mail';
+
+const VERIFICATION_TTL_MS = 48 * 60 * 60 * 1000; // 48 hours
+
+// Older links keep working until they expire; whichever is used first verifies the account.
+export async function sendVerificationEmail(user: Pick<User, 'id' | 'email' | 'username'>): Promise<void> {
+  const { token, tokenHash } = generateToken();
+  const now = new Date();
+  await db.createEmailVerification({
+    user_id: user.id,
+    email: user.email,
+    token_hash: tokenHash,
+    created_at: now,
+    expires_at: new Date(now.getTime() + VERIFICATION_TTL_MS),
+  });
+  await sendMail({
+    to: user.email,
+    subject: 'Confirm your ExamZen email address',
+    text: [
+      `Hello ${user.username},`,
+      '',
+      'Thanks for signing up to ExamZen. Open the link below to confirm your email address.',
+      'You can sign in before confirming, but you will not be able to take exams until you do.',
+      'The link expires in 48 hours.',
+      '',
+      absoluteUrl(`/verify-email/${token}`),
+    ].join('\n'),
+  });
+}
+
+// Checks a registration email against the allowed domains, if any are configured.
+export async function isEmailDomainAllowed(email: string): Promise<boolean> {
+  const { allowed_email_domains } = await db.getRegistrationSettings();
+  if (allowed_email_domains.length === 0) return true;
+  const domain = email.split('@').pop()?.toLowerCase() ?? '';
+  return allowed_email_domains.includes(domain);
+}
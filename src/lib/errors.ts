@@ -0,0 +1,26 @@
+/**
+ * @fileOverview Error types shared by the session helpers and flow policies.
+ */
+
+export class AuthorizationError extends Error {
+  constructor(readonly code: 'UNAUTHENTICATED' | 'FORBIDDEN', message: string) {
+    super(message);
+    this.name = 'AuthorizationError';
+  }
+}
+
+// Thrown when there is no valid session.
+export class UnauthenticatedError extends AuthorizationError {
+  constructor(message = 'You must be logged in to do that.') {
+    super('UNAUTHENTICATED', message);
+    this.name = 'UnauthenticatedError';
+  }
+}
+
+// Thrown when the signed-in user is not allowed to perform the action.
+export class ForbiddenError extends AuthorizationError {
+  constructor(message = 'You do not have permission to do that.') {
+    super('FORBIDDEN', message);
+    this.name = 'ForbiddenError';
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * @fileOverview Brute-force protection for sign-in.
+ *
+ * Failed attempts, wrong passwords and wrong 2FA codes alike, are counted per
+ * account and per client IP. Past a few failures each further attempt has to
+ * wait twice as long as the previous one, and an account that reaches LOGIN_LOCK_THRESHOLD failures is locked
+ * for LOGIN_LOCK_MINUTES.
+ */
+import { db } from './db';
+import { recordAuditEvent, userTarget } from './audit';
+import type { User } from './types';
+import { getEffectiveStatus } from './user-status';
+
+const LOCK_THRESHOLD = Number(process.env.LOGIN_LOCK_THRESHOLD || 5);
+const LOCK_DURATION_MS = Number(process.env.LOGIN_LOCK_MINUTES || 15) * 60 * 1000;
+const FAILURE_WINDOW_MS = 15 * 60 * 1000; // failures older than this are forgotten
+
+const ACCOUNT_BACKOFF_AFTER = 3; // failures per account before delays start
+const IP_BACKOFF_AFTER = 10; // failures per IP before delays start
+const BASE_DELAY_MS = 2 * 1000;
+const MAX_DELAY_MS = 15 * 60 * 1000;
+
+function backoffDelay(failures: number, freeAttempts: number): number {
+  if (failures < freeAttempts) return 0;
+  return Math.min(BASE_DELAY_MS * 2 ** (failures - freeAttempts), MAX_DELAY_MS);
+}
+
+// Milliseconds the client has to wait before another attempt is accepted.
+function remainingDelay(failures: { created_at: Date }[], freeAttempts: number, now: number): number {
+  if (failures.length === 0) return 0;
+  const waitUntil = failures[0].created_at.getTime() + backoffDelay(failures.length, freeAttempts);
+  return Math.max(0, waitUntil - now);
+}
+
+// Throws if the account or IP has to wait before trying again. Called before
+// the password is checked so throttled guesses are never evaluated.
+export async function assertLoginAllowed(email: string, ip: string): Promise<void> {
+  const now = Date.now();
+  const since = new Date(now - FAILURE_WINDOW_MS);
+  const [accountFailures, ipFailures] = await Promise.all([
+    db.getFailedLogins({ email, uncleared: true }, since),
+    db.getFailedLogins({ ip }, since),
+  ]);
+  const delay = Math.max(
+    remainingDelay(accountFailures, ACCOUNT_BACKOFF_AFTER, now),
+    remainingDelay(ipFailures, IP_BACKOFF_AFTER, now)
+  );
+  if (delay > 0) {
+    throw new Error(`Too many failed sign-in attempts. Please wait ${Math.ceil(delay / 1000)} seconds and try again.`);
+  }
+}
+
+// Records a failed attempt and locks the account once it reaches the threshold.
+export async function recordLoginFailure(email: string, ip: string, user: User | null): Promise<void> {
+  const now = new Date();
+  await db.recordFailedLogin({ email, ip, user_id: user?.id, created_at: now });
+  if (!user || getEffectiveStatus(user) === 'banned' || getEffectiveStatus(user) === 'locked') {
+    return;
+  }
+
+  const failures = await db.getFailedLogins(
+    { email, uncleared: true },
+    new Date(now.getTime() - FAILURE_WINDOW_MS)
+  );
+  if (failures.length >= LOCK_THRESHOLD) {
+    const lockedUntil = new Date(now.getTime() + LOCK_DURATION_MS).toISOString();
+    await db.setUserStatus(user.id, 'locked', lockedUntil);
+    await db.deleteSessionsByUser(user.id);
+    await recordAuditEvent({
+      actor: null,
+      action: 'user.status_change',
+      target: userTarget(user),
+      before: { status: user.status, locked_until: user.locked_until },
+      after: { status: 'locked', locked_until: lockedUntil },
+    });
+  }
+}
+
+// A successful sign-in (or an admin unlock) starts the account's count afresh.
+export async function resetLoginFailures(email: string): Promise<void> {
+  await db.clearFailedLogins(email);
+}
@@ -0,0 +1,110 @@
+/**
+ * @fileOverview Outgoing email through a pluggable transport.
+ *
+ * MAIL_TRANSPORT picks the implementation:
+ * - "smtp": deliver through the server in SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASSWORD.
+ * - "file": write each message as JSON to MAIL_OUTBOX_DIR (or a folder in the
+ *   system temp dir), so it can be read during development and in tests.
+ * - "console": print each message to the server log.
+ * When unset, SMTP is used if SMTP_HOST is configured and the file outbox otherwise.
+ */
+import { mkdir, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export class SmtpTransport implements MailTransport {
+  private readonly transporter;
+
+  constructor(
+    options: { host: string; port: number; secure: boolean; user?: string; password?: string },
+    private readonly from: string
+  ) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+export class OutboxTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const sentAt = new Date();
+    const fileName = `${sentAt.toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-zA-Z0-9@.-]/g, '_')}.json`;
+    const filePath = path.join(this.directory, fileName);
+    await writeFile(filePath, JSON.stringify({ ...message, sent_at: sentAt.toISOString() }, null, 2));
+    console.log(`Email to ${message.to} written to outbox: ${filePath}`);
+  }
+}
+
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`--- Email to ${message.to} ---\nSubject: ${message.subject}\n\n${message.text}\n---`);
+  }
+}
+
+function createTransport(): MailTransport {
+  const kind = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'file');
+
+  switch (kind) {
+    case 'smtp': {
+      if (!process.env.SMTP_HOST) {
+        throw new Error('Please define the SMTP_HOST environment variable inside .env.local');
+      }
+      const port = Number(process.env.SMTP_PORT || 587);
+      return new SmtpTransport(
+        {
+          host: process.env.SMTP_HOST,
+          port,
+          secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+          user: process.env.SMTP_USER,
+          password: process.env.SMTP_PASSWORD,
+        },
+        process.env.MAIL_FROM || 'ExamZen <no-reply@examzen.local>'
+      );
+    }
+    case 'console':
+      return new ConsoleTransport();
+    case 'file':
+      return new OutboxTransport(process.env.MAIL_OUTBOX_DIR || path.join(os.tmpdir(), 'examzen-outbox'));
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}". Use "smtp", "file" or "console".`);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  transport ??= createTransport();
+  await transport.send(message);
+}
+
+// Lets tests swap in their own transport.
+export function setMailTransport(customTransport: MailTransport | null): void {
+  transport = customTransport;
+}
+
+// Builds a link into the app for use in emails.
+export function absoluteUrl(pathname: string): string {
+  const baseUrl = process.env.APP_URL || 'http://localhost:9002';
+  return new URL(pathname, baseUrl).toString();
+}
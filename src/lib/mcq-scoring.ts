@@ -0,0 +1,111 @@
+/**
+ * @fileOverview Automatic scoring of MCQ and multi-select answers. A
+ * submission's MCQ score is the percentage of full credit its auto-graded
+ * answers earned; an MCQ answer earns all or nothing, a multi-select answer
+ * may earn part, depending on the question's scoring rule.
+ */
+import { db } from './db';
+import { recordAuditEvent } from './audit';
+import type { Answer, Question, User } from './types';
+
+export function isAutoGraded(question: Pick<Question, 'type'>): boolean {
+  return question.type === 'mcq' || question.type === 'multi_select';
+}
+
+// Clears the answer fields that don't apply to the question's type.
+export function clearUnusedAnswerFields<T extends Pick<Question, 'type'>>(fields: T): T {
+  switch (fields.type) {
+    case 'mcq':
+      return { ...fields, answer_format: undefined, correct_answers: undefined, scoring: undefined };
+    case 'multi_select':
+      return { ...fields, answer_format: undefined, correct_answer: undefined };
+    case 'subjective':
+      return { ...fields, options: undefined, correct_answer: undefined, correct_answers: undefined, scoring: undefined };
+  }
+}
+
+// correctCount may be fractional when multi-select answers earn partial credit.
+export function toMcqScore(correctCount: number, totalCount: number): number | null {
+  return totalCount > 0 ? Math.round((correctCount / totalCount) * 100) : null;
+}
+
+export function answerCredit(answer: Pick<Answer, 'is_correct' | 'credit'>): number {
+  return answer.credit ?? (answer.is_correct ? 1 : 0);
+}
+
+// The share of full credit, from 0 to 1, that the picked options earn. Picking
+// nothing earns nothing, so leaving a question blank can't score under 'partial'.
+export function scoreMultiSelect(question: Pick<Question, 'options' | 'correct_answers' | 'scoring'>, picked: string[]): number {
+  const options = question.options ?? [];
+  const correct = new Set(question.correct_answers ?? []);
+  const chosen = new Set(picked.filter(option => options.includes(option)));
+  const correctPicks = [...chosen].filter(option => correct.has(option)).length;
+  const wrongPicks = chosen.size - correctPicks;
+  if (chosen.size === 0) {
+    return 0;
+  }
+  switch (question.scoring ?? 'all_or_nothing') {
+    case 'partial': {
+      const rightlyLeftOut = options.filter(option => !correct.has(option) && !chosen.has(option)).length;
+      return options.length > 0 ? (correctPicks + rightlyLeftOut) / options.length : 0;
+    }
+    case 'penalty':
+      return correct.size > 0 ? Math.max(0, (correctPicks - wrongPicks) / correct.size) : 0;
+    case 'all_or_nothing':
+      return correctPicks === correct.size && wrongPicks === 0 ? 1 : 0;
+  }
+}
+
+async function markMultiSelectAnswers(question: Question): Promise<void> {
+  const answers = await db.getAnswersByQuestion(question.id);
+  await db.setAnswerMarks(answers.map(answer => {
+    const credit = scoreMultiSelect(question, answer.answer_options ?? []);
+    return { id: answer.id, is_correct: credit === 1, credit };
+  }));
+}
+
+/**
+ * Re-marks every answer to the question against its current answer key and
+ * updates the scores of the submissions that changed. Returns how many changed.
+ */
+export async function rescoreMcqQuestion(question: Question, actor: User): Promise<number> {
+  if (question.type === 'mcq' && question.correct_answer) {
+    await db.markMcqAnswers(question.id, question.correct_answer);
+  } else if (question.type === 'multi_select' && question.correct_answers) {
+    await markMultiSelectAnswers(question);
+  } else {
+    return 0;
+  }
+
+  const [test, questions, submissions] = await Promise.all([
+    db.getTestById(question.test_id),
+    db.getQuestionsByTest(question.test_id),
+    db.getSubmissionsByTest(question.test_id),
+  ]);
+  const mcqQuestionIds = new Set(questions.filter(isAutoGraded).map(q => q.id));
+
+  let rescored = 0;
+  for (const submission of submissions) {
+    // With question pools, only the questions the student was given count.
+    const hasSubjective = questions.some(q => q.type === 'subjective' && (!submission.question_ids || submission.question_ids.includes(q.id)));
+    const answers = (await db.getAnswersBySubmission(submission.id)).filter(a => mcqQuestionIds.has(a.question_id));
+    const mcqScore = toMcqScore(answers.reduce((sum, a) => sum + answerCredit(a), 0), answers.length);
+    if (mcqScore === submission.mcq_score) continue;
+
+    // Tests with written answers keep the final score the teacher gave.
+    const after = await db.updateSubmission(submission.id, {
+      mcq_score: mcqScore,
+      ...(!hasSubjective && { final_score: mcqScore }),
+    });
+    const student = await db.getUserById(submission.student_id);
+    await recordAuditEvent({
+      actor,
+      action: 'submission.rescore',
+      target: { type: 'submission', id: submission.id, label: `${student?.username ?? 'Unknown student'} – ${test?.title ?? 'Deleted test'}` },
+      before: { mcq_score: submission.mcq_score, final_score: submission.final_score },
+      after: { mcq_score: after.mcq_score, final_score: after.final_score },
+    });
+    rescored++;
+  }
+  return rescored;
+}
@@ -1,6 +1,7 @@
 
 import { Db, MongoClient } from 'mongodb'
 import { seedAdminUser } from './seed';
+import { migrateClassStrings } from './class-migration';
 
 const MONGODB_URI = process.env.MONGODB_URI!
 const DB_NAME = process.env.DB_NAME!
@@ -33,6 +34,7 @@ export async function connectToDatabase() {
 
   // Seed the database with the admin user if it doesn't exist
   await seedAdminUser(db);
+  await migrateClassStrings(db);
 
   cachedClient = client
   cachedDb = db
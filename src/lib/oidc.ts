@@ -0,0 +1,283 @@
+/**
+ * @fileOverview OpenID Connect sign-in through the school's identity provider,
+ * using the authorization code flow with PKCE.
+ *
+ * The provider is configured with environment variables:
+ *   OIDC_ISSUER          issuer URL; discovery is read from /.well-known/openid-configuration
+ *   OIDC_CLIENT_ID       client registered with the provider
+ *   OIDC_CLIENT_SECRET   only for confidential clients; public clients rely on PKCE alone
+ *   OIDC_PROVIDER_NAME   label for the sign-in button (default "School Account")
+ *   OIDC_SCOPES          default "openid email profile"
+ *   OIDC_ROLE_CLAIM      claim holding the user's roles or groups (default "roles");
+ *                        dotted paths such as "realm_access.roles" are supported
+ *   OIDC_ROLE_MAP        comma-separated value=role pairs, e.g. "pupil=student,staff=teacher"
+ *   OIDC_DEFAULT_ROLE    role for users with no mapped value; when unset they are refused
+ *   OIDC_CLASS_CLAIM     claim holding a student's grade (default "class")
+ *   OIDC_SECTION_CLAIM   claim holding a student's section (default "section"); together
+ *                        they enroll the student in the matching class for this academic year
+ *   OIDC_TRUST_EMAIL     "true" to link accounts by email even without email_verified
+ *
+ * Plain http issuers are only accepted on localhost, which is enough to point
+ * OIDC_ISSUER at a mock provider during development: `npm run oidc:mock` starts
+ * one on http://localhost:9400 (see scripts/mock-oidc-issuer.ts).
+ */
+import { createHash, randomBytes } from 'crypto';
+import { cookies } from 'next/headers';
+import { createRemoteJWKSet, jwtVerify, type JWTPayload } from 'jose';
+import { db } from './db';
+import { absoluteUrl } from './mail';
+import { generateToken } from './tokens';
+import type { User } from './types';
+
+const OIDC_COOKIE_NAME = 'examzen_oidc';
+const LOGIN_STATE_TTL_MS = 10 * 60 * 1000; // 10 minutes to finish signing in at the provider
+const CALLBACK_PATH = '/api/auth/oidc/callback';
+
+// When several claim values map to roles, the most privileged one wins.
+const ROLE_PRECEDENCE: User['role'][] = ['admin', 'teacher', 'student'];
+
+type OidcDiscovery = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  jwks_uri: string;
+};
+
+// The parts of the provider's claims that ExamZen uses.
+export type OidcProfile = {
+  issuer: string;
+  subject: string;
+  email: string;
+  email_verified: boolean;
+  username: string;
+  role: User['role'] | null; // null when no claim value maps to a role
+  class?: string;
+  section?: string;
+};
+
+export function isOidcEnabled(): boolean {
+  return !!process.env.OIDC_ISSUER && !!process.env.OIDC_CLIENT_ID;
+}
+
+export function getOidcProviderName(): string {
+  return process.env.OIDC_PROVIDER_NAME || 'School Account';
+}
+
+function getIssuer(): string {
+  const issuer = process.env.OIDC_ISSUER;
+  if (!issuer || !process.env.OIDC_CLIENT_ID) {
+    throw new Error('Single sign-on is not configured.');
+  }
+  const url = new URL(issuer);
+  if (url.protocol !== 'https:' && url.hostname !== 'localhost' && url.hostname !== '127.0.0.1') {
+    throw new Error('OIDC_ISSUER must use https.');
+  }
+  return issuer.replace(/\/$/, '');
+}
+
+let discovery: Promise<OidcDiscovery> | null = null;
+let jwks: ReturnType<typeof createRemoteJWKSet> | null = null;
+
+async function fetchDiscovery(issuer: string): Promise<OidcDiscovery> {
+  const response = await fetch(`${issuer}/.well-known/openid-configuration`, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed with status ${response.status}.`);
+  }
+  const document = (await response.json()) as OidcDiscovery;
+  if (document.issuer.replace(/\/$/, '') !== issuer) {
+    throw new Error('OIDC discovery returned a different issuer.');
+  }
+  return document;
+}
+
+// The discovery document is fetched once per process; a failed fetch is retried next time.
+function getDiscovery(): Promise<OidcDiscovery> {
+  if (!discovery) {
+    discovery = fetchDiscovery(getIssuer()).catch(error => {
+      discovery = null;
+      throw error;
+    });
+  }
+  return discovery;
+}
+
+function getRedirectUri(): string {
+  return absoluteUrl(CALLBACK_PATH);
+}
+
+function base64Url(buffer: Buffer): string {
+  return buffer.toString('base64url');
+}
+
+/**
+ * Records a login attempt and returns the provider URL to send the browser to.
+ * The state is kept in an httpOnly cookie so the callback can only be completed
+ * by the browser that started it.
+ */
+export async function startOidcLogin(): Promise<string> {
+  const config = await getDiscovery();
+  const { token: state, tokenHash: stateHash } = generateToken();
+  const nonce = base64Url(randomBytes(16));
+  const codeVerifier = base64Url(randomBytes(32));
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + LOGIN_STATE_TTL_MS);
+
+  await db.createOidcLoginState({
+    state_hash: stateHash,
+    nonce,
+    code_verifier: codeVerifier,
+    created_at: now,
+    expires_at: expiresAt,
+  });
+
+  const cookieStore = await cookies();
+  cookieStore.set(OIDC_COOKIE_NAME, state, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax', // the provider redirects back with a top-level GET
+    path: '/',
+    expires: expiresAt,
+  });
+
+  const url = new URL(config.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', process.env.OIDC_CLIENT_ID!);
+  url.searchParams.set('redirect_uri', getRedirectUri());
+  url.searchParams.set('scope', process.env.OIDC_SCOPES || 'openid email profile');
+  url.searchParams.set('state', state);
+  url.searchParams.set('nonce', nonce);
+  url.searchParams.set('code_challenge', base64Url(createHash('sha256').update(codeVerifier).digest()));
+  url.searchParams.set('code_challenge_method', 'S256');
+  return url.toString();
+}
+
+export async function getOidcStateCookie(): Promise<string | undefined> {
+  const cookieStore = await cookies();
+  return cookieStore.get(OIDC_COOKIE_NAME)?.value;
+}
+
+export async function clearOidcStateCookie(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete(OIDC_COOKIE_NAME);
+}
+
+async function exchangeCode(config: OidcDiscovery, code: string, codeVerifier: string) {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: getRedirectUri(),
+    client_id: process.env.OIDC_CLIENT_ID!,
+    code_verifier: codeVerifier,
+  });
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+  const clientSecret = process.env.OIDC_CLIENT_SECRET;
+  if (clientSecret) {
+    const credentials = `${encodeURIComponent(process.env.OIDC_CLIENT_ID!)}:${encodeURIComponent(clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const response = await fetch(config.token_endpoint, { method: 'POST', headers, body, cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`OIDC token request failed with status ${response.status}.`);
+  }
+  const tokens = await response.json();
+  if (typeof tokens.id_token !== 'string') {
+    throw new Error('The identity provider did not return an ID token.');
+  }
+  return tokens as { id_token: string; access_token?: string };
+}
+
+// Extra claims some providers only release from the userinfo endpoint.
+async function fetchUserInfo(config: OidcDiscovery, accessToken: string, subject: string): Promise<JWTPayload> {
+  const response = await fetch(config.userinfo_endpoint!, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+    cache: 'no-store',
+  });
+  if (!response.ok) return {};
+  const claims = (await response.json()) as JWTPayload;
+  return claims.sub === subject ? claims : {};
+}
+
+function getClaim(claims: JWTPayload, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    claims
+  );
+}
+
+function getStringClaim(claims: JWTPayload, path: string): string | undefined {
+  const value = getClaim(claims, path);
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+function parseRoleMap(): Map<string, User['role']> {
+  const map = new Map<string, User['role']>();
+  for (const pair of (process.env.OIDC_ROLE_MAP || 'student=student,teacher=teacher,admin=admin').split(',')) {
+    const [value, role] = pair.split('=').map(part => part.trim());
+    if (value && ROLE_PRECEDENCE.includes(role as User['role'])) {
+      map.set(value.toLowerCase(), role as User['role']);
+    }
+  }
+  return map;
+}
+
+function mapRole(claims: JWTPayload): User['role'] | null {
+  const raw = getClaim(claims, process.env.OIDC_ROLE_CLAIM || 'roles');
+  const values = (Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(/[\s,]+/) : [])
+    .filter((value): value is string => typeof value === 'string')
+    .map(value => value.toLowerCase());
+  const roleMap = parseRoleMap();
+  const roles = values.map(value => roleMap.get(value)).filter(Boolean);
+  const role = ROLE_PRECEDENCE.find(candidate => roles.includes(candidate));
+  if (role) return role;
+
+  const defaultRole = process.env.OIDC_DEFAULT_ROLE as User['role'] | undefined;
+  return defaultRole && ROLE_PRECEDENCE.includes(defaultRole) ? defaultRole : null;
+}
+
+function toProfile(issuer: string, claims: JWTPayload): OidcProfile {
+  const email = getStringClaim(claims, 'email')?.toLowerCase();
+  if (!claims.sub || !email) {
+    throw new Error('Your identity provider did not share an email address.');
+  }
+  return {
+    issuer,
+    subject: claims.sub,
+    email,
+    email_verified: claims.email_verified === true || process.env.OIDC_TRUST_EMAIL === 'true',
+    username: getStringClaim(claims, 'name') || getStringClaim(claims, 'preferred_username') || email,
+    role: mapRole(claims),
+    class: getStringClaim(claims, process.env.OIDC_CLASS_CLAIM || 'class'),
+    section: getStringClaim(claims, process.env.OIDC_SECTION_CLAIM || 'section'),
+  };
+}
+
+/**
+ * Finishes the login started by startOidcLogin: redeems the code, verifies the
+ * ID token's signature, issuer, audience and nonce, and returns the mapped profile.
+ */
+export async function completeOidcAuthorization(stateHash: string, code: string): Promise<OidcProfile> {
+  const loginState = await db.consumeOidcLoginState(stateHash);
+  if (!loginState) {
+    throw new Error('Your sign-in attempt has expired. Please try again.');
+  }
+
+  const config = await getDiscovery();
+  const tokens = await exchangeCode(config, code, loginState.code_verifier);
+  jwks ??= createRemoteJWKSet(new URL(config.jwks_uri));
+  const { payload } = await jwtVerify(tokens.id_token, jwks, {
+    issuer: config.issuer,
+    audience: process.env.OIDC_CLIENT_ID!,
+  });
+  if (payload.nonce !== loginState.nonce) {
+    throw new Error('The identity provider response did not match this sign-in attempt.');
+  }
+
+  const userInfo = config.userinfo_endpoint && tokens.access_token
+    ? await fetchUserInfo(config, tokens.access_token, payload.sub!)
+    : {};
+  return toProfile(config.issuer, { ...userInfo, ...payload });
+}
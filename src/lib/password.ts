@@ -0,0 +1,55 @@
+/**
+ * @fileOverview Password hashing with scrypt from Node's crypto module.
+ *
+ * Hashes are stored as "scrypt$N$r$p$salt$hash". Accounts created before
+ * hashing was introduced still hold their password in plaintext; those are
+ * recognised by the missing prefix and upgraded on the next login.
+ */
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'crypto';
+
+const HASH_PREFIX = 'scrypt';
+const KEY_LENGTH = 64;
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+
+function deriveKey(password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, options, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const { N, r, p } = SCRYPT_PARAMS;
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, { N, r, p });
+  return [HASH_PREFIX, N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+export function isPasswordHashed(stored: string): boolean {
+  return stored.startsWith(`${HASH_PREFIX}$`);
+}
+
+export async function verifyPassword(password: string, stored: string | undefined): Promise<boolean> {
+  if (!stored) return false;
+
+  if (!isPasswordHashed(stored)) {
+    // Legacy plaintext password.
+    const expected = Buffer.from(stored);
+    const actual = Buffer.from(password);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  const [, N, r, p, salt, hash] = stored.split('$');
+  const expected = Buffer.from(hash, 'base64');
+  const key = await deriveKey(password, Buffer.from(salt, 'base64'), { N: Number(N), r: Number(r), p: Number(p) });
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
+
+// True when the stored value is plaintext or was hashed with outdated parameters.
+export function needsRehash(stored: string): boolean {
+  if (!isPasswordHashed(stored)) return true;
+  const [, N, r, p] = stored.split('$');
+  return Number(N) !== SCRYPT_PARAMS.N || Number(r) !== SCRYPT_PARAMS.r || Number(p) !== SCRYPT_PARAMS.p;
+}
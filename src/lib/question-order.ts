@@ -0,0 +1,65 @@
+/**
+ * @fileOverview Per-student question and option order. The order is seeded by
+ * the student's attempt and stored on it, so a reload shows the same exam.
+ * Questions and options keep their ids and text, so answers, grading and
+ * analytics don't depend on the order a student saw.
+ */
+import { db } from './db';
+import { seededRandom, shuffle } from './question-pools';
+import type { Question, Test, TestAttempt } from './types';
+
+export function hasShuffling(test: Pick<Test, 'shuffle_questions' | 'shuffle_options'>): boolean {
+  return !!test.shuffle_questions || !!test.shuffle_options;
+}
+
+// Seeded separately from the pool draw, so turning shuffling on doesn't change it.
+function orderQuestions(test: Test, questions: Question[], seed: string) {
+  const random = seededRandom(`${seed}:order`);
+  const questionOrder = test.shuffle_questions
+    ? shuffle(questions.map(question => question.id), random)
+    : questions.map(question => question.id);
+  const optionOrders: Record<string, number[]> = {};
+  if (test.shuffle_options) {
+    for (const question of questions) {
+      if (question.options) {
+        optionOrders[question.id] = shuffle(question.options.map((_, index) => index), random);
+      }
+    }
+  }
+  return { questionOrder, optionOrders };
+}
+
+function applyOrder(questions: Question[], attempt: TestAttempt): Question[] {
+  const order = attempt.question_order ?? [];
+  // Questions added after the order was stored go last, in test order.
+  const rank = (question: Question) => {
+    const index = order.indexOf(question.id);
+    return index === -1 ? order.length : index;
+  };
+  return [...questions]
+    .sort((a, b) => rank(a) - rank(b))
+    .map(question => {
+      const optionOrder = attempt.option_orders?.[question.id];
+      // An order stored before the options were edited no longer fits them.
+      if (!question.options || !optionOrder || optionOrder.length !== question.options.length) {
+        return question;
+      }
+      return { ...question, options: optionOrder.map(index => question.options![index]) };
+    });
+}
+
+/**
+ * Puts the attempt's questions in the order the student sees them. The first
+ * call stores the order; later calls reuse it, even if the teacher has since
+ * turned shuffling off.
+ */
+export async function arrangeForAttempt(test: Test, attempt: TestAttempt, questions: Question[]): Promise<Question[]> {
+  if (attempt.question_order) {
+    return applyOrder(questions, attempt);
+  }
+  if (!hasShuffling(test)) {
+    return questions;
+  }
+  const { questionOrder, optionOrders } = orderQuestions(test, questions, attempt.id);
+  return applyOrder(questions, await db.setTestAttemptOrder(attempt.id, questionOrder, optionOrders));
+}
@@ -0,0 +1,112 @@
+/**
+ * @fileOverview Randomized question pools. Each student is given draw_count
+ * questions from every pool of a test, plus every question outside a pool.
+ * The draw is seeded by the student's attempt and stored on it, so reloading
+ * the exam, submitting and grading all see the same questions.
+ */
+import { createHash } from 'crypto';
+import { db } from './db';
+import type { Question, QuestionPool, Test, TestAttempt } from './types';
+
+type PooledQuestion = Pick<Question, 'id' | 'pool_id' | 'difficulty' | 'tags'>;
+
+export function hasQuestionPools(test: Pick<Test, 'question_pools'>): boolean {
+  return (test.question_pools?.length ?? 0) > 0;
+}
+
+// Every pool needs enough questions to draw from, and every pooled question a pool.
+export function assertQuestionPools(pools: QuestionPool[], questions: Pick<Question, 'pool_id'>[]): void {
+  for (const pool of pools) {
+    const size = questions.filter(question => question.pool_id === pool.id).length;
+    if (size < pool.draw_count) {
+      throw new Error(`The pool "${pool.name}" draws ${pool.draw_count} question(s) but only has ${size}.`);
+    }
+  }
+  if (questions.some(question => question.pool_id && !pools.some(pool => pool.id === question.pool_id))) {
+    throw new Error('A question belongs to a pool that no longer exists.');
+  }
+}
+
+// mulberry32, seeded from a hash of the seed string.
+export function seededRandom(seed: string): () => number {
+  let state = createHash('sha256').update(seed).digest().readUInt32LE(0);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+function stratumOf(question: PooledQuestion, pool: QuestionPool): string {
+  if (pool.stratify_by === 'difficulty') return question.difficulty ?? '';
+  if (pool.stratify_by === 'tag') return question.tags?.[0] ?? '';
+  return '';
+}
+
+// Shuffles each stratum, then takes one question from each in turn, so e.g.
+// 6 of a pool with easy, medium and hard questions gives 2 of each.
+function drawFromPool<T extends PooledQuestion>(pool: QuestionPool, questions: T[], random: () => number): T[] {
+  const strata = new Map<string, T[]>();
+  for (const question of questions) {
+    const key = stratumOf(question, pool);
+    strata.set(key, [...(strata.get(key) ?? []), question]);
+  }
+  // The strata are shuffled too, so a remainder doesn't always favour the same one.
+  const queues = shuffle([...strata.keys()].sort().map(key => shuffle(strata.get(key)!, random)), random);
+  return cycle(queues).slice(0, pool.draw_count);
+}
+
+// Interleaves the queues: the first of each, then the second of each, and so on.
+function cycle<T>(queues: T[][]): T[] {
+  const longest = Math.max(0, ...queues.map(queue => queue.length));
+  const items: T[] = [];
+  for (let i = 0; i < longest; i++) {
+    for (const queue of queues) {
+      if (i < queue.length) items.push(queue[i]);
+    }
+  }
+  return items;
+}
+
+/**
+ * Draws a student's questions. The result keeps the test's order. Pools with
+ * fewer questions than they draw give all of them.
+ */
+export function drawQuestions<T extends PooledQuestion>(pools: QuestionPool[], questions: T[], seed: string): T[] {
+  const random = seededRandom(seed);
+  const drawnIds = new Set<string>();
+  for (const pool of pools) {
+    const poolQuestions = questions.filter(question => question.pool_id === pool.id);
+    drawFromPool(pool, poolQuestions, random).forEach(question => drawnIds.add(question.id));
+  }
+  return questions.filter(question =>
+    !question.pool_id || !pools.some(pool => pool.id === question.pool_id) || drawnIds.has(question.id)
+  );
+}
+
+/**
+ * The questions the student was given in this attempt. The first call draws
+ * and stores them; later calls return the stored draw.
+ */
+export async function getAttemptQuestions(test: Test, attempt: TestAttempt): Promise<Question[]> {
+  const questions = await db.getQuestionsByTest(test.id);
+  if (!hasQuestionPools(test)) {
+    return questions;
+  }
+  let questionIds = attempt.question_ids;
+  if (!questionIds) {
+    const drawn = drawQuestions(test.question_pools!, questions, attempt.id);
+    questionIds = (await db.setTestAttemptQuestions(attempt.id, drawn.map(question => question.id))).question_ids!;
+  }
+  return questions.filter(question => questionIds!.includes(question.id));
+}
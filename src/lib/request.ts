@@ -0,0 +1,20 @@
+/**
+ * @fileOverview Details about the incoming request. Like the session helpers,
+ * these read request headers and only work on the server.
+ */
+import { headers } from 'next/headers';
+
+// The first address in X-Forwarded-For is the client when running behind a proxy.
+export async function getClientIp(): Promise<string> {
+  const headerList = await headers();
+  const forwardedFor = headerList.get('x-forwarded-for');
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim();
+  }
+  return headerList.get('x-real-ip') ?? 'unknown';
+}
+
+export async function getUserAgent(): Promise<string | undefined> {
+  const headerList = await headers();
+  return headerList.get('user-agent') ?? undefined;
+}
@@ -1,5 +1,6 @@
 
 import type { Db } from 'mongodb';
+import { hashPassword } from './password';
 
 export async function seedAdminUser(db: Db) {
     const usersCollection = db.collection('users');
@@ -11,7 +12,7 @@ export async function seedAdminUser(db: Db) {
         await usersCollection.insertOne({
             username: 'Admin User',
             email: adminEmail,
-            password: 'password', // In a real app, this should be hashed
+            password: await hashPassword('password'),
             role: 'admin',
             status: 'active',
         });
@@ -0,0 +1,78 @@
+/**
+ * @fileOverview Signing and verification of the session cookie value.
+ * Only the Web Crypto API is used here so the same code can run in
+ * server actions and in the Edge runtime.
+ */
+import type { User } from './types';
+
+export const SESSION_COOKIE_NAME = 'examzen_session';
+
+export type SessionTokenPayload = {
+  sid: string; // session id in the sessions collection
+  uid: string; // user id
+  role: User['role'];
+  exp: number; // expiry, in milliseconds since epoch
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('Please define the SESSION_SECRET environment variable inside .env.local');
+  }
+  return secret;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+async function getSigningKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getSessionSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+// Produces "<payload>.<signature>", both base64url encoded.
+export async function signSessionToken(payload: SessionTokenPayload): Promise<string> {
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// Returns the payload if the signature is valid and the token has not expired.
+export async function verifySessionToken(token: string | undefined): Promise<SessionTokenPayload | null> {
+  if (!token) return null;
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  try {
+    const isValid = await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(),
+      fromBase64Url(signature),
+      encoder.encode(body)
+    );
+    if (!isValid) return null;
+
+    const payload = JSON.parse(decoder.decode(fromBase64Url(body))) as SessionTokenPayload;
+    if (typeof payload.exp !== 'number' || payload.exp < Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
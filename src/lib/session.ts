@@ -0,0 +1,154 @@
+/**
+ * @fileOverview Cookie-based sessions backed by the sessions collection.
+ * These helpers read request cookies, so they must only be called from
+ * server actions, route handlers or server components.
+ */
+import { cookies } from 'next/headers';
+import { db } from './db';
+import type { Session, User } from './types';
+import { ForbiddenError, UnauthenticatedError } from './errors';
+import { canSignIn } from './user-status';
+import { SESSION_COOKIE_NAME, signSessionToken, verifySessionToken } from './session-token';
+import { getClientIp, getUserAgent } from './request';
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const IMPERSONATION_TTL_MS = 60 * 60 * 1000; // 1 hour
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000; // how often last_seen_at is refreshed
+// Holds the admin's own session cookie while they are impersonating someone
+const ADMIN_SESSION_COOKIE_NAME = 'examzen_admin_session';
+
+async function setSessionCookie(name: string, token: string, expiresAt: Date): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.set(name, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+// Starts a new session for the user and sets the signed cookie on the response.
+export async function createSession(
+  user: Pick<User, 'id' | 'role'>,
+  options: { impersonatorId?: string } = {}
+): Promise<Session> {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + (options.impersonatorId ? IMPERSONATION_TTL_MS : SESSION_TTL_MS));
+
+  const session = await db.createSession({
+    user_id: user.id,
+    role: user.role,
+    created_at: now,
+    expires_at: expiresAt,
+    last_seen_at: now,
+    user_agent: await getUserAgent(),
+    ip: await getClientIp(),
+    ...(options.impersonatorId && { impersonator_id: options.impersonatorId }),
+  });
+
+  const token = await signSessionToken({
+    sid: session.id,
+    uid: user.id,
+    role: user.role,
+    exp: expiresAt.getTime(),
+  });
+  await setSessionCookie(SESSION_COOKIE_NAME, token, expiresAt);
+
+  return session;
+}
+
+// Returns the session referenced by the request cookie, if it is still valid.
+export async function getSession(): Promise<Session | null> {
+  const cookieStore = await cookies();
+  const payload = await verifySessionToken(cookieStore.get(SESSION_COOKIE_NAME)?.value);
+  if (!payload) return null;
+
+  const session = await db.getSessionById(payload.sid);
+  if (!session || session.user_id !== payload.uid || session.expires_at.getTime() < Date.now()) {
+    return null;
+  }
+  // Keep "last seen" roughly current without writing on every request
+  const now = new Date();
+  if (!session.last_seen_at || now.getTime() - session.last_seen_at.getTime() > LAST_SEEN_INTERVAL_MS) {
+    await db.touchSession(session.id, now);
+    session.last_seen_at = now;
+  }
+  return session;
+}
+
+// Banned and locked users are treated as signed out even if a session survived.
+export async function getCurrentUser(): Promise<User | null> {
+  const session = await getSession();
+  if (!session) return null;
+  const user = await db.getUserById(session.user_id);
+  return user && canSignIn(user) ? user : null;
+}
+
+// Like getCurrentUser, but throws when nobody (or somebody with another role) is signed in.
+export async function requireUser(role?: User['role']): Promise<User> {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new UnauthenticatedError();
+  }
+  if (role && user.role !== role) {
+    throw new ForbiddenError();
+  }
+  return user;
+}
+
+// Deletes the current session from the store and clears the cookie.
+// Signing out while impersonating signs the admin out too.
+export async function destroySession(): Promise<void> {
+  const session = await getSession();
+  if (session) {
+    await db.deleteSession(session.id);
+  }
+  const cookieStore = await cookies();
+  const adminPayload = await verifySessionToken(cookieStore.get(ADMIN_SESSION_COOKIE_NAME)?.value);
+  if (adminPayload) {
+    await db.deleteSession(adminPayload.sid);
+  }
+  cookieStore.delete(SESSION_COOKIE_NAME);
+  cookieStore.delete(ADMIN_SESSION_COOKIE_NAME);
+}
+
+/**
+ * Switches the browser to a new session as the target user. The admin's own
+ * session stays valid and its cookie is set aside until endImpersonation.
+ */
+export async function startImpersonation(admin: Pick<User, 'id'>, target: Pick<User, 'id' | 'role'>): Promise<void> {
+  const cookieStore = await cookies();
+  const adminToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  const adminPayload = await verifySessionToken(adminToken);
+  if (!adminToken || !adminPayload || adminPayload.uid !== admin.id) {
+    throw new UnauthenticatedError();
+  }
+  await setSessionCookie(ADMIN_SESSION_COOKIE_NAME, adminToken, new Date(adminPayload.exp));
+  await createSession(target, { impersonatorId: admin.id });
+}
+
+// Ends the impersonation session and puts the admin's own session back.
+// Returns false when the admin's session has expired in the meantime.
+export async function endImpersonation(): Promise<boolean> {
+  const session = await getSession();
+  if (session?.impersonator_id) {
+    await db.deleteSession(session.id);
+  }
+  const cookieStore = await cookies();
+  const adminToken = cookieStore.get(ADMIN_SESSION_COOKIE_NAME)?.value;
+  const adminPayload = await verifySessionToken(adminToken);
+  cookieStore.delete(ADMIN_SESSION_COOKIE_NAME);
+  if (!adminToken || !adminPayload) {
+    cookieStore.delete(SESSION_COOKIE_NAME);
+    return false;
+  }
+  await setSessionCookie(SESSION_COOKIE_NAME, adminToken, new Date(adminPayload.exp));
+  return true;
+}
+
+// The admin behind the current session, if it is an impersonation session.
+export async function getImpersonator(): Promise<User | null> {
+  const session = await getSession();
+  return session?.impersonator_id ? db.getUserById(session.impersonator_id) : null;
+}
@@ -0,0 +1,64 @@
+/**
+ * @fileOverview Status of a test: draft → published → closed → archived.
+ */
+import { db } from './db';
+import type { Question, Test, TestStatus } from './types';
+
+// The statuses each status may move to. Unpublishing is only allowed while no
+// one has submitted; that is checked separately.
+const TRANSITIONS: Record<TestStatus, TestStatus[]> = {
+  draft: ['published', 'archived'],
+  published: ['draft', 'closed'],
+  closed: ['archived'],
+  archived: [],
+};
+
+export function getTestStatus(test: Pick<Test, 'status'>): TestStatus {
+  return test.status ?? 'published';
+}
+
+// Drafts and archived tests are hidden from students.
+export function isVisibleToStudents(test: Pick<Test, 'status'>): boolean {
+  const status = getTestStatus(test);
+  return status === 'published' || status === 'closed';
+}
+
+export async function assertStatusTransition(test: Test, to: TestStatus): Promise<void> {
+  const from = getTestStatus(test);
+  if (!TRANSITIONS[from].includes(to)) {
+    throw new Error(`A ${from} test cannot be moved to ${to}.`);
+  }
+  if (from === 'published' && to === 'draft' && (await db.getSubmissionsByTest(test.id)).length > 0) {
+    throw new Error('Students have already submitted this test, so it cannot go back to draft. Close it instead.');
+  }
+}
+
+// Fields of a question that can still be corrected after students have submitted.
+// A changed answer key or scoring rule re-scores the submissions.
+const CORRECTABLE_FIELDS: (keyof Question)[] = ['question_text', 'image_url', 'correct_answer', 'correct_answers', 'scoring'];
+
+// Questions can't be added or removed once anyone has submitted, so every
+// submission is graded against the questions the student saw.
+export async function assertQuestionsEditable(test: Test): Promise<void> {
+  if (getTestStatus(test) === 'archived') {
+    throw new Error('Archived tests cannot be changed.');
+  }
+  if ((await db.getSubmissionsByTest(test.id)).length > 0) {
+    throw new Error('Students have already submitted this test. Create a new version to change its questions.');
+  }
+}
+
+export async function assertQuestionUpdateAllowed(test: Test, before: Question, changes: Partial<Question>): Promise<void> {
+  if (getTestStatus(test) === 'archived') {
+    throw new Error('Archived tests cannot be changed.');
+  }
+  if ((await db.getSubmissionsByTest(test.id)).length === 0) {
+    return;
+  }
+  const frozen = (Object.keys(changes) as (keyof Question)[]).filter(key =>
+    !CORRECTABLE_FIELDS.includes(key) && JSON.stringify(changes[key]) !== JSON.stringify(before[key])
+  );
+  if (frozen.length > 0) {
+    throw new Error('Students have already submitted this test, so only the question text, image, correct answers and scoring can be changed. Create a new version to change anything else.');
+  }
+}
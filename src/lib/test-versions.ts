@@ -0,0 +1,75 @@
+/**
+ * @fileOverview Copies and versions of tests. A duplicate starts a new test; a
+ * new version joins the source's version group. Each version keeps its own
+ * questions, so earlier submissions stay with the questions they answered.
+ */
+import { db } from './db';
+import type { Question, Test } from './types';
+
+// Question fields shown when comparing versions.
+const COMPARED_QUESTION_FIELDS = ['question_text', 'type', 'marks', 'answer_format', 'options', 'correct_answer', 'correct_answers', 'scoring', 'image_url'] as const;
+const COMPARED_TEST_FIELDS = ['title', 'description', 'subject', 'time_limit'] as const;
+
+export type QuestionChange = {
+  change: 'added' | 'removed' | 'changed' | 'unchanged';
+  before?: Question;
+  after?: Question;
+  changed_fields: string[];
+};
+
+export type TestVersionDiff = {
+  details: { field: string; before: string; after: string }[];
+  questions: QuestionChange[];
+};
+
+export function getVersionGroupId(test: Pick<Test, 'id' | 'version_group_id'>): string {
+  return test.version_group_id ?? test.id;
+}
+
+export function getVersionNumber(test: Pick<Test, 'version'>): number {
+  return test.version ?? 1;
+}
+
+// Copies the test and its questions into a new draft. The window, version and
+// status are not copied; pass them in `data` where they should carry over.
+export async function copyTest(source: Test, data: Partial<Omit<Test, 'id'>>): Promise<Test> {
+  const { id, status, opens_at, closes_at, version, version_group_id, created_at, ...fields } = source;
+  const copy = await db.createTest({ ...fields, ...data, status: 'draft', created_at: new Date() });
+  const questions = await db.getQuestionsByTest(source.id);
+  for (const [position, { id: questionId, test_id, ...question }] of questions.entries()) {
+    await db.createQuestion({
+      ...question,
+      test_id: copy.id,
+      position,
+      origin_question_id: question.origin_question_id ?? questionId,
+    });
+  }
+  return copy;
+}
+
+function lineageId(question: Question): string {
+  return question.origin_question_id ?? question.id;
+}
+
+// Compares two versions of a test. Questions are matched by the question they
+// were copied from, so a reworded question shows as changed, not replaced.
+export function diffTestVersions(from: Test, fromQuestions: Question[], to: Test, toQuestions: Question[]): TestVersionDiff {
+  const details = COMPARED_TEST_FIELDS
+    .filter(field => from[field] !== to[field])
+    .map(field => ({ field, before: String(from[field]), after: String(to[field]) }));
+
+  const remaining = new Map(fromQuestions.map(question => [lineageId(question), question]));
+  const questions: QuestionChange[] = toQuestions.map(after => {
+    const before = remaining.get(lineageId(after));
+    if (!before) {
+      return { change: 'added', after, changed_fields: [] };
+    }
+    remaining.delete(lineageId(after));
+    const changedFields = COMPARED_QUESTION_FIELDS.filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+    return { change: changedFields.length > 0 ? 'changed' : 'unchanged', before, after, changed_fields: changedFields };
+  });
+  for (const before of remaining.values()) {
+    questions.push({ change: 'removed', before, changed_fields: [] });
+  }
+  return { details, questions };
+}
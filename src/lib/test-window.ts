@@ -0,0 +1,38 @@
+/**
+ * @fileOverview Availability windows of tests. Used by the flows and by pages,
+ * which receive the window as ISO strings.
+ */
+
+type TestWindow = {
+  status?: string;
+  opens_at?: Date | string | null;
+  closes_at?: Date | string | null;
+};
+
+export type TestWindowStatus = 'upcoming' | 'open' | 'closed';
+
+// Where a moment falls in the opens_at–closes_at window, whatever the test's status.
+function windowStatusAt(test: TestWindow, at: Date): TestWindowStatus {
+  if (test.opens_at && at < new Date(test.opens_at)) return 'upcoming';
+  if (test.closes_at && at > new Date(test.closes_at)) return 'closed';
+  return 'open';
+}
+
+// Whether students can start the test now. A closed test can't be started
+// even if its window hasn't ended.
+export function getTestWindowStatus(test: TestWindow, now: Date = new Date()): TestWindowStatus {
+  if (test.status === 'closed') return 'closed';
+  return windowStatusAt(test, now);
+}
+
+// Whether an attempt started at this moment started inside the window. Closing
+// a test sets closes_at, so attempts already under way still count and the
+// grace period runs from there.
+export function wasOpenAt(test: TestWindow, at: Date): boolean {
+  return windowStatusAt(test, at) === 'open';
+}
+
+// Timestamps are shown in the viewer's own time zone.
+export function formatTestTime(value: Date | string): string {
+  return new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
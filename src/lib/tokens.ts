@@ -0,0 +1,15 @@
+/**
+ * @fileOverview One-time tokens sent to users by email (invitations etc.).
+ * Only the SHA-256 hash of a token is stored, so a leaked database can't be
+ * used to redeem them.
+ */
+import { createHash, randomBytes } from 'crypto';
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function generateToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashToken(token) };
+}
@@ -0,0 +1,88 @@
+/**
+ * @fileOverview Time-based one-time passwords (RFC 6238) as used by
+ * authenticator apps: SHA-1, 6 digits, 30 second steps.
+ */
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const ALLOWED_DRIFT_STEPS = 1; // accept the previous and next code to allow for clock skew
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.replace(/=+$/, '').replace(/\s/g, '').toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 character in TOTP secret.');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function hotp(secret: Buffer, counter: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac('sha1', secret).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+  return code.toString().padStart(DIGITS, '0');
+}
+
+// A new random secret, base32 encoded as authenticator apps expect.
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+// The otpauth:// URI that authenticator apps read from the QR code.
+export function getTotpProvisioningUri(secret: string, accountName: string, issuer = 'ExamZen'): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: String(DIGITS), period: String(STEP_SECONDS) });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Checks a code against the secret and returns the time step it belongs to,
+ * or null if it doesn't match. Callers store the step and pass it back as
+ * `lastUsedStep` so the same code can't be used twice.
+ */
+export function verifyTotp(secret: string, code: string, lastUsedStep?: number): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+  for (let drift = -ALLOWED_DRIFT_STEPS; drift <= ALLOWED_DRIFT_STEPS; drift++) {
+    const step = currentStep + drift;
+    if (lastUsedStep !== undefined && step <= lastUsedStep) continue;
+    if (timingSafeEqual(Buffer.from(hotp(key, step)), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,96 @@
+/**
+ * @fileOverview Second-factor checks for sign-in and sensitive account changes.
+ *
+ * After the password is accepted for an account with 2FA enabled, a short-lived
+ * challenge is stored and referenced from an httpOnly cookie. The session is
+ * only created once a code from the authenticator app (or a recovery code)
+ * is entered for that challenge.
+ */
+import { randomBytes } from 'crypto';
+import { cookies } from 'next/headers';
+import { db } from './db';
+import type { User } from './types';
+import { generateToken, hashToken } from './tokens';
+import { verifyTotp } from './totp';
+
+const TWO_FACTOR_COOKIE_NAME = 'examzen_2fa';
+const CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const RECOVERY_CODE_COUNT = 10;
+
+export const MAX_CHALLENGE_ATTEMPTS = 5;
+
+// Whether the security settings make 2FA mandatory for the role. Students never use it.
+export async function isTwoFactorRequired(role: User['role']): Promise<boolean> {
+  if (role === 'student') return false;
+  const settings = await db.getSecuritySettings();
+  return settings.require_two_factor_roles.includes(role);
+}
+
+// True when the user's role requires 2FA and they haven't enrolled yet.
+export async function isTwoFactorSetupRequired(user: User): Promise<boolean> {
+  return !user.totp_enabled && (await isTwoFactorRequired(user.role));
+}
+
+export async function startTwoFactorChallenge(userId: string): Promise<void> {
+  const { token, tokenHash } = generateToken();
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + CHALLENGE_TTL_MS);
+  await db.createTwoFactorChallenge({
+    user_id: userId,
+    token_hash: tokenHash,
+    attempts: 0,
+    created_at: now,
+    expires_at: expiresAt,
+  });
+
+  const cookieStore = await cookies();
+  cookieStore.set(TWO_FACTOR_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export async function getTwoFactorChallengeToken(): Promise<string | undefined> {
+  const cookieStore = await cookies();
+  return cookieStore.get(TWO_FACTOR_COOKIE_NAME)?.value;
+}
+
+export async function clearTwoFactorChallenge(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete(TWO_FACTOR_COOKIE_NAME);
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Recovery codes are shown to the user once; only their hashes are stored.
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(code => hashToken(normalizeRecoveryCode(code))) };
+}
+
+/**
+ * Accepts either a current authenticator code or an unused recovery code.
+ * `user` must be loaded with its secrets. Accepted codes are consumed, so
+ * neither kind of code works twice.
+ */
+export async function verifySecondFactor(user: User, code: string): Promise<boolean> {
+  if (!user.totp_enabled || !user.totp_secret) return false;
+
+  const step = verifyTotp(user.totp_secret, code, user.totp_last_used_step);
+  if (step !== null) {
+    return db.consumeTotpStep(user.id, step);
+  }
+  const recoveryCode = normalizeRecoveryCode(code);
+  if (recoveryCode.length === 10) {
+    return db.consumeRecoveryCode(user.id, hashToken(recoveryCode));
+  }
+  return false;
+}
@@ -7,9 +7,50 @@ export type User = {
   password?: string;
   role: 'teacher' | 'student' | 'admin';
   profile_pic_url?: string;
+  // banned: cannot sign in. locked: cannot sign in until locked_until (or until unlocked).
+  // muted: can sign in and take exams, but cannot publish anything other users see.
   status?: 'active' | 'banned' | 'muted' | 'locked';
+  locked_until?: string; // ISO timestamp; absent means locked until an admin unlocks
+  status_before_lock?: 'active' | 'banned' | 'muted'; // restored when the lock ends
   class?: string; // e.g., "10", "12"
   section?: string; // e.g., "A", "B"
+  // The SchoolClass a student is enrolled in; class and section above mirror its grade and section.
+  class_id?: string;
+  // false while a self-registered student hasn't confirmed their address. Accounts
+  // created before verification existed, and teachers and admins, don't have it.
+  email_verified?: boolean;
+  // Two-factor authentication (teachers and admins). Only totp_enabled ever leaves the server.
+  totp_enabled?: boolean;
+  totp_secret?: string; // base32
+  totp_pending_secret?: string; // set during enrollment until the first code is confirmed
+  totp_last_used_step?: number; // time step of the last accepted code, so codes can't be replayed
+  recovery_code_hashes?: string[]; // sha256 of the unused recovery codes
+  // Set once the account has signed in through the school's identity provider.
+  oidc_issuer?: string;
+  oidc_subject?: string; // the provider's "sub" claim
+};
+
+// One section of a grade for one academic year, e.g. 10-A in 2025-26.
+// Students are enrolled through User.class_id.
+export type SchoolClass = {
+  id: string;
+  grade: string; // "1" to "12"
+  section: string; // upper case, e.g. "A"
+  academic_year: string; // e.g. "2025-26"
+  homeroom_teacher_id?: string;
+  created_at: Date;
+};
+
+export type TestStatus = 'draft' | 'published' | 'closed' | 'archived';
+
+// "Pick draw_count of these questions": each student gets their own draw from
+// the questions whose pool_id is the pool's id. A stratified pool spreads the
+// draw evenly over the questions' difficulties or first tags.
+export type QuestionPool = {
+  id: string;
+  name: string;
+  draw_count: number;
+  stratify_by?: 'difficulty' | 'tag';
 };
 
 export type Test = {
@@ -19,18 +60,96 @@ export type Test = {
   time_limit: number; // in minutes
   created_by: string; // teacher user id
   subject: string;
+  // Only published and closed tests are shown to students. Tests created before
+  // the lifecycle existed have no status and count as published.
+  status?: TestStatus;
+  // Students see the test if their class or their own id is listed. Tests
+  // created before assignments existed have neither and are open to every student.
+  assigned_class_ids?: string[];
+  assigned_student_ids?: string[];
+  // Optional availability window. Stored in UTC; either end may be left open.
+  opens_at?: Date;
+  closes_at?: Date;
+  // Versions of a test share a group, named by the id of the first version,
+  // which has no group id itself. Tests without a version number are version 1.
+  version_group_id?: string;
+  version?: number;
+  created_at?: Date; // missing on tests created before versions existed
+  question_pools?: QuestionPool[]; // Questions outside a pool are given to every student
+  // Each student sees the questions, or the options of each MCQ, in their own
+  // order. Answers and analytics always refer to the stored order.
+  shuffle_questions?: boolean;
+  shuffle_options?: boolean;
 };
 
+// When a student first loaded a test's questions, so submissions can be checked
+// against the availability window. There is one per student and test.
+export type TestAttempt = {
+  id: string;
+  test_id: string;
+  student_id: string;
+  started_at: Date;
+  // The questions drawn for this student from the test's pools, in test order.
+  // Only set for tests with pools; the draw is seeded by the attempt id.
+  question_ids?: string[];
+  // The order this student sees, for tests that shuffle. option_orders maps an
+  // MCQ's id to the indexes of its stored options, in the order shown.
+  question_order?: string[];
+  option_orders?: Record<string, number[]>;
+};
+
+// multi_select is "select all that apply". It and mcq are auto-graded.
+export type QuestionType = 'mcq' | 'multi_select' | 'subjective';
+
+// How a multi-select answer is marked:
+// all_or_nothing: full credit only for picking exactly the correct options.
+// partial: a share of the credit for each option picked or left out correctly.
+// penalty: a share for each correct option picked, less one share per wrong pick, never below zero.
+export type MultiSelectScoring = 'all_or_nothing' | 'partial' | 'penalty';
+
 export type Question = {
   id: string;
   test_id: string;
   question_text: string;
-  type: 'mcq' | 'subjective';
+  type: QuestionType;
   marks: number;
   answer_format?: 'text' | 'image'; // For subjective questions
-  options?: string[]; // For MCQ
+  options?: string[]; // For MCQ and multi-select
   correct_answer?: string; // For MCQ
+  correct_answers?: string[]; // For multi-select
+  scoring?: MultiSelectScoring; // For multi-select
   image_url?: string;
+  position?: number; // Order within the test; older questions go by creation order
+  // The question this one was copied from, followed back to the first copy, so
+  // versions of a test can be compared question by question.
+  origin_question_id?: string;
+  bank_question_id?: string; // Set when the question was added from the question bank
+  pool_id?: string; // One of the test's question_pools
+  difficulty?: QuestionDifficulty; // Used to stratify pools
+  tags?: string[]; // Topics, stored lowercase; the first one is used to stratify pools
+};
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+// A reusable question. Adding it to a test copies it, so later edits to the
+// bank don't change tests that already use it.
+export type BankQuestion = {
+  id: string;
+  owner_id: string; // teacher user id
+  shared: boolean; // Shared questions can be used by every teacher at the school
+  subject: string;
+  tags: string[]; // Topics, stored lowercase
+  difficulty: QuestionDifficulty;
+  question_text: string;
+  type: QuestionType;
+  marks: number;
+  answer_format?: 'text' | 'image';
+  options?: string[];
+  correct_answer?: string;
+  correct_answers?: string[];
+  scoring?: MultiSelectScoring;
+  image_url?: string;
+  created_at: Date;
 };
 
 export type Answer = {
@@ -39,7 +158,9 @@ export type Answer = {
   question_id: string;
   answer_text: string | null; // null if skipped
   answer_image_url?: string | null; // For subjective image uploads
-  is_correct?: boolean; // For MCQ, auto-graded
+  answer_options?: string[]; // For multi-select, the options picked; answer_text lists them for display
+  is_correct?: boolean; // For MCQ and multi-select, auto-graded
+  credit?: number; // For multi-select, the share of full credit earned, from 0 to 1
 };
 
 export type Submission = {
@@ -50,4 +171,154 @@ export type Submission = {
   mcq_score: number | null;
   final_score: number | null;
   status: 'Pending' | 'Graded';
+  question_ids?: string[]; // The questions the student was given, for tests with pools
+};
+
+export type Session = {
+  id: string;
+  user_id: string;
+  role: User['role'];
+  created_at: Date;
+  expires_at: Date;
+  last_seen_at?: Date; // refreshed at most every few minutes
+  user_agent?: string;
+  ip?: string;
+  impersonator_id?: string; // set when an admin is viewing the app as this user
+};
+
+export type Invitation = {
+  id: string;
+  email: string;
+  username: string;
+  role: 'teacher';
+  token_hash: string; // sha256 of the token sent by email
+  invited_by: string; // admin user id
+  created_at: Date;
+  expires_at: Date;
+  accepted_at?: Date;
+  revoked_at?: Date;
+};
+
+// Every reset request is recorded, even for unknown emails, so rate limiting
+// behaves the same whether or not an account exists.
+export type PasswordReset = {
+  id: string;
+  email: string;
+  user_id?: string; // set only when the email belongs to an account
+  token_hash?: string; // sha256 of the token sent by email
+  created_at: Date;
+  expires_at: Date;
+  used_at?: Date;
+};
+
+export type FailedLogin = {
+  id: string;
+  email: string;
+  user_id?: string; // set only when the email belongs to an account
+  ip: string;
+  created_at: Date;
+  // Set once the failure no longer counts towards the account lock,
+  // i.e. after a successful sign-in or a manual unlock.
+  cleared_at?: Date;
+};
+
+export type TwoFactorChallenge = {
+  id: string;
+  user_id: string;
+  token_hash: string; // sha256 of the token kept in the challenge cookie
+  attempts: number; // wrong codes entered so far
+  created_at: Date;
+  expires_at: Date;
+};
+
+export type OidcLoginState = {
+  id: string;
+  state_hash: string; // sha256 of the state parameter, which is also kept in a cookie
+  nonce: string;
+  code_verifier: string; // PKCE
+  created_at: Date;
+  expires_at: Date;
+};
+
+export type SecuritySettings = {
+  require_two_factor_roles: ('teacher' | 'admin')[];
+};
+
+export type EmailVerification = {
+  id: string;
+  user_id: string;
+  email: string;
+  token_hash: string; // sha256 of the token sent by email
+  created_at: Date;
+  expires_at: Date;
+  used_at?: Date;
+};
+
+export type ExamSettings = {
+  // Minutes after a test closes during which submissions are still accepted,
+  // so a student who started in time isn't cut off mid-upload.
+  submission_grace_minutes: number;
+};
+
+export type RegistrationSettings = {
+  // Student self-registration is limited to these email domains; empty allows any.
+  allowed_email_domains: string[];
+};
+
+export type AuditAction =
+  | 'user.register'
+  | 'user.update'
+  | 'user.password_change'
+  | 'user.password_reset'
+  | 'user.status_change'
+  | 'user.unlock'
+  | 'user.email_verify'
+  | 'user.sso_link'
+  | 'user.sso_provision'
+  | 'user.two_factor_enable'
+  | 'user.two_factor_disable'
+  | 'user.recovery_codes_regenerate'
+  | 'session.revoke'
+  | 'invitation.create'
+  | 'invitation.resend'
+  | 'invitation.revoke'
+  | 'invitation.accept'
+  | 'test.create'
+  | 'test.update'
+  | 'test.duplicate'
+  | 'test.version_create'
+  | 'test.status_change'
+  | 'test.delete'
+  | 'question.create'
+  | 'question.update'
+  | 'question.delete'
+  | 'bank_question.create'
+  | 'bank_question.update'
+  | 'bank_question.delete'
+  | 'submission.submit'
+  | 'submission.grade'
+  | 'submission.rescore'
+  | 'settings.update'
+  | 'impersonation.start'
+  | 'impersonation.stop'
+  | 'class.create'
+  | 'class.update'
+  | 'class.delete'
+  | 'class.enroll'
+  | 'class.unenroll';
+
+// Audit events are append-only: nothing updates or deletes them.
+export type AuditEvent = {
+  id: string;
+  actor_id: string | null; // null for changes made by the system, e.g. automatic lockouts
+  actor_name: string;
+  actor_role?: User['role'];
+  action: AuditAction;
+  target_type: 'user' | 'test' | 'question' | 'submission' | 'invitation' | 'session' | 'settings' | 'class' | 'bank_question';
+  target_id: string;
+  target_label?: string; // e.g. the username or test title at the time of the change
+  changes?: Record<string, { before: unknown; after: unknown }>;
+  impersonator_id?: string; // the admin behind the actor, when the change was made while impersonating
+  ip: string;
+  created_at: Date;
 };
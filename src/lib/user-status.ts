@@ -0,0 +1,39 @@
+/**
+ * @fileOverview Helpers for interpreting User.status. Safe to use on the client.
+ */
+import type { User } from './types';
+
+type UserStatusFields = Pick<User, 'status' | 'locked_until' | 'status_before_lock'>;
+
+// A lock whose unlock time has passed counts as the status the account had before it.
+export function getEffectiveStatus(user: UserStatusFields): NonNullable<User['status']> {
+  const status = user.status ?? 'active';
+  if (status === 'locked' && user.locked_until && Date.parse(user.locked_until) <= Date.now()) {
+    return user.status_before_lock ?? 'active';
+  }
+  return status;
+}
+
+export function canSignIn(user: UserStatusFields): boolean {
+  const status = getEffectiveStatus(user);
+  return status !== 'banned' && status !== 'locked';
+}
+
+// The message shown when a banned or locked user tries to sign in.
+export function getSignInBlockedMessage(user: UserStatusFields): string | null {
+  switch (getEffectiveStatus(user)) {
+    case 'banned':
+      return 'This account has been banned. Please contact your administrator.';
+    case 'locked':
+      return user.locked_until
+        ? `This account is locked until ${new Date(user.locked_until).toLocaleString()}.`
+        : 'This account is locked. Please contact your administrator.';
+    default:
+      return null;
+  }
+}
+
+// Only self-registered students carry the flag, so a missing value counts as verified.
+export function isEmailVerified(user: Pick<User, 'email_verified'>): boolean {
+  return user.email_verified !== false;
+}
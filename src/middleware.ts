@@ -0,0 +1,40 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { SESSION_COOKIE_NAME, verifySessionToken } from '@/lib/session-token';
+
+// Each protected area of the app and the role allowed to open it.
+const PROTECTED_AREAS: Record<string, 'student' | 'teacher' | 'admin' | null> = {
+  student: 'student',
+  teacher: 'teacher',
+  admin: 'admin',
+  profile: null, // any signed-in user
+};
+
+/**
+ * Rejects requests to protected areas before they render. Only the cookie
+ * signature is checked here; the layouts re-check the session against the
+ * database, since revoked sessions can't be detected from the edge.
+ */
+export async function middleware(request: NextRequest) {
+  const area = request.nextUrl.pathname.split('/')[1];
+  const requiredRole = PROTECTED_AREAS[area];
+
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+
+  if (!session) {
+    const loginUrl = new URL('/login', request.url);
+    if (requiredRole) {
+      loginUrl.searchParams.set('role', requiredRole);
+    }
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (requiredRole && session.role !== requiredRole) {
+    return NextResponse.rewrite(new URL('/forbidden', request.url), { status: 403 });
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/student/:path*', '/teacher/:path*', '/admin/:path*', '/profile/:path*'],
+};